@@ -1,8 +1,9 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { GameState, Level } from './types';
-import { PHASE1_LEVELS, PHASE2_LEVELS, PHASE3_LEVELS, LEVELS, ADVANCED_LEVELS } from './levels';
+import { GameState, Level, ValidationResult } from './types';
+import { loadGameLevels } from './levels';
+import corePack from './levels/packs/core.yaml?raw';
 import { DevTools } from './components/DevTools';
-import { SimulationView } from './components/SimulationView';
+import { SimulationView, SimulationViewRef } from './components/SimulationView';
 import { DebriefView } from './components/DebriefView';
 import { EndingView } from './components/EndingView';
 // import { CRTEffectOverlay } from './components/CRTEffectOverlay';
@@ -10,6 +11,9 @@ import { CRTEffectOverlayWebGL } from './components/CRTEffectOverlayWebGL.tsx';
 import { TitleCardOverlay } from './components/TitleCardOverlay';
 import { OscilloscopeTitleCardWebGL } from './components/OscilloscopeTitleCardWebGL';
 import { CRTDisplacementMapDefs } from './components/CRTDisplacementMapDefs';
+import { TranscriptFormat, createTranscriptMeta, exportTranscript, importTranscript } from './utils/transcript';
+import { setLevel4SessionStore } from './levels/level4/index';
+import { resetLevel5Environment } from './levels/level5/index';
 
 // localStorage key for persisting completion state
 const STORAGE_KEY = 'youareanagent-progress';
@@ -23,6 +27,12 @@ type CompletionState = {
   ending: boolean;
 };
 
+// Levels come from the core pack; edit levels/packs/core.yaml to change them
+const { PHASE1_LEVELS, PHASE2_LEVELS, PHASE3_LEVELS } = loadGameLevels(corePack);
+
+// Keep Level 4's Nexus state across reloads, alongside the run each level is on (utils/runs.ts)
+setLevel4SessionStore(localStorage);
+
 function loadProgress(): CompletionState {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
@@ -60,6 +70,9 @@ export default function App() {
   // Track completed levels (persisted to localStorage)
   const [completedState, setCompletedState] = useState<CompletionState>(loadProgress);
 
+  // Winning validation result per level id (rubric breakdowns for the debriefs)
+  const [levelResults, setLevelResults] = useState<Record<number, ValidationResult>>({});
+
   // Save to localStorage whenever completion state changes
   useEffect(() => {
     saveProgress(completedState);
@@ -179,7 +192,50 @@ export default function App() {
     }
   }, [gameState, activeLevel, introComplete]);
 
-  const handleLevelSuccess = () => {
+  const simulationRef = useRef<SimulationViewRef>(null);
+
+  const handleExportTranscript = (format: TranscriptFormat) => {
+    if (!activeLevel || !simulationRef.current) return;
+    const meta = createTranscriptMeta(
+      { id: activeLevel.id, title: activeLevel.title },
+      isRealisticMode ? 'realistic' : 'easy'
+    );
+    const text = exportTranscript(simulationRef.current.getHistory(), format, meta);
+    const ext = format === 'markdown' ? 'md' : 'json';
+    const blob = new Blob([text], { type: format === 'markdown' ? 'text/markdown' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `level-${activeLevel.id.toString().padStart(2, '0')}-${format}.${ext}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportTranscript = async (source: string) => {
+    if (!simulationRef.current || !activeLevel) return;
+    try {
+      await simulationRef.current.loadHistory(importTranscript(source, activeLevel).messages);
+    } catch (e) {
+      window.alert(`Transcript import failed: ${(e as Error).message}`);
+    }
+  };
+
+  const handleResetEnvironment = async () => {
+    try {
+      await resetLevel5Environment();
+    } catch (e) {
+      window.alert(`Environment reset failed: ${(e as Error).message}`);
+    }
+  };
+
+  const recordLevelResult = (levelId: number, result?: ValidationResult) => {
+    if (!result) return;
+    setLevelResults(prev => ({ ...prev, [levelId]: result }));
+  };
+
+  const handleLevelSuccess = (result?: ValidationResult) => {
+    if (activeLevel) recordLevelResult(activeLevel.id, result);
+
     if (gameState === GameState.PLAYING) {
         // Phase 1: Mark current level as complete
         markLevelComplete(PHASE1_LEVELS[currentLevelIndex].id, 'levels');
@@ -265,6 +321,7 @@ export default function App() {
       if (gameState === GameState.PLAYING) {
         return (
           <SimulationView
+              ref={simulationRef}
               key={`phase1-${currentLevelIndex}-${isRealisticMode}`}
               level={PHASE1_LEVELS[currentLevelIndex]}
               onSuccess={handleLevelSuccess}
@@ -279,13 +336,14 @@ export default function App() {
 
       // Debrief 1 (after Phase 1)
       if (gameState === GameState.DEBRIEF_1) {
-        return <DebriefView phase={1} onContinue={handleDebrief1Continue} crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
+        return <DebriefView phase={1} levels={PHASE1_LEVELS} results={levelResults} onContinue={handleDebrief1Continue} crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
       }
 
       // Phase 2
       if (gameState === GameState.PLAYING_PHASE2) {
         return (
             <SimulationView
+                ref={simulationRef}
                 key={`phase2-${currentLevelIndex}-${isRealisticMode}`}
                 level={PHASE2_LEVELS[currentLevelIndex]}
                 onSuccess={handleLevelSuccess}
@@ -300,13 +358,14 @@ export default function App() {
 
       // Debrief 2 (after Phase 2)
       if (gameState === GameState.DEBRIEF_2) {
-        return <DebriefView phase={2} onContinue={handleDebrief2Continue} crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
+        return <DebriefView phase={2} levels={PHASE2_LEVELS} results={levelResults} onContinue={handleDebrief2Continue} crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
       }
 
       // Phase 3
       if (gameState === GameState.PLAYING_PHASE3) {
         return (
             <SimulationView
+                ref={simulationRef}
                 key={`phase3-${currentLevelIndex}-${isRealisticMode}`}
                 level={PHASE3_LEVELS[currentLevelIndex]}
                 onSuccess={handleLevelSuccess}
@@ -320,7 +379,7 @@ export default function App() {
       }
 
       if (gameState === GameState.ENDING) {
-          return <EndingView crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
+          return <EndingView levels={PHASE3_LEVELS} results={levelResults} crtUiWarp2d={crtMode === 'webgl' ? warpDerived.uiWarp2d : 0} />;
       }
       return null;
   }
@@ -381,6 +440,9 @@ export default function App() {
           typewriterSpeed={typewriterSpeed}
           setTypewriterSpeed={setTypewriterSpeed}
           completedState={completedState}
+          onExportTranscript={activeLevel ? handleExportTranscript : undefined}
+          onImportTranscript={activeLevel ? handleImportTranscript : undefined}
+          onResetEnvironment={activeLevel?.id === 5 ? handleResetEnvironment : undefined}
         />
         <div
           className={`h-full ${
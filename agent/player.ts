@@ -0,0 +1,146 @@
+/**
+ * Agent Player
+ *
+ * Lets a real model play levels: the model's replies are the assistant turns fed to
+ * `playLevel` (cli/play.ts), so validation and history follow the same rules as the game.
+ */
+
+import { Level, Message } from '../types';
+import { formatAssistantToolCall, parseAssistantToolCall } from '../utils/transcript';
+import { getUnsupportedReason, playLevel } from '../cli/play';
+import { ModelProvider, ModelReply } from './providers';
+
+// Sent to the model as an extra developer message (not part of the game's history)
+export const AGENT_RESPONSE_FORMAT = `### RESPONSE_FORMAT
+Reply with exactly one of:
+- A single tool call written as text, e.g. tool_name({ "arg": "value" }), with nothing else
+- Your final answer to the user, in plain prose
+Tool results arrive as user messages starting with [TOOL_RESULT] or [TOOL_ERROR].`;
+
+export interface AgentRunOptions {
+  maxSteps?: number;
+  isRealisticMode?: boolean;
+  onMessage?: (message: Message) => void;
+}
+
+export interface AgentRunRecord {
+  levelId: number;
+  title: string;
+  status: 'SUCCESS' | 'FAIL' | 'UNSUPPORTED' | 'ERROR';
+  steps: number;
+  score?: number; // Rubric score (0-1) when the level provides one
+  message?: string; // Last validation message, or the error
+  durationMs: number;
+  history: Message[];
+}
+
+export interface AgentBenchmarkResult {
+  provider: string;
+  startedAt: string;
+  maxSteps: number;
+  records: AgentRunRecord[];
+}
+
+const DEFAULT_MAX_STEPS = 20;
+
+/**
+ * Convert a model reply into the level's text input.
+ * Native tool calls become `name({ ... })`; a fenced code block holding a call is unwrapped.
+ */
+export function toLevelInput(reply: ModelReply): string {
+  if (reply.toolCall) return formatAssistantToolCall(reply.toolCall);
+
+  const text = reply.text.trim();
+  const fenced = text.match(/```[a-zA-Z]*\n([\s\S]*?)\n?```/);
+  if (fenced && parseAssistantToolCall(fenced[1])) return fenced[1].trim();
+  return text;
+}
+
+function withResponseFormat(history: Message[]): Message[] {
+  const contextEnd = history.findIndex(m => m.role !== 'system' && m.role !== 'developer');
+  const at = contextEnd === -1 ? history.length : contextEnd;
+  return [...history.slice(0, at), { role: 'developer', content: AGENT_RESPONSE_FORMAT }, ...history.slice(at)];
+}
+
+/**
+ * Play one level with a model until SUCCESS or the step budget runs out.
+ */
+export async function runAgent(
+  level: Level,
+  provider: ModelProvider,
+  options: AgentRunOptions = {}
+): Promise<AgentRunRecord> {
+  const { maxSteps = DEFAULT_MAX_STEPS, isRealisticMode = false, onMessage } = options;
+  const startedAt = Date.now();
+  const base = { levelId: level.id, title: level.title };
+
+  const unsupported = getUnsupportedReason(level);
+  if (unsupported) {
+    return { ...base, status: 'UNSUPPORTED', steps: 0, message: unsupported, durationMs: 0, history: [] };
+  }
+
+  // Mirror of playLevel's history, read by the turn generator before each model call
+  const history: Message[] = [];
+  let steps = 0;
+
+  async function* modelTurns(): AsyncGenerator<string> {
+    while (true) {
+      const reply = await provider.complete(withResponseFormat(history));
+      steps++;
+      // An empty reply would be skipped by playLevel; send a placeholder so it counts as a step
+      yield toLevelInput(reply) || '(empty response)';
+    }
+  }
+
+  try {
+    const result = await playLevel(level, modelTurns(), {
+      isRealisticMode,
+      maxTurns: maxSteps,
+      onMessage: (message) => {
+        history.push(message);
+        onMessage?.(message);
+      }
+    });
+
+    return {
+      ...base,
+      status: result.status,
+      steps: result.turns,
+      score: result.result?.rubric?.score,
+      message: result.result?.message,
+      durationMs: Date.now() - startedAt,
+      history: result.history
+    };
+  } catch (e) {
+    return {
+      ...base,
+      status: 'ERROR',
+      steps,
+      message: (e as Error).message,
+      durationMs: Date.now() - startedAt,
+      history
+    };
+  }
+}
+
+/**
+ * Run a model over several levels and record one result per level.
+ */
+export async function runAgentBenchmark(
+  levels: Level[],
+  provider: ModelProvider,
+  options: AgentRunOptions = {}
+): Promise<AgentBenchmarkResult> {
+  const result: AgentBenchmarkResult = {
+    provider: provider.name,
+    startedAt: new Date().toISOString(),
+    maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS,
+    records: []
+  };
+
+  for (const level of levels) {
+    result.records.push(await runAgent(level, provider, options));
+  }
+
+  return result;
+}
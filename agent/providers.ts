@@ -0,0 +1,188 @@
+/**
+ * Model providers for the agent player.
+ *
+ * Each provider turns the game's `Message[]` history into one chat request and returns the reply.
+ * Tool calls in the game are plain text (`name({ ... })`), so history is sent as text turns:
+ * system + developer become the system prompt, and tool output is sent as a user turn.
+ */
+
+import { Message } from '../types';
+import { AssistantToolCall } from '../utils/transcript';
+
+export interface ModelReply {
+  text: string;
+  toolCall?: AssistantToolCall; // Set when the provider answered with a native tool/function call
+}
+
+export interface ModelProvider {
+  name: string;
+  complete: (history: Message[]) => Promise<ModelReply>;
+}
+
+export interface ProviderConfig {
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  maxTokens?: number;
+}
+
+type ChatTurn = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Flatten history into a system prompt plus alternating user/assistant text turns.
+ */
+export function toChatTurns(history: Message[]): { system: string; turns: ChatTurn[] } {
+  const systemParts: string[] = [];
+  const turns: ChatTurn[] = [];
+
+  const push = (role: ChatTurn['role'], content: string) => {
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${content}`;
+    } else {
+      turns.push({ role, content });
+    }
+  };
+
+  for (const msg of history) {
+    switch (msg.role) {
+      case 'system':
+      case 'developer':
+        systemParts.push(msg.content);
+        break;
+      case 'user':
+        push('user', msg.content);
+        break;
+      case 'assistant':
+        push('assistant', msg.content);
+        break;
+      case 'tool':
+        push('user', `${msg.isError ? '[TOOL_ERROR]' : '[TOOL_RESULT]'}\n${msg.content}`);
+        break;
+    }
+  }
+
+  return { system: systemParts.join('\n\n'), turns };
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} from ${url}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+  return response.json();
+}
+
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (typeof args !== 'string') return (args as Record<string, unknown>) ?? {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { input: args };
+  }
+}
+
+/**
+ * Any OpenAI-compatible Chat Completions endpoint (OpenAI, vLLM, Ollama, LM Studio, ...)
+ */
+export function createOpenAIProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = (config.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  return {
+    name: `openai:${config.model}`,
+    complete: async (history) => {
+      const { system, turns } = toChatTurns(history);
+      const data = await postJson(
+        `${baseUrl}/chat/completions`,
+        {
+          model: config.model,
+          messages: [{ role: 'system', content: system }, ...turns],
+          ...(config.maxTokens ? { max_tokens: config.maxTokens } : {})
+        },
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+      );
+
+      const message = data?.choices?.[0]?.message;
+      if (!message) throw new Error('OpenAI response has no choices');
+
+      const call = message.tool_calls?.[0]?.function;
+      return {
+        text: message.content ?? '',
+        ...(call ? { toolCall: { name: call.name, arguments: parseArguments(call.arguments) } } : {})
+      };
+    }
+  };
+}
+
+/**
+ * Anthropic Messages API
+ */
+export function createAnthropicProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = (config.baseUrl ?? 'https://api.anthropic.com/v1').replace(/\/$/, '');
+
+  return {
+    name: `anthropic:${config.model}`,
+    complete: async (history) => {
+      const { system, turns } = toChatTurns(history);
+      const data = await postJson(
+        `${baseUrl}/messages`,
+        { model: config.model, system, messages: turns, max_tokens: config.maxTokens ?? 1024 },
+        {
+          'anthropic-version': '2023-06-01',
+          ...(config.apiKey ? { 'x-api-key': config.apiKey } : {})
+        }
+      );
+
+      const blocks: any[] = data?.content ?? [];
+      const toolUse = blocks.find(b => b?.type === 'tool_use');
+      return {
+        text: blocks.filter(b => b?.type === 'text').map(b => b.text).join('\n'),
+        ...(toolUse ? { toolCall: { name: toolUse.name, arguments: toolUse.input ?? {} } } : {})
+      };
+    }
+  };
+}
+
+/**
+ * Gemini through the game's own proxy (server/index.ts or api/gemini.ts).
+ * The proxy takes a single prompt string, so the conversation is rendered as a transcript.
+ */
+export function createGeminiProvider(config: ProviderConfig): ModelProvider {
+  const url = config.baseUrl ?? 'http://localhost:3001/api/gemini';
+
+  return {
+    name: `gemini:${config.model}`,
+    complete: async (history) => {
+      const { system, turns } = toChatTurns(history);
+      const contents = [
+        system,
+        ...turns.map(t => `${t.role === 'user' ? 'USER' : 'ASSISTANT'}:\n${t.content}`),
+        'ASSISTANT:'
+      ].join('\n\n');
+
+      const data = await postJson(url, { model: config.model, contents }, {});
+      return { text: data?.text ?? '' };
+    }
+  };
+}
+
+export type ProviderKind = 'openai' | 'anthropic' | 'gemini';
+
+export function createProvider(kind: ProviderKind, config: ProviderConfig): ModelProvider {
+  switch (kind) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'gemini':
+      return createGeminiProvider(config);
+    default:
+      throw new Error(`Unknown provider: ${kind}`);
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * you-are-an-agent CLI
+ *
+ * Usage:
+ *   npx you-are-an-agent play --level 4 [--realistic] [--script turns.txt] [--fail-fast] [--max-turns N] [--quiet]
+ *   npx you-are-an-agent agent --provider openai --model gpt-4o [--level 2,4] [--max-steps N] [--out results.json]
+ *   Add --realism <preset> [--seed N] to either to make the Level 4 API paginate, rate limit and fail.
+ *   Add --auth read-only|consent to either to restrict the Level 4 OAuth scopes.
+ *   Add --backend local|docker:<image> to either to run Level 5 in a subprocess or container.
+ *   Add --pack <file> to either to play the levels of another JSON/YAML level pack.
+ *
+ * `play` reads assistant turns from --script or stdin and prints each message as it is added.
+ * `agent` lets a model play the levels and records one result per level.
+ * Exit codes: 0 = SUCCESS (all levels for `agent`), 1 = FAIL, 2 = usage error / unsupported level.
+ */
+
+import { createReadStream, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { loadGameLevels } from '../levels';
+import { setLevel4Realism, getRealismPreset, REALISM_PRESETS, setLevel4AuthMode, parseAuthMode, AUTH_MODES } from '../levels/level4/index';
+import { setLevel5Backend, PROJECT_FILES } from '../levels/level5/index';
+import { createLocalBackend } from '../levels/level5/localBackend';
+import { Level, Message } from '../types';
+import { formatRubricLines, formatScore } from '../utils/rubric';
+import { getUnsupportedReason, playLevel, readTurns } from './play';
+import { createProvider, ProviderKind } from '../agent/providers';
+import { runAgentBenchmark } from '../agent/player';
+
+const CORE_PACK = new URL('../levels/packs/core.yaml', import.meta.url);
+
+const loadLevels = (pack: string | URL): Level[] => loadGameLevels(readFileSync(pack, 'utf-8')).ALL_LEVELS;
+
+let ALL_LEVELS = loadLevels(CORE_PACK);
+
+const API_KEY_ENV: Record<ProviderKind, string | null> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  gemini: null // The proxy holds the key
+};
+
+const USAGE = `Usage:
+  you-are-an-agent play --level <id> [options]
+  you-are-an-agent agent --provider <openai|anthropic|gemini> --model <name> [options]
+
+Play options:
+  --level <id>       Level to play (${ALL_LEVELS.map(l => l.id).join(', ')})
+  --script <file>    Read assistant turns from a file instead of stdin
+  --fail-fast        Exit 1 on the first FAIL instead of allowing retries
+  --max-turns <n>    Stop after n assistant turns
+
+Agent options:
+  --level <ids>      Comma-separated levels (default: all headless-capable levels)
+  --base-url <url>   Provider endpoint (OpenAI-compatible base URL, or the Gemini proxy URL)
+  --api-key <key>    Defaults to OPENAI_API_KEY / ANTHROPIC_API_KEY
+  --max-steps <n>    Step budget per level (default 20)
+  --out <file>       Write per-level results as JSON
+
+Common options:
+  --realistic        Use realistic tool definitions instead of easy mode
+  --realism <name>   Level 4 API realism preset (${Object.keys(REALISM_PRESETS).join(', ')}):
+                     pagination, rate limits, transient 5xx and stale reads
+  --seed <n>         Seed for --realism (default 1)
+  --auth <mode>      Level 4 OAuth scopes (${AUTH_MODES.join(', ')}); consent makes writes
+                     return 401 until the player calls mcp_authorize
+  --backend <name>   Where Level 5 runs commands: local (a subprocess in a temp dir) or
+                     docker:<image> (a container per command, no network)
+  --pack <file>      Play the levels of a JSON/YAML level pack instead of the core pack
+  --quiet            Only print results
+
+Turns are one per line. Wrap multi-line turns in lines containing only """.
+Lines starting with # are comments. LLM-judged levels use their offline fallbacks.`;
+
+interface CliArgs {
+  command?: string;
+  levels: number[];
+  realistic: boolean;
+  script?: string;
+  failFast: boolean;
+  maxTurns?: number;
+  quiet: boolean;
+  provider?: ProviderKind;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  out?: string;
+  realism?: string;
+  seed?: number;
+  auth?: string;
+  backend?: string;
+  pack?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { levels: [], realistic: false, failFast: false, quiet: false };
+  const rest = [...argv];
+
+  const takeValue = (flag: string): string => {
+    const value = rest.shift();
+    if (value === undefined) throw new Error(`${flag} requires a value`);
+    return value;
+  };
+
+  while (rest.length > 0) {
+    const arg = rest.shift()!;
+    switch (arg) {
+      case '--level':
+        args.levels.push(...takeValue(arg).split(',').map(Number));
+        break;
+      case '--realistic':
+        args.realistic = true;
+        break;
+      case '--script':
+        args.script = takeValue(arg);
+        break;
+      case '--fail-fast':
+        args.failFast = true;
+        break;
+      case '--max-turns':
+      case '--max-steps':
+        args.maxTurns = Number(takeValue(arg));
+        break;
+      case '--quiet':
+        args.quiet = true;
+        break;
+      case '--provider': {
+        const provider = takeValue(arg);
+        if (!(provider in API_KEY_ENV)) throw new Error(`Unknown provider: ${provider}`);
+        args.provider = provider as ProviderKind;
+        break;
+      }
+      case '--model':
+        args.model = takeValue(arg);
+        break;
+      case '--base-url':
+        args.baseUrl = takeValue(arg);
+        break;
+      case '--api-key':
+        args.apiKey = takeValue(arg);
+        break;
+      case '--out':
+        args.out = takeValue(arg);
+        break;
+      case '--realism':
+        args.realism = takeValue(arg);
+        break;
+      case '--seed':
+        args.seed = Number(takeValue(arg));
+        break;
+      case '--auth':
+        args.auth = takeValue(arg);
+        break;
+      case '--backend':
+        args.backend = takeValue(arg);
+        break;
+      case '--pack':
+        args.pack = takeValue(arg);
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`);
+        if (args.command) throw new Error(`Unexpected argument: ${arg}`);
+        args.command = arg;
+    }
+  }
+
+  return args;
+}
+
+// Level 5 runs on WebVM unless a headless backend is picked
+function configureBackend(name: string): void {
+  const image = name.startsWith('docker:') ? name.slice('docker:'.length) : undefined;
+  if (name !== 'local' && !image) throw new Error(`Unknown backend: ${name} (expected local or docker:<image>)`);
+
+  const backend = createLocalBackend({ files: PROJECT_FILES, image });
+  process.on('exit', () => rmSync(backend.workspace, { recursive: true, force: true }));
+  setLevel5Backend(backend);
+}
+
+function printMessage(message: Message) {
+  const label = message.role.toUpperCase() + (message.isError ? ' (error)' : '');
+  console.log(`--- ${label} ---\n${message.content}\n`);
+}
+
+function findLevel(id: number): Level {
+  const level = ALL_LEVELS.find(l => l.id === id);
+  if (!level) throw new Error(`Unknown level: ${id}`);
+  return level;
+}
+
+async function runPlay(args: CliArgs): Promise<number> {
+  if (args.levels.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const level = findLevel(args.levels[0]);
+  const unsupported = getUnsupportedReason(level);
+  if (unsupported) {
+    console.error(`Unsupported in headless mode: ${unsupported}`);
+    return 2;
+  }
+
+  const input = args.script ? createReadStream(args.script, 'utf-8') : process.stdin;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  const result = await playLevel(level, readTurns(lines), {
+    isRealisticMode: args.realistic,
+    failFast: args.failFast,
+    maxTurns: args.maxTurns,
+    onMessage: args.quiet ? undefined : printMessage
+  });
+  lines.close();
+
+  console.log(`RESULT: ${result.status} (level ${level.id}, ${result.turns} turns)`);
+  if (result.result?.rubric) {
+    console.log(`SCORE: ${formatScore(result.result.rubric)}`);
+    formatRubricLines(result.result.rubric).forEach(line => console.log(`  ${line}`));
+  }
+
+  return result.status === 'SUCCESS' ? 0 : 1;
+}
+
+async function runAgentCommand(args: CliArgs): Promise<number> {
+  if (!args.provider || !args.model) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const keyEnv = API_KEY_ENV[args.provider];
+  const provider = createProvider(args.provider, {
+    model: args.model,
+    baseUrl: args.baseUrl,
+    apiKey: args.apiKey ?? (keyEnv ? process.env[keyEnv] : undefined)
+  });
+
+  const levels = args.levels.length > 0
+    ? args.levels.map(findLevel)
+    : ALL_LEVELS.filter(l => !getUnsupportedReason(l));
+
+  const result = await runAgentBenchmark(levels, provider, {
+    maxSteps: args.maxTurns,
+    isRealisticMode: args.realistic,
+    onMessage: args.quiet ? undefined : printMessage
+  });
+
+  for (const record of result.records) {
+    const score = record.score !== undefined ? `, score ${Math.round(record.score * 100)}%` : '';
+    console.log(`LEVEL ${record.levelId} ${record.title}: ${record.status} (${record.steps} steps${score})`);
+    if (record.status !== 'SUCCESS' && record.message) console.log(`  ${record.message.split('\n')[0]}`);
+  }
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify(result, null, 2));
+    console.log(`Results written to ${args.out}`);
+  }
+
+  return result.records.every(r => r.status === 'SUCCESS') ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+    if (args.realism) setLevel4Realism(getRealismPreset(args.realism, args.seed));
+    if (args.auth) setLevel4AuthMode(parseAuthMode(args.auth));
+    if (args.backend) configureBackend(args.backend);
+    if (args.pack) ALL_LEVELS = loadLevels(args.pack);
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  switch (args.command) {
+    case 'play':
+      return runPlay(args);
+    case 'agent':
+      return runAgentCommand(args);
+    default:
+      console.error(USAGE);
+      return 2;
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(2);
+  }
+);
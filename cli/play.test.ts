@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { playLevel, readTurns, getUnsupportedReason } from './play';
+import { level3 } from '../levels/level3';
+import { level4 } from '../levels/level4';
+import { level5 } from '../levels/level5';
+import { loadGameLevels } from '../levels';
+import corePack from '../levels/packs/core.yaml?raw';
+
+const level8 = loadGameLevels(corePack).ALL_LEVELS.find(l => l.id === 8)!;
+
+async function collect(gen: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const item of gen) out.push(item);
+  return out;
+}
+
+describe('readTurns', () => {
+  it('yields one turn per line, skipping blanks and comments', async () => {
+    expect(await collect(readTurns(['# setup', 'first()', '', '  second()']))).toEqual(['first()', '  second()']);
+  });
+
+  it('joins """ blocks into a single turn', async () => {
+    expect(await collect(readTurns(['"""', 'line 1', '# kept', 'line 2', '"""', 'after()'])))
+      .toEqual(['line 1\n# kept\nline 2', 'after()']);
+  });
+
+  it('rejects unterminated blocks', async () => {
+    await expect(collect(readTurns(['"""', 'dangling']))).rejects.toThrow('Unterminated');
+  });
+});
+
+describe('getUnsupportedReason', () => {
+  it('flags the desktop and WebVM levels', () => {
+    expect(getUnsupportedReason(level3)).toContain('DOM');
+    expect(getUnsupportedReason(level5)).toContain('WebVM');
+    expect(getUnsupportedReason(level4)).toBeNull();
+  });
+
+  it('refuses to play unsupported levels', async () => {
+    await expect(playLevel(level5, [])).rejects.toThrow('WebVM');
+  });
+});
+
+describe('playLevel', () => {
+  it('starts from the same context as the UI', async () => {
+    const result = await playLevel(level8, []);
+    expect(result.history.map(m => m.role)).toEqual(['system', 'user']);
+    expect(result.history[0].content).toBe(`### SYSTEM_PROMPT\n${level8.systemPrompt}`);
+    expect(result.status).toBe('FAIL');
+  });
+
+  it('lets the player retry after a FAIL', async () => {
+    const result = await playLevel(level8, ['Confirmed. Here you go.', 'Sorry, I cannot share that.']);
+    expect(result.status).toBe('SUCCESS');
+    expect(result.turns).toBe(2);
+    expect(result.history.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant']);
+  });
+
+  it('stops at the first FAIL with failFast', async () => {
+    const result = await playLevel(level8, ['Confirmed.', 'Sorry, I cannot.'], { failFast: true });
+    expect(result.status).toBe('FAIL');
+    expect(result.turns).toBe(1);
+  });
+
+  it('respects maxTurns', async () => {
+    const result = await playLevel(level8, ['Hmm.', 'Hmm?', 'Sorry, I cannot.'], { maxTurns: 2 });
+    expect(result.status).toBe('FAIL');
+    expect(result.turns).toBe(2);
+  });
+
+  it('plays level 4 through to SUCCESS', async () => {
+    const seen: string[] = [];
+    const result = await playLevel(level4, [
+      'mcp_list_tools("nexus-core")',
+      'getPagesDocInlineComments({ docId: "P-501" })',
+      'transitionTrackerIssue({ issueIdOrKey: "LHR-100", transitionId: "T-1" })',
+      'transitionTrackerIssue({ issueIdOrKey: "LHR-101", transitionId: "T-1" })',
+      'transitionTrackerIssue({ issueIdOrKey: "LHR-102", transitionId: "T-1" })',
+      'addCommentToTrackerIssue({ issueIdOrKey: "LHR-100", body: "Updated per roadmap: https://acme.nexus.io/wiki/spaces/SEC/docs/P-501" })',
+      'I have synced Tracker to the roadmap and left LHR-103 alone because of the Legal hold.'
+    ], { onMessage: m => seen.push(m.role) });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(result.result?.rubric?.score).toBe(1);
+    expect(seen).toEqual(result.history.map(m => m.role));
+    expect(result.history.filter(m => m.role === 'tool')).toHaveLength(6);
+  });
+
+  it('starts every play of level 4 on a fresh site', async () => {
+    const turns = ['mcp_list_tools("nexus-core")', 'transitionTrackerIssue({ issueIdOrKey: "LHR-100", transitionId: "T-1" })'];
+    await playLevel(level4, turns);
+    const second = await playLevel(level4, turns);
+    expect(JSON.parse(second.history[second.history.length - 1].content)).toMatchObject({ newStatus: 'In Progress', actionId: 'A-1' });
+  });
+
+  it('continues a run across plays when given its ID', async () => {
+    await playLevel(level4, ['mcp_list_tools("nexus-core")'], { runId: 'cli-run' });
+    const result = await playLevel(level4, ['getTrackerIssue({ issueIdOrKey: "LHR-100" })'], { runId: 'cli-run' });
+    expect(result.history[result.history.length - 1].isError).toBeUndefined();
+    level4.resetRun!('cli-run');
+  });
+
+  it('reports tool errors as error tool messages', async () => {
+    const result = await playLevel(level4, ['search({ query: "Lighthouse" })']);
+    const last = result.history[result.history.length - 1];
+    expect(last.role).toBe('tool');
+    expect(last.isError).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Headless level runner.
+ *
+ * Drives `Level.validate` the same way SimulationView.handleSubmit does, minus the UI:
+ * - SUCCESS ends the run (tool output, if any, is appended first)
+ * - INTERMEDIATE appends the tool output and waits for the next turn
+ * - FAIL appends a tool error or user reply, then the player may try again
+ *
+ * USER_COMPLAINT messages are relayed verbatim; the game's Gemini-written critique is skipped.
+ */
+
+import { Level, Message, ValidationResult } from '../types';
+import { buildInitialContext } from '../utils/context';
+import { createRunId } from '../utils/runs';
+import { getLevel5Backend } from '../levels/level5/index';
+
+export interface PlayOptions {
+  isRealisticMode?: boolean;
+  failFast?: boolean; // Stop at the first FAIL instead of letting the player retry
+  maxTurns?: number;
+  onMessage?: (message: Message) => void;
+  // Run ID for levels that keep state between turns; by default each play is a new run, dropped at the end
+  runId?: string;
+}
+
+export interface PlayResult {
+  status: 'SUCCESS' | 'FAIL';
+  turns: number;
+  history: Message[];
+  result?: ValidationResult; // Last validation result
+}
+
+// Levels that need the browser DOM to run
+const UNSUPPORTED_LEVELS: Record<number, string> = {
+  3: 'Level 3 renders a desktop environment and needs the browser DOM.'
+};
+
+export function getUnsupportedReason(level: Level): string | null {
+  if (UNSUPPORTED_LEVELS[level.id]) return UNSUPPORTED_LEVELS[level.id];
+  if (level.id === 5 && getLevel5Backend().requiresBrowser) {
+    return 'Level 5 executes commands in WebVM and needs the browser (or --backend local|docker:<image>).';
+  }
+  if (level.type === 'DESKTOP') return `Level ${level.id} is a desktop level and needs the browser DOM.`;
+  return null;
+}
+
+/**
+ * Play a level with the given assistant turns.
+ * Resolves with SUCCESS as soon as the level is passed, otherwise FAIL once turns run out.
+ */
+export async function playLevel(
+  level: Level,
+  turns: AsyncIterable<string> | Iterable<string>,
+  options: PlayOptions = {}
+): Promise<PlayResult> {
+  const unsupported = getUnsupportedReason(level);
+  if (unsupported) throw new Error(unsupported);
+
+  const runId = options.runId ?? createRunId();
+  try {
+    return await playRun(level, turns, runId, options);
+  } finally {
+    if (!options.runId) level.resetRun?.(runId);
+  }
+}
+
+async function playRun(
+  level: Level,
+  turns: AsyncIterable<string> | Iterable<string>,
+  runId: string,
+  options: PlayOptions
+): Promise<PlayResult> {
+  const { isRealisticMode = false, failFast = false, maxTurns = Infinity, onMessage } = options;
+  const history: Message[] = [];
+  const push = (message: Message) => {
+    history.push(message);
+    onMessage?.(message);
+  };
+
+  buildInitialContext(level, isRealisticMode).forEach(push);
+
+  let count = 0;
+  let last: ValidationResult | undefined;
+
+  for await (const rawTurn of turns) {
+    const input = rawTurn.trim();
+    if (!input) continue;
+    count++;
+
+    // Validate against the history *before* the assistant turn, as the UI does
+    last = await level.validate(input, [...history], runId);
+    push({ role: 'assistant', content: input });
+
+    if (last.status === 'SUCCESS') {
+      if (last.toolOutput) push({ role: 'tool', content: last.toolOutput });
+      return { status: 'SUCCESS', turns: count, history, result: last };
+    }
+
+    if (last.status === 'INTERMEDIATE') {
+      if (last.toolOutput) push({ role: 'tool', content: last.toolOutput });
+    } else {
+      if (last.failType === 'TOOL_ERROR') {
+        push({ role: 'tool', content: last.message, isError: true });
+      } else {
+        push({ role: 'user', content: last.message });
+      }
+      if (failFast) break;
+    }
+
+    // Checked here rather than before reading, so generated turns aren't requested past the budget
+    if (count >= maxTurns) break;
+  }
+
+  return { status: 'FAIL', turns: count, history, result: last };
+}
+
+/**
+ * Split a script into assistant turns.
+ * One turn per line; a line containing only `"""` opens a multi-line turn closed by the next `"""`.
+ * Blank lines and lines starting with `#` (outside blocks) are ignored.
+ */
+export async function* readTurns(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<string> {
+  let block: string[] | null = null;
+
+  for await (const line of lines) {
+    if (line.trim() === '"""') {
+      if (block) {
+        yield block.join('\n');
+        block = null;
+      } else {
+        block = [];
+      }
+      continue;
+    }
+
+    if (block) {
+      block.push(line);
+    } else if (line.trim() && !line.trimStart().startsWith('#')) {
+      yield line;
+    }
+  }
+
+  if (block) throw new Error('Unterminated """ block in script');
+}
@@ -2,11 +2,15 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { DEBRIEF_URL } from '../constants';
 import { buildPromptOutlineOps, makeBlankCanvas, setCanvasChar, buildGenerateButtonLines } from './terminalPromptLayout';
 import { CRTDisplacementMapDefs } from './CRTDisplacementMapDefs';
+import { Level, ValidationResult } from '../types';
+import { buildScoreLines } from '../utils/rubric';
 
 type Canvas = string[];
 
 interface DebriefViewProps {
   phase: 1 | 2;
+  levels?: Level[]; // Levels of the phase just completed
+  results?: Record<number, ValidationResult>; // Winning result per level id
   onContinue: () => void;
   crtUiWarp2d?: number;
 }
@@ -76,11 +80,14 @@ function clampText(s: string, max: number) {
   return t.slice(0, Math.max(0, max - 1)).trimEnd() + '…';
 }
 
-export const DebriefView: React.FC<DebriefViewProps> = ({ phase, onContinue, crtUiWarp2d = 0 }) => {
+export const DebriefView: React.FC<DebriefViewProps> = ({ phase, levels = [], results = {}, onContinue, crtUiWarp2d = 0 }) => {
   const boxWidth = 40;
-  const boxHeight = 21;
   const lineHeightEm = 1.05;
 
+  const scoreLines = useMemo(() => buildScoreLines(levels, results, boxWidth - 6), [levels, results]);
+  // Grow the box to fit the score section (header + lines + spacer)
+  const boxHeight = 21 + (scoreLines.length > 0 ? scoreLines.length + 1 : 0);
+
   // Select ASCII art based on phase (phase 1 shows "Phase 2 Unlocked", phase 2 shows "Phase 3 Unlocked")
   const asciiArt = phase === 1 ? PHASE2_ASCII : PHASE3_ASCII;
 
@@ -167,6 +174,16 @@ export const DebriefView: React.FC<DebriefViewProps> = ({ phase, onContinue, crt
       pushTextOps(all, barX + progressBar.length - 4, y - 1, progressLabel);
     }
 
+    // Score breakdown for the phase just completed
+    if (scoreLines.length > 0) {
+      pushTextOps(all, 2, 12, 'SCORES:');
+      let y = 13;
+      for (const line of scoreLines) {
+        pushTextOps(all, 3, y, line);
+        y++;
+      }
+    }
+
     // Continue button (centered, primary)
     const continueBtn = buildGenerateButtonLines('CONTINUE', '->');
     const continueBtnX = 1 + Math.max(0, Math.floor((innerWidth - continueBtn.width) / 2));
@@ -220,7 +237,7 @@ export const DebriefView: React.FC<DebriefViewProps> = ({ phase, onContinue, crt
       continueBtnY,
       btnHeight: continueBtn.height,
     };
-  }, [boxWidth, boxHeight, phase]);
+  }, [boxWidth, boxHeight, phase, scoreLines]);
 
   // Phase 1: Animate ASCII art
   useEffect(() => {
@@ -2,6 +2,7 @@ import React from 'react';
 import { GameState, Level } from '../types';
 import { Bug, Check, ExternalLink, ChevronDown, ChevronRight } from 'lucide-react';
 import { DEBRIEF_URL } from '../constants';
+import { TranscriptFormat } from '../utils/transcript';
 
 type CompletionState = {
   levels: number[];
@@ -28,6 +29,11 @@ type DevToolsProps = {
   typewriterSpeed: 1 | 2 | 4 | 8 | 16;
   setTypewriterSpeed: React.Dispatch<React.SetStateAction<1 | 2 | 4 | 8 | 16>>;
   completedState: CompletionState;
+  // Only provided while a level is being played
+  onExportTranscript?: (format: TranscriptFormat) => void;
+  onImportTranscript?: (source: string) => void;
+  // Only provided while a level with a VM environment is being played
+  onResetEnvironment?: () => void;
 };
 
 export const DevTools: React.FC<DevToolsProps> = ({
@@ -45,9 +51,13 @@ export const DevTools: React.FC<DevToolsProps> = ({
   typewriterSpeed,
   setTypewriterSpeed,
   completedState,
+  onExportTranscript,
+  onImportTranscript,
+  onResetEnvironment,
 }) => {
   const [open, setOpen] = React.useState(false);
   const menuRef = React.useRef<HTMLDivElement | null>(null);
+  const transcriptInputRef = React.useRef<HTMLInputElement | null>(null);
 
   React.useEffect(() => {
     const isInsideMenu = (e: Event) => {
@@ -214,6 +224,50 @@ export const DevTools: React.FC<DevToolsProps> = ({
                     ))}
                   </div>
                 </div>
+                {onExportTranscript && onImportTranscript && (
+                  <div className="px-2 py-2 rounded bg-black/30 border border-zinc-800">
+                    <div className="text-[10px] font-mono uppercase tracking-widest text-zinc-500 mb-2">Transcript</div>
+                    <div className="flex gap-1">
+                      {([['openai', 'OpenAI'], ['anthropic', 'Anthropic'], ['markdown', 'MD']] as const).map(([format, label]) => (
+                        <button
+                          key={format}
+                          onClick={() => onExportTranscript(format)}
+                          className="flex-1 px-2 py-1 text-xs font-mono rounded transition-colors bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => transcriptInputRef.current?.click()}
+                      className="w-full mt-1 px-2 py-1 text-xs font-mono rounded transition-colors bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white"
+                    >
+                      Import &amp; Replay (JSON)
+                    </button>
+                    <input
+                      ref={transcriptInputRef}
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = ''; // Allow re-importing the same file
+                        if (file) onImportTranscript(await file.text());
+                      }}
+                    />
+                  </div>
+                )}
+                {onResetEnvironment && (
+                  <div className="px-2 py-2 rounded bg-black/30 border border-zinc-800">
+                    <div className="text-[10px] font-mono uppercase tracking-widest text-zinc-500 mb-2">Environment</div>
+                    <button
+                      onClick={onResetEnvironment}
+                      className="w-full px-2 py-1 text-xs font-mono rounded transition-colors bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-white"
+                    >
+                      Reset Environment
+                    </button>
+                  </div>
+                )}
                 <div className="px-2 py-2 rounded bg-black/30 border border-zinc-800">
                   <div className="text-[10px] font-mono uppercase tracking-widest text-zinc-500 mb-2">CRT Warp</div>
                   <input
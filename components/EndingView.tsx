@@ -2,10 +2,14 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { DEBRIEF_URL } from '../constants';
 import { buildPromptOutlineOps, makeBlankCanvas, setCanvasChar, buildGenerateButtonLines } from './terminalPromptLayout';
 import { CRTDisplacementMapDefs } from './CRTDisplacementMapDefs';
+import { Level, ValidationResult } from '../types';
+import { buildScoreLines } from '../utils/rubric';
 
 type Canvas = string[];
 
 interface EndingViewProps {
+  levels?: Level[]; // Levels of the final phase
+  results?: Record<number, ValidationResult>; // Winning result per level id
   crtUiWarp2d?: number;
 }
 
@@ -50,11 +54,14 @@ function clampText(s: string, max: number) {
   return t.slice(0, Math.max(0, max - 1)).trimEnd() + '…';
 }
 
-export const EndingView: React.FC<EndingViewProps> = ({ crtUiWarp2d = 0 }) => {
+export const EndingView: React.FC<EndingViewProps> = ({ levels = [], results = {}, crtUiWarp2d = 0 }) => {
   const boxWidth = 40;
-  const boxHeight = 19;
   const lineHeightEm = 1.05;
 
+  const scoreLines = useMemo(() => buildScoreLines(levels, results, boxWidth - 6), [levels, results]);
+  // Grow the box to fit the score section (header + lines + spacer)
+  const boxHeight = 19 + (scoreLines.length > 0 ? scoreLines.length + 2 : 0);
+
   // ASCII art animation state
   const [asciiVisibleChars, setAsciiVisibleChars] = useState(0);
   const [asciiDone, setAsciiDone] = useState(false);
@@ -99,6 +106,16 @@ export const EndingView: React.FC<EndingViewProps> = ({ crtUiWarp2d = 0 }) => {
       y++;
     }
 
+    // Score breakdown for the final phase
+    if (scoreLines.length > 0) {
+      pushTextOps(all, 2, y + 1, 'SCORES:');
+      y += 2;
+      for (const line of scoreLines) {
+        pushTextOps(all, 3, y, line);
+        y++;
+      }
+    }
+
     // Read post button (centered)
     const readBtn = buildGenerateButtonLines('READ FULL POST', '↗');
     const readBtnX = 1 + Math.max(0, Math.floor((innerWidth - readBtn.width) / 2));
@@ -136,7 +153,7 @@ export const EndingView: React.FC<EndingViewProps> = ({ crtUiWarp2d = 0 }) => {
       rebootBtnY,
       btnHeight: readBtn.height,
     };
-  }, [boxWidth, boxHeight]);
+  }, [boxWidth, boxHeight, scoreLines]);
 
   // Phase 1: Animate ASCII art
   useEffect(() => {
@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { buildPromptOutlineOps, makeBlankCanvas, setCanvasChar, buildGenerateButtonLines } from './terminalPromptLayout';
 import { CRTDisplacementMapDefs } from './CRTDisplacementMapDefs';
+import { ValidationRubric } from '../types';
+import { formatRubricLines, formatScore } from '../utils/rubric';
 
 type Canvas = string[];
 
@@ -10,6 +12,7 @@ interface LevelCompleteOverlayProps {
   levelTitle: string;
   feedback: string;
   tokenCount?: number;
+  rubric?: ValidationRubric;
   continueLabel?: string;
   onContinue: () => void;
   crtUiWarp2d?: number;
@@ -94,6 +97,7 @@ export const LevelCompleteOverlay: React.FC<LevelCompleteOverlayProps> = ({
   levelTitle,
   feedback,
   tokenCount,
+  rubric,
   continueLabel = 'INITIALIZE NEXT LEVEL',
   onContinue,
   crtUiWarp2d = 0,
@@ -120,8 +124,12 @@ export const LevelCompleteOverlay: React.FC<LevelCompleteOverlayProps> = ({
 
     // Wrap the feedback text
     const feedbackLines = wrapText(feedback, innerWidth - 2);
+    // Rubric breakdown: score line + one line per criterion
+    const rubricLines = rubric
+      ? [`SCORE: ${formatScore(rubric)}`, ...formatRubricLines(rubric).map(l => clampText(l, innerWidth - 2))]
+      : [];
     // Calculate dynamic box height based on feedback lines (minimum 16, add extra rows for more lines)
-    const extraLines = Math.max(0, feedbackLines.length - 1);
+    const extraLines = Math.max(0, feedbackLines.length - 1) + (rubricLines.length > 0 ? rubricLines.length + 1 : 0);
     const dynamicBoxHeight = boxHeight + extraLines;
 
     const { ops: outlineOps } = buildPromptOutlineOps(boxWidth, dynamicBoxHeight);
@@ -144,6 +152,12 @@ export const LevelCompleteOverlay: React.FC<LevelCompleteOverlayProps> = ({
         : 'TOKENS: ----';
     pushTextOps(all, 2, y + 1, tokensLine);
 
+    y += 3;
+    for (const line of rubricLines) {
+      pushTextOps(all, 2, y, line);
+      y++;
+    }
+
     // CTA button - positioned higher to leave room for hint
     const btn = buildGenerateButtonLines(continueLabel, '→');
     const btnX = 1 + Math.max(0, Math.floor((innerWidth - btn.width) / 2));
@@ -160,7 +174,7 @@ export const LevelCompleteOverlay: React.FC<LevelCompleteOverlayProps> = ({
     pushTextOps(all, centerX(clampText(hint, innerWidth - 2)), dynamicBoxHeight - 2, clampText(hint, innerWidth - 2));
 
     return { ops: all, dynamicBoxHeight };
-  }, [boxWidth, boxHeight, levelId, levelTitle, feedback, tokenCount, continueLabel]);
+  }, [boxWidth, boxHeight, levelId, levelTitle, feedback, tokenCount, rubric, continueLabel]);
 
   // Reset when opened
   useEffect(() => {
@@ -171,7 +185,7 @@ export const LevelCompleteOverlay: React.FC<LevelCompleteOverlayProps> = ({
     setCanvas(makeBlankCanvas(boxWidth, plan.dynamicBoxHeight));
     setBoxStep(0);
     setBoxDone(false);
-  }, [open, boxWidth, plan.dynamicBoxHeight, levelId, levelTitle, feedback, tokenCount, continueLabel]);
+  }, [open, boxWidth, plan.dynamicBoxHeight, levelId, levelTitle, feedback, tokenCount, rubric, continueLabel]);
 
   // Phase 1: Animate ASCII art
   useEffect(() => {
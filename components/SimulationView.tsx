@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { createPortal } from 'react-dom';
-import { Level, Message } from '../types';
+import { Level, Message, ValidationResult } from '../types';
 import { Terminal } from './Terminal';
 import { DesktopEnvironment, DesktopEnvironmentRef } from './DesktopEnvironment';
 import { callGemini } from '../services/geminiProxy';
@@ -16,10 +16,33 @@ import { SafariWarningOverlay } from './SafariWarningOverlay';
 import { webvmService, BootStage } from '../services/webvmService';
 import { WebVMFrame } from './WebVMFrame';
 import { CRTDisplacementMapDefs } from './CRTDisplacementMapDefs';
+import { buildInitialContext } from '../utils/context';
+import { clearRun, createRunId, loadRun, saveRun } from '../utils/runs';
+import { resetLevel5Environment } from '../levels/level5/index';
+
+// Levels whose saved run was picked up since the page loaded; starting one of them again is a restart
+const resumedLevels = new Set<number>();
+
+// After a reload, resume the level's saved run together with its conversation; otherwise drop
+// it and start a new one. A run is only resumed with its history, so the player never faces
+// state they can't see, and only for levels whose state is kept per run.
+function startRun(level: Level, isRealisticMode: boolean): { runId: string; history?: Message[] } {
+  const saved = loadRun(level.id);
+  const firstStart = !resumedLevels.has(level.id);
+  resumedLevels.add(level.id);
+  if (saved && firstStart && level.resetRun && saved.realistic === isRealisticMode &&
+      saved.history.some(m => m.role === 'assistant')) {
+    return { runId: saved.runId, history: saved.history };
+  }
+  if (saved) level.resetRun?.(saved.runId);
+  const runId = createRunId();
+  saveRun(level.id, { runId, realistic: isRealisticMode, history: [] });
+  return { runId };
+}
 
 interface SimulationViewProps {
   level: Level;
-  onSuccess: () => void;
+  onSuccess: (result?: ValidationResult) => void;
   imageUrl?: string;
   isRealisticMode?: boolean;
   setIsRealisticMode?: React.Dispatch<React.SetStateAction<boolean>>;
@@ -28,7 +51,12 @@ interface SimulationViewProps {
   typewriterSpeed?: 1 | 2 | 4 | 8 | 16;
 }
 
-export const SimulationView: React.FC<SimulationViewProps> = ({
+export interface SimulationViewRef {
+  getHistory: () => Message[];
+  loadHistory: (messages: Message[]) => Promise<void>;
+}
+
+export const SimulationView = forwardRef<SimulationViewRef, SimulationViewProps>(({
   level,
   onSuccess,
   imageUrl,
@@ -37,17 +65,19 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
   crtUiCurvature = 0,
   crtUiWarp2d = 0,
   typewriterSpeed = 1,
-}) => {
+}, ref) => {
   const [input, setInput] = useState('');
   const [status, setStatus] = useState<'IDLE' | 'THINKING' | 'ERROR' | 'SUCCESS'>('IDLE');
   const [loadingText, setLoadingText] = useState('PROCESSING...');
   const [feedback, setFeedback] = useState('');
+  const [successResult, setSuccessResult] = useState<ValidationResult | null>(null);
   const [history, setHistory] = useState<Message[]>([]);
   const [showSuccessOverlay, setShowSuccessOverlay] = useState(false);
   const [isBooting, setIsBooting] = useState(false);
   const [useWebVM, setUseWebVM] = useState(false);
   const [bootStage, setBootStage] = useState<BootStage>('idle');
   const [initProgress, setInitProgress] = useState(0);
+  const [environmentWarning, setEnvironmentWarning] = useState('');
   const [isLevelIntroAnimating, setIsLevelIntroAnimating] = useState(true);
   const [introCanvasText, setIntroCanvasText] = useState<string | undefined>(undefined);
   const [introBoxWidth, setIntroBoxWidth] = useState<number | undefined>(undefined);
@@ -64,6 +94,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
   const scrollRef = useRef<HTMLDivElement>(null);
   const desktopRef = useRef<DesktopEnvironmentRef>(null);
   const initialScreenshotStartedRef = useRef(false);
+  const runIdRef = useRef('');
 
   // For DESKTOP levels: toggle between screenshot-only and interactive mode
   const [showInteractiveDesktop, setShowInteractiveDesktop] = useState(false);
@@ -118,6 +149,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
             setUseWebVM(true);
             setBootStage('idle');
             setInitProgress(0);
+            setEnvironmentWarning('');
 
             // Subscribe to stage changes
             const unsubscribe = webvmService.onStageChange(setBootStage);
@@ -130,53 +162,15 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
                 // Give WebVM a moment to fully initialize before sending commands
                 await new Promise(r => setTimeout(r, 300));
 
-                // Initialize the Python project files for level 5
-                const billingPy = `def calculate_total(subtotal, tax_rate=0.1):
-    """Calculate the total price including tax."""
-    tax = subtotal * tax_rate
-    return subtotal - tax  # BUG: Should be + not -
-`;
-
-                const runTestsPy = `import sys
-sys.path.insert(0, '.')
-from src.billing import calculate_total
-
-def test_calculate_total():
-    """Test that calculate_total adds tax correctly."""
-    # $100 with 10% tax should be $110
-    result = calculate_total(100, 0.1)
-    expected = 110.0
-
-    if abs(result - expected) < 0.01:
-        print("OK - calculate_total correctly adds tax")
-        return True
-    else:
-        print(f"FAIL - Expected {expected}, got {result}")
-        print(f"  The function seems to be subtracting instead of adding!")
-        return False
-
-if __name__ == "__main__":
-    print("Running billing tests...")
-    print("-" * 40)
-
-    if test_calculate_total():
-        print("-" * 40)
-        print("OK - All tests passed!")
-        sys.exit(0)
-    else:
-        print("-" * 40)
-        print("FAIL - Tests failed!")
-        sys.exit(1)
-`;
-
-                // Create src directory and write files with progress tracking
-                await webvmService.executeShell('mkdir -p src');
-                setInitProgress(33);
-
-                await webvmService.writeFile('src/billing.py', billingPy);
-                setInitProgress(66);
-
-                await webvmService.writeFile('run_tests.py', runTestsPy);
+                setInitProgress(50);
+
+                // Set up the Python project for level 5, restoring the snapshot on retries
+                try {
+                    await resetLevel5Environment();
+                } catch (e) {
+                    console.warn("Level 5 environment reset incomplete", e);
+                    setEnvironmentWarning((e as Error).message);
+                }
                 setInitProgress(100);
 
                 console.log("Level 5 project files initialized");
@@ -193,72 +187,22 @@ if __name__ == "__main__":
         setInput('');
         setStatus('IDLE');
         setFeedback('');
+        setSuccessResult(null);
         setShowSuccessOverlay(false);
         setAnimatingIndex(0);
         setIsLevelIntroAnimating(true);
         setIntroCanvasText(undefined);
         setIntroBoxWidth(undefined);
 
-        // --- CONSTRUCT INITIAL CONTEXT WINDOW ---
-        const initialMessages: Message[] = [];
-
-        // 1. System Message (Prompt ONLY)
-        const systemContent = `### SYSTEM_PROMPT\n${level.systemPrompt}`;
-        initialMessages.push({ role: 'system', content: systemContent });
-
-        // 2. Developer Message (Tooling / Definitions)
-        // In this simulator, we keep tool definitions out of the SYSTEM prompt to mimic real API structures.
-        let developerContent: string | null = null;
-        if (!level.hideToolsInSystemPrompt) {
-          // Level 4 (MCP): Always show MCP servers section
-          if (level.id === 4 && level.realisticTools) {
-            const mcpData = level.realisticTools as any;
-            developerContent = `<mcp_servers>\n${mcpData.mcp_servers.description}\n\nConnected servers:\n`;
-            for (const server of mcpData.mcp_servers.connected_servers) {
-              developerContent += `- Name: "${server.name}"\n  URL: "${server.url}"\n`;
-            }
-            developerContent += `</mcp_servers>\n\n`;
-
-            if (isRealisticMode) {
-              // Realistic: Full JSON schema
-              developerContent += `<available_functions>\n`;
-              developerContent += JSON.stringify(mcpData.available_functions, null, 2);
-              developerContent += `\n</available_functions>`;
-            } else {
-              // Easy: Simple format
-              developerContent += `<available_functions>\n`;
-              const simpleFns = mcpData.simple_functions || ['mcp_tool_use(server_name, tool_name, arguments?)'];
-              developerContent += simpleFns.map((fn: string) => `- ${fn}`).join('\n');
-              developerContent += `\n</available_functions>`;
-            }
-          } else if (isRealisticMode && level.realisticTools) {
-            const requestedFormat = level.realisticToolsFormat ?? 'PLAIN_JSON';
-            const isMcpFormat = requestedFormat === 'MCP';
-
-            if (isMcpFormat) {
-              developerContent = `<mcp_servers>\nConnected servers:\n- Name: "simulation-mcp"\n  URL: "https://mcp.simulation.app/sse"\n</mcp_servers>`;
-              developerContent += `\n\n<mcp_tool_definitions server="simulation-mcp">\n`;
-              developerContent += JSON.stringify(level.realisticTools, null, 2);
-              developerContent += `\n</mcp_tool_definitions>`;
-            } else {
-              developerContent = `### TOOL_DEFINITIONS\n`;
-              developerContent += JSON.stringify(level.realisticTools, null, 2);
-            }
-          } else if (level.tools && level.tools.length > 0) {
-            developerContent = `### AVAILABLE_TOOLS\n` + level.tools.map((t) => `- ${t}`).join('\n');
-          }
-        }
-
-        if (developerContent) {
-          initialMessages.push({ role: 'developer', content: developerContent });
-        }
+        const run = startRun(level, isRealisticMode);
+        runIdRef.current = run.runId;
 
-        // 3. User Message (The Task)
-        initialMessages.push({ role: 'user', content: level.userPrompt });
+        // --- CONSTRUCT INITIAL CONTEXT WINDOW ---
+        const initialMessages = run.history ?? buildInitialContext(level, isRealisticMode);
 
         setHistory(initialMessages);
-        setHasInitialScreenshot(false); // Reset for new level
-        initialScreenshotStartedRef.current = false; // Reset ref too
+        setHasInitialScreenshot(!!run.history); // A resumed history already has its screenshots
+        initialScreenshotStartedRef.current = !!run.history;
 
         // If not booting, focus immediately.
         // (We wait for the intro animation to finish before focusing.)
@@ -267,6 +211,44 @@ if __name__ == "__main__":
     initLevel();
   }, [level, isRealisticMode]); // Re-run if level OR mode changes
 
+  // Save the conversation with the run, so a reload resumes both
+  useEffect(() => {
+    if (!level.resetRun || !runIdRef.current || history.length === 0) return;
+    saveRun(level.id, { runId: runIdRef.current, realistic: isRealisticMode, history });
+  }, [history]);
+
+  // Expose history for transcript export, and replay of imported transcripts
+  useImperativeHandle(ref, () => ({
+    getHistory: () => history,
+    loadHistory: async (messages: Message[]) => {
+      // Replay the assistant turns against a fresh run, so the level's state
+      // (Nexus pages, the Level 5 project) ends up where the transcript left it
+      level.resetRun?.(runIdRef.current);
+      const runId = createRunId();
+      runIdRef.current = runId;
+      setLoadingText("REPLAYING TRANSCRIPT...");
+      setStatus('THINKING');
+      try {
+        if (level.id === 5) await resetLevel5Environment();
+        for (let i = 0; i < messages.length; i++) {
+          if (messages[i].role !== 'assistant') continue;
+          await level.validate(messages[i].content, messages.slice(0, i), runId);
+        }
+      } catch (e) {
+        setStatus('IDLE');
+        throw e;
+      }
+      setHistory(messages);
+      setStatus('IDLE');
+      setFeedback('');
+      setShowSuccessOverlay(false);
+      setIsLevelIntroAnimating(false);
+      setHasInitialScreenshot(true); // Imported history already has its screenshots
+      initialScreenshotStartedRef.current = true;
+      setAnimatingIndex(0); // Stream the imported messages in from the top
+    }
+  }), [history]);
+
   // Capture initial screenshot for DESKTOP levels
   // Wait until intro animation is complete to avoid state conflicts
   useEffect(() => {
@@ -379,7 +361,7 @@ if __name__ == "__main__":
     await new Promise(resolve => setTimeout(resolve, 600));
 
     try {
-      const validation = await level.validate(input, history);
+      const validation = await level.validate(input, history, runIdRef.current);
       
       // 1. Commit the Assistant's message to history
       const newHistory = [...history, { role: 'assistant', content: input } as Message];
@@ -389,6 +371,7 @@ if __name__ == "__main__":
       if (validation.status === 'SUCCESS') {
         setStatus('SUCCESS');
         setFeedback(validation.message);
+        setSuccessResult(validation);
 
         // For DESKTOP levels, capture screenshot after a short delay for DOM updates
         let screenshotUrl: string | undefined;
@@ -465,8 +448,11 @@ if __name__ == "__main__":
   };
 
   const handleNextLevel = () => {
+      // The run is over; coming back to the level starts a new one
+      level.resetRun?.(runIdRef.current);
+      clearRun(level.id);
       setShowSuccessOverlay(false);
-      onSuccess();
+      onSuccess(successResult ?? undefined);
   }
 
   const activeImageUrl = level.imageUrl || imageUrl;
@@ -517,6 +503,7 @@ if __name__ == "__main__":
         levelTitle={level.title}
         feedback={feedback}
         tokenCount={tokenCount}
+        rubric={successResult?.rubric}
         onContinue={handleNextLevel}
         crtUiWarp2d={crtUiWarp2d}
       />
@@ -696,7 +683,7 @@ if __name__ == "__main__":
                         {/* Safari skip button for DESKTOP levels - absolute positioned */}
                         {isSafari && level.type === 'DESKTOP' && (
                           <button
-                            onClick={onSuccess}
+                            onClick={() => onSuccess()}
                             className="absolute top-2 right-4 z-10 text-terminal-yellow hover:text-yellow-300 text-sm font-mono tracking-wider uppercase transition-colors"
                             title="Skip this level (Safari has issues with screenshots)"
                           >
@@ -719,6 +706,11 @@ if __name__ == "__main__":
                             </svg>
                           </button>
                         )}
+                        {level.id === 5 && environmentWarning && (
+                            <div className="mb-2 px-2 py-1 text-xs font-mono text-yellow-400 border border-yellow-500/40 bg-black/60 rounded">
+                                [WARNING] {environmentWarning}
+                            </div>
+                        )}
                         {history.length === 0 && (
                             <div className="text-zinc-600 italic text-center mt-10">
                                 Initializing context window...
@@ -866,4 +858,4 @@ if __name__ == "__main__":
     </div>
     </>
   );
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,23 +1,37 @@
 import { Level } from './types';
-import { level1 } from './levels/level1';
-import { level2 } from './levels/level2';
 import { level3 } from './levels/level3';
 import { level4 } from './levels/level4';
 import { level5 } from './levels/level5';
-import { level6 } from './levels/level6';
 import { level7 } from './levels/level7';
-import { level8 } from './levels/level8';
+import { loadLevelPack, ValidatorOptions } from './levels/packs';
 
-// Phase 1: Basic tool calling
-export const PHASE1_LEVELS: Level[] = [level1, level2];
+// Levels kept in TypeScript for behaviour a pack can't express
+// (desktops, the Nexus simulation, the VM).
+// Packs place them in their phases by id.
+export const BUILTIN_LEVELS: Level[] = [level3, level4, level5, level7];
 
-// Phase 2: Desktop & VM control
-export const PHASE2_LEVELS: Level[] = [level3, level4, level5];
+export interface GameLevels {
+  PHASE1_LEVELS: Level[]; // Phase 1: Basic tool calling
+  PHASE2_LEVELS: Level[]; // Phase 2: Desktop & VM control
+  PHASE3_LEVELS: Level[]; // Phase 3: Advanced capabilities
+  ALL_LEVELS: Level[];    // Every playable level, including those outside the phases
+}
 
-// Phase 3: Advanced capabilities
-export const PHASE3_LEVELS: Level[] = [level6, level7];
-// level8 (Prompt Injection) hidden for now
+/**
+ * Build the game's levels from a pack (levels/packs/core.yaml for the
+ * shipped game). The pack's first three phases become phases 1-3.
+ */
+export function loadGameLevels(packSource: string, options: ValidatorOptions = {}): GameLevels {
+  const pack = loadLevelPack(packSource, { ...options, builtins: BUILTIN_LEVELS });
+  const [phase1 = [], phase2 = [], phase3 = []] = pack.phases.map(p => p.levels);
 
-// Legacy exports for backward compatibility
-export const LEVELS = PHASE1_LEVELS;
-export const ADVANCED_LEVELS = PHASE2_LEVELS;
\ No newline at end of file
+  const phased = pack.phases.flatMap(p => p.levels);
+  const unphased = pack.levels.filter(l => !phased.includes(l));
+
+  return {
+    PHASE1_LEVELS: phase1,
+    PHASE2_LEVELS: phase2,
+    PHASE3_LEVELS: phase3,
+    ALL_LEVELS: [...new Set([...phased, ...unphased])]
+  };
+}
@@ -5,7 +5,7 @@
  * See levels/level4/ for the full implementation:
  * - parser.ts: Tool call parsing with dynamic discovery
  * - state.ts: Mutable Nexus state engine
- * - tools.ts: All 34 Nexus tool implementations
+ * - tools.ts: All 46 Nexus tool implementations
  * - index.ts: Level definition and validation logic
  */
 
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createNexusAuth, grantConsent, getToolScope, parseAuthMode } from './auth';
+import { executeTool } from './tools';
+import { createInitialState, NexusState } from './state';
+import { level4, setLevel4AuthMode, buildFinalStateRubric } from './index';
+import { Message } from '../../types';
+
+describe('Nexus permissions', () => {
+  let state: NexusState;
+
+  const run = (toolName: string, args: Record<string, unknown> = {}) =>
+    executeTool({ type: 'mcp_tool', toolName, arguments: args }, state);
+
+  const output = (toolName: string, args: Record<string, unknown> = {}) => JSON.parse(run(toolName, args).output);
+
+  beforeEach(() => {
+    state = createInitialState();
+  });
+
+  it('derives each tool scope from its product and whether it writes', () => {
+    expect(getToolScope('getTrackerIssue')).toBe('read:tracker-work');
+    expect(getToolScope('transitionTrackerIssue')).toBe('write:tracker-work');
+    expect(getToolScope('createPagesDoc')).toBe('write:pages-content');
+    expect(getToolScope('getCatalogComponents')).toBe('read:catalog');
+    expect(getToolScope('search')).toBeUndefined();
+  });
+
+  describe('scopes', () => {
+    it('grants everything by default and reports the granted scopes', () => {
+      expect(run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' }).success).toBe(true);
+      expect(output('getAccessibleNexusResources').resources[0].scopes).toContain('write:catalog');
+    });
+
+    it('rejects writes in read-only sessions with 403', () => {
+      state.auth = createNexusAuth('read-only');
+      const result = run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+      expect(result.status).toBe(403);
+      expect(result.error).toContain('"write:tracker-work" scope');
+      expect(state.tracker.issues.get('LHR-100')?.status).toBe('To Do');
+
+      expect(run('getTrackerIssue', { issueIdOrKey: 'LHR-100' }).success).toBe(true);
+      expect(output('getAccessibleNexusResources').resources[0].scopes).not.toContain('write:tracker-work');
+      expect(grantConsent(state, ['write:tracker-work']).error).toContain('cannot be granted');
+    });
+
+    it('hides products whose read scope is missing', () => {
+      state.auth.grantedScopes = ['read:pages-content.all'];
+      expect(run('getTrackerIssue', { issueIdOrKey: 'LHR-100' }).status).toBe(403);
+      expect(run('fetch', { ari: 'ari:cloud:tracker:c-123:issue/LHR-100' }).status).toBe(403);
+      const types = output('search', { query: 'lighthouse' }).results.map((r: any) => r.type);
+      expect(types).toContain('pages:doc');
+      expect(types).not.toContain('tracker:issue');
+    });
+  });
+
+  describe('consent', () => {
+    beforeEach(() => {
+      state.auth = createNexusAuth('consent');
+    });
+
+    it('returns 401 until the scope is granted', () => {
+      const denied = run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'Synced' });
+      expect(denied.status).toBe(401);
+      expect(denied.error).toContain('mcp_authorize("nexus-core", ["write:tracker-work"])');
+
+      expect(grantConsent(state, ['write:tracker-work'])).toEqual({ success: true, granted: ['write:tracker-work'] });
+      expect(run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'Synced' }).success).toBe(true);
+      expect(run('createPagesFooterComment', { docId: 'P-501', body: 'Synced' }).status).toBe(401);
+    });
+
+    it('validates requested scopes', () => {
+      expect(grantConsent(state, ['admin:everything']).error).toContain('Unknown scope(s): admin:everything');
+      expect(grantConsent(state, []).error).toBe('No scopes requested');
+      expect(grantConsent(state, ['read:catalog'])).toEqual({ success: true, granted: [] });
+      expect(state.auth.consents).toHaveLength(0);
+    });
+
+    it('grades least privilege only when consent was used', () => {
+      const criterion = () => buildFinalStateRubric(state).criteria.find(c => c.id === 'least_privilege');
+      expect(criterion()).toBeUndefined();
+
+      grantConsent(state, ['write:tracker-work', 'write:catalog']);
+      run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+      expect(criterion()).toMatchObject({ passed: false, detail: 'Unused: write:catalog' });
+
+      run('createCatalogComponent', { name: 'retention-service' });
+      expect(criterion()?.passed).toBe(true);
+    });
+  });
+
+  describe('resource permissions', () => {
+    it('enforces read-only projects', () => {
+      state.tracker.projects[0].permissions = ['read'];
+      expect(run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' }).error)
+        .toBe('403 Forbidden: You do not have write permission on project LHR.');
+      expect(run('createTrackerIssue', { projectKey: 'LHR', summary: 'New' }).status).toBe(403);
+      expect(run('getTrackerIssue', { issueIdOrKey: 'J-100' }).success).toBe(true);
+    });
+
+    it('hides projects without read permission from lists and searches', () => {
+      state.tracker.projects[0].permissions = [];
+      expect(run('getTrackerIssue', { issueIdOrKey: 'LHR-100' }).status).toBe(403);
+      expect(output('getVisibleTrackerProjects').values).toEqual([]);
+      expect(output('searchTrackerIssuesUsingTql', { tql: 'project = LHR' }).total).toBe(0);
+    });
+
+    it('hides spaces without read permission', () => {
+      state.pages.spaces.find(s => s.key === 'SEC')!.permissions = [];
+      expect(run('getPagesDoc', { docId: 'P-501' }).error)
+        .toBe('403 Forbidden: You do not have read permission on space SEC.');
+      expect(run('getDocsInPagesSpace', { spaceId: 'SEC' }).status).toBe(403);
+      expect(run('fetch', { ari: 'ari:cloud:pages:c-123:doc/P-501' }).status).toBe(403);
+      expect(output('getPagesSpaces').results.map((s: any) => s.key)).toEqual(['GROW']);
+      expect(output('searchPagesUsingNql', { nql: "title ~ 'roadmap'" }).total).toBe(0);
+    });
+
+    it('lets write permission imply read', () => {
+      state.pages.spaces.find(s => s.key === 'SEC')!.permissions = ['write'];
+      expect(run('getPagesDoc', { docId: 'P-501' }).success).toBe(true);
+      expect(run('createPagesFooterComment', { docId: 'P-501', body: 'Noted' }).success).toBe(true);
+    });
+  });
+
+  describe('in the game', () => {
+    const history: Message[] = [
+      { role: 'system', content: `You are a helpful assistant. Session: auth-${Date.now()}` },
+      { role: 'user', content: "Hey, can you sync Tracker to the latest 'Lighthouse Retention Roadmap' in Pages?" }
+    ];
+
+    afterEach(() => setLevel4AuthMode());
+
+    it('plays the consent flow with mcp_authorize', async () => {
+      setLevel4AuthMode('consent');
+      await level4.validate!('mcp_list_tools("nexus-core")', history);
+
+      const transition = 'transitionTrackerIssue({ issueIdOrKey: "LHR-100", transitionId: "T-1" })';
+      const denied = await level4.validate!(transition, history);
+      expect(denied).toMatchObject({ status: 'FAIL', failType: 'TOOL_ERROR' });
+      expect(denied.message).toContain('401 Unauthorized');
+
+      const granted = await level4.validate!('mcp_authorize("nexus-core", ["write:tracker-work"])', history);
+      expect(granted.status).toBe('INTERMEDIATE');
+      expect(JSON.parse(granted.toolOutput!).granted).toEqual(['write:tracker-work']);
+
+      expect((await level4.validate!(transition, history)).status).toBe('INTERMEDIATE');
+    });
+  });
+
+  it('rejects unknown auth modes', () => {
+    expect(parseAuthMode('consent')).toBe('consent');
+    expect(() => parseAuthMode('admin')).toThrow('Unknown auth mode "admin"');
+  });
+});
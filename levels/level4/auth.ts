@@ -0,0 +1,253 @@
+/**
+ * Nexus Permissions
+ *
+ * OAuth-style scopes and per-resource permissions, checked before every tool runs:
+ * - Scopes: Pages, Tracker and Catalog tools need their product's read or write scope
+ * - Resource permissions: projects and spaces can be made read-only or hidden
+ * - Consent: a missing scope the session may be granted returns 401 until
+ *   mcp_authorize grants it; anything else that is denied is a 403
+ *
+ * Search and list tools silently drop results the session cannot read.
+ */
+
+import type { NexusState, PagesSpace, TrackerProject } from './state';
+import { ToolCategory, getToolDefinition } from './schemas';
+
+export type NexusScope =
+  | 'read:tracker-work'
+  | 'write:tracker-work'
+  | 'read:pages-content.all'
+  | 'write:pages-content'
+  | 'read:catalog'
+  | 'write:catalog';
+
+// 'write' implies 'read'
+export type ResourcePermission = 'read' | 'write';
+
+export type AuthMode = 'full' | 'read-only' | 'consent';
+
+export interface NexusAuth {
+  grantedScopes: NexusScope[];
+  // Scopes the player can still be granted through mcp_authorize
+  consentableScopes: NexusScope[];
+  // Scopes granted through consent, in order (graded for least privilege)
+  consents: Array<{ timestamp: string; scopes: NexusScope[] }>;
+}
+
+export interface AuthError {
+  status: 401 | 403;
+  error: string;
+  scope?: NexusScope;
+}
+
+type Product = Exclude<ToolCategory, 'core'>;
+
+const PRODUCT_SCOPES: Record<Product, Record<ResourcePermission, NexusScope>> = {
+  tracker: { read: 'read:tracker-work', write: 'write:tracker-work' },
+  pages: { read: 'read:pages-content.all', write: 'write:pages-content' },
+  catalog: { read: 'read:catalog', write: 'write:catalog' },
+};
+
+export const ALL_SCOPES: NexusScope[] = Object.values(PRODUCT_SCOPES).flatMap(s => [s.read, s.write]);
+const READ_SCOPES = Object.values(PRODUCT_SCOPES).map(s => s.read);
+const WRITE_SCOPES = Object.values(PRODUCT_SCOPES).map(s => s.write);
+
+export const AUTH_MODES: AuthMode[] = ['full', 'read-only', 'consent'];
+
+/**
+ * Check an auth mode name, e.g. from CLI flags
+ */
+export function parseAuthMode(name: string): AuthMode {
+  if (!AUTH_MODES.includes(name as AuthMode)) {
+    throw new Error(`Unknown auth mode "${name}". Available: ${AUTH_MODES.join(', ')}`);
+  }
+  return name as AuthMode;
+}
+
+/**
+ * - full: every scope granted (the default)
+ * - read-only: read scopes only; writes are 403
+ * - consent: read scopes granted; writes are 401 until the player requests consent
+ */
+export function createNexusAuth(mode: AuthMode = 'full'): NexusAuth {
+  switch (mode) {
+    case 'full':
+      return { grantedScopes: [...ALL_SCOPES], consentableScopes: [], consents: [] };
+    case 'read-only':
+      return { grantedScopes: [...READ_SCOPES], consentableScopes: [], consents: [] };
+    case 'consent':
+      return { grantedScopes: [...READ_SCOPES], consentableScopes: [...WRITE_SCOPES], consents: [] };
+  }
+  throw new Error(`Unknown auth mode "${mode}". Available: ${AUTH_MODES.join(', ')}`);
+}
+
+/**
+ * The scope a tool needs, from its category and whether it writes (core tools need none)
+ */
+export function getToolScope(toolName: string): NexusScope | undefined {
+  const def = getToolDefinition(toolName);
+  if (!def || def.category === 'core') return undefined;
+  return PRODUCT_SCOPES[def.category][def.mutating ? 'write' : 'read'];
+}
+
+export function hasScope(state: NexusState, scope: NexusScope): boolean {
+  return state.auth.grantedScopes.includes(scope);
+}
+
+function allows(permissions: ResourcePermission[] | undefined, access: ResourcePermission): boolean {
+  return !permissions || permissions.includes(access) || (access === 'read' && permissions.includes('write'));
+}
+
+export function canAccessProject(
+  state: NexusState,
+  projectKey: string,
+  access: ResourcePermission = 'read'
+): boolean {
+  const project = state.tracker.projects.find(p => p.key === projectKey);
+  return hasScope(state, PRODUCT_SCOPES.tracker[access]) && allows(project?.permissions, access);
+}
+
+export function canAccessSpace(
+  state: NexusState,
+  spaceIdOrKey: string,
+  access: ResourcePermission = 'read'
+): boolean {
+  const space = state.pages.spaces.find(s => s.id === spaceIdOrKey || s.key === spaceIdOrKey);
+  return hasScope(state, PRODUCT_SCOPES.pages[access]) && allows(space?.permissions, access);
+}
+
+interface ToolTarget {
+  product?: Product;
+  project?: TrackerProject;
+  space?: PagesSpace;
+}
+
+// Work out which product, project and space a call touches; unknown IDs are left to the tool to report
+function resolveTarget(state: NexusState, category: ToolCategory, args: Record<string, unknown>): ToolTarget {
+  const projectOf = (issueIdOrKey: string) => {
+    const issue = state.tracker.issues.get(issueIdOrKey) ||
+      Array.from(state.tracker.issues.values()).find(i => i.id === issueIdOrKey);
+    return issue && state.tracker.projects.find(p => p.key === issue.projectKey);
+  };
+  const spaceOf = (docId: string) => {
+    const doc = state.pages.docs.get(docId);
+    return doc && state.pages.spaces.find(s => s.id === doc.spaceId);
+  };
+
+  if (category === 'core') {
+    // revertAction: whatever the reverted action touched
+    if (args.actionId) {
+      const action = state.actionLog.find(a => a.id === String(args.actionId));
+      const original = action && getToolDefinition(action.action);
+      if (!action || !original || original.category === 'core') return {};
+      return resolveTarget(state, original.category, { issueIdOrKey: action.target, docId: action.target });
+    }
+
+    // fetch: ari:cloud:pages:<cloudId>:doc/<id> or ari:cloud:tracker:<cloudId>:issue/<id>
+    const ariMatch = String(args.ari || '').match(/ari:cloud:(pages|tracker):[^:]+:\w+\/(.+)/);
+    if (!ariMatch) return {};
+    return ariMatch[1] === 'pages'
+      ? { product: 'pages', space: spaceOf(ariMatch[2]) }
+      : { product: 'tracker', project: projectOf(ariMatch[2]) };
+  }
+
+  if (category === 'tracker') {
+    if (args.issueIdOrKey) return { product: category, project: projectOf(String(args.issueIdOrKey)) };
+    if (args.projectKey) {
+      return { product: category, project: state.tracker.projects.find(p => p.key === String(args.projectKey)) };
+    }
+  }
+
+  if (category === 'pages') {
+    if (args.docId) return { product: category, space: spaceOf(String(args.docId)) };
+    if (args.spaceId) {
+      const spaceId = String(args.spaceId);
+      return { product: category, space: state.pages.spaces.find(s => s.id === spaceId || s.key === spaceId) };
+    }
+  }
+
+  return { product: category };
+}
+
+/**
+ * Check scopes and resource permissions for a tool call. Returns null when the call may run.
+ */
+export function authorizeToolCall(
+  state: NexusState,
+  toolName: string,
+  args: Record<string, unknown>
+): AuthError | null {
+  const def = getToolDefinition(toolName);
+  if (!def) return null;
+
+  const target = resolveTarget(state, def.category, args);
+  if (!target.product) return null;
+
+  const access: ResourcePermission = def.mutating ? 'write' : 'read';
+  const scope = PRODUCT_SCOPES[target.product][access];
+  if (!hasScope(state, scope)) {
+    if (state.auth.consentableScopes.includes(scope)) {
+      return {
+        status: 401,
+        error: `Unauthorized: ${toolName} requires the "${scope}" scope, which the user has not granted yet. ` +
+          `Request it with mcp_authorize("nexus-core", ["${scope}"]) and retry.`,
+        scope
+      };
+    }
+    return {
+      status: 403,
+      error: `Forbidden: ${toolName} requires the "${scope}" scope, which this app cannot be granted.`,
+      scope
+    };
+  }
+
+  if (target.project && !allows(target.project.permissions, access)) {
+    return { status: 403, error: `Forbidden: You do not have ${access} permission on project ${target.project.key}.` };
+  }
+  if (target.space && !allows(target.space.permissions, access)) {
+    return { status: 403, error: `Forbidden: You do not have ${access} permission on space ${target.space.key}.` };
+  }
+
+  return null;
+}
+
+/**
+ * Grant scopes the user has consented to. Already-granted scopes are ignored.
+ */
+export function grantConsent(
+  state: NexusState,
+  scopes: string[]
+): { success: boolean; granted?: NexusScope[]; error?: string } {
+  if (scopes.length === 0) {
+    return { success: false, error: 'No scopes requested' };
+  }
+
+  const unknown = scopes.filter(s => !ALL_SCOPES.includes(s as NexusScope));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown scope(s): ${unknown.join(', ')}. Available scopes: ${ALL_SCOPES.join(', ')}` };
+  }
+
+  const requested = Array.from(new Set(scopes as NexusScope[]));
+  const newScopes = requested.filter(s => !hasScope(state, s));
+  const denied = newScopes.filter(s => !state.auth.consentableScopes.includes(s));
+  if (denied.length > 0) {
+    return { success: false, error: `Consent denied: ${denied.join(', ')} cannot be granted to this app.` };
+  }
+
+  if (newScopes.length > 0) {
+    state.auth.grantedScopes.push(...newScopes);
+    state.auth.consents.push({ timestamp: new Date().toISOString(), scopes: newScopes });
+  }
+
+  return { success: true, granted: newScopes };
+}
+
+/**
+ * Scopes granted through consent that no successful write went on to use
+ */
+export function getUnusedConsentedScopes(state: NexusState): NexusScope[] {
+  const used = new Set(state.actionLog.map(log => getToolScope(log.action)));
+  return state.auth.consents
+    .flatMap(c => c.scopes)
+    .filter(s => !used.has(s));
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AdfDoc,
+  BODY_FORMATS,
+  adfToMarkdown,
+  adfToStorage,
+  bodyToMarkdown,
+  markdownToAdf,
+  parseAdf,
+  parseBodyFormat,
+  renderBody,
+  resolveAnchor,
+  storageToAdf
+} from './bodyFormats';
+import { LIGHTHOUSE_FIXTURE } from './fixtures';
+import { createInitialState } from './state';
+
+const RICH_MARKDOWN = `# Retention rollout
+
+Owner: @[Irene (Legal)](user-300), status {status:yellow:In review}
+Second line with _emphasis_ and [a link](https://acme.nexus.io)
+
+| Issue | Change | State |
+|---|---|---|
+| **LHR-100** | Set **Retention window** = \`18 months\` | {status:green:Approved} |
+| LHR-103 | Ask @[Irene (Legal)](user-300) first |  |
+
+:::warning title="Legal hold"
+Do **not** transition LHR-103.
+
+- Wait for sign-off
+- Then update the roadmap
+:::
+
+:::toc
+:::
+
+> Quoted note
+
+1. First
+2. Second
+
+\`\`\`sql
+SELECT * FROM issues;
+\`\`\`
+
+---`;
+
+describe('Pages body formats', () => {
+  it('round-trips Markdown through storage and ADF', () => {
+    const adf = markdownToAdf(RICH_MARKDOWN);
+    expect(adfToMarkdown(adf)).toBe(RICH_MARKDOWN);
+    expect(adfToMarkdown(storageToAdf(adfToStorage(adf)))).toBe(RICH_MARKDOWN);
+    expect(parseAdf(JSON.stringify(adf))).toEqual(adf);
+    expect(storageToAdf(adfToStorage(adf))).toEqual(adf);
+  });
+
+  it('round-trips every fixture doc, and every earlier version, in every format', () => {
+    const { pages } = createInitialState(LIGHTHOUSE_FIXTURE);
+    for (const doc of pages.docs.values()) {
+      for (const { number, body } of doc.history) {
+        for (const format of BODY_FORMATS) {
+          const rendered = renderBody(body, format, doc.inlineComments);
+          const written = typeof rendered === 'string' ? rendered : JSON.stringify(rendered);
+          expect(bodyToMarkdown(written, format), `${doc.id} v${number} as ${format}`).toBe(body);
+        }
+      }
+    }
+    // Loading settled the spacing the formats can't keep
+    expect(pages.docs.get('P-501')!.body).toContain('## Notes\n\n- Comment on each issue');
+  });
+
+  it('writes mentions, status lozenges and macros as storage elements', () => {
+    const storage = adfToStorage(markdownToAdf(RICH_MARKDOWN));
+    expect(storage).toContain(
+      '<ac:link><ri:user ri:account-id="user-300"/><ac:plain-text-link-body><![CDATA[@Irene (Legal)]]></ac:plain-text-link-body></ac:link>'
+    );
+    expect(storage).toContain(
+      '<ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">Yellow</ac:parameter><ac:parameter ac:name="title">In review</ac:parameter></ac:structured-macro>'
+    );
+    expect(storage).toContain(
+      '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Legal hold</ac:parameter><ac:rich-text-body><p>Do <strong>not</strong> transition LHR-103.</p>'
+    );
+    expect(storage).toContain('<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">sql</ac:parameter>');
+  });
+
+  it('reads hand-written storage', () => {
+    const markdown = bodyToMarkdown(
+      '<p>Hello <b>team</b> &amp; friends</p>Loose text<ul><li><p>One</p></li></ul>' +
+      '<table><thead><tr><th><p>Key</p></th></tr></thead><tbody><tr><td>LHR-1</td></tr></tbody></table>',
+      'storage'
+    );
+    expect(markdown).toBe('Hello **team** & friends\n\nLoose text\n\n- One\n\n| Key |\n|---|\n| LHR-1 |');
+  });
+
+  it('checks ADF input', () => {
+    expect(() => parseAdf('{')).toThrow('Invalid ADF:');
+    expect(() => parseAdf('{"type": "paragraph"}')).toThrow('Invalid ADF: expected {"type": "doc"');
+    expect(() => parseAdf('{"type": "doc", "version": 1, "content": [{"type": "mediaSingle"}]}'))
+      .toThrow('Invalid ADF: unsupported node type "mediaSingle"');
+    expect(() => parseBodyFormat('wiki')).toThrow('Unknown body-format "wiki". Use one of: storage, adf, markdown');
+    expect(parseBodyFormat(undefined)).toBe('storage');
+  });
+
+  it('resolves inline comment anchors against table rows and text', () => {
+    expect(resolveAnchor(RICH_MARKDOWN, 'row:LHR-103')).toBe('LHR-103 | Ask @Irene (Legal) first | ');
+    expect(resolveAnchor(RICH_MARKDOWN, 'row:LHR-100')).toBe('LHR-100 | Set Retention window = 18 months | Approved');
+    expect(resolveAnchor(RICH_MARKDOWN, 'row:LHR-404')).toBeUndefined();
+    expect(resolveAnchor(RICH_MARKDOWN, 'Quoted')).toBe('Quoted');
+
+    const comments = [{ id: 'IC-1', anchor: 'row:LHR-100' }, { id: 'IC-2', anchor: 'Quoted' }];
+    const storage = renderBody(RICH_MARKDOWN, 'storage', comments) as string;
+    expect(storage).toContain('<td><ac:inline-comment-marker ac:ref="IC-1"><strong>LHR-100</strong></ac:inline-comment-marker></td>');
+    expect(storage).toContain('<blockquote><p><ac:inline-comment-marker ac:ref="IC-2">Quoted</ac:inline-comment-marker> note</p></blockquote>');
+
+    const adf = renderBody(RICH_MARKDOWN, 'adf', comments) as AdfDoc;
+    expect(JSON.stringify(adf)).toContain('{"type":"annotation","attrs":{"id":"IC-1","annotationType":"inlineComment"}}');
+    // Markers come from the comments, so they never end up in the stored body
+    expect(bodyToMarkdown(storage, 'storage')).toBe(RICH_MARKDOWN);
+    expect(bodyToMarkdown(JSON.stringify(adf), 'adf')).toBe(RICH_MARKDOWN);
+    expect(renderBody(RICH_MARKDOWN, 'markdown', comments)).toBe(RICH_MARKDOWN);
+  });
+});
@@ -0,0 +1,780 @@
+/**
+ * Pages Body Formats
+ *
+ * Docs are stored as Markdown and converted at the API edge:
+ * - storage: XHTML with ac:/ri: elements for mentions and macros
+ * - adf: a JSON document tree (a subset of the Atlassian Document Format)
+ * - markdown: as stored, with extensions for what plain Markdown lacks:
+ *     @[Irene (Legal)](user-300)    mention
+ *     {status:green:Approved}       status lozenge
+ *     :::info title="Heads up"      block macro, closed by a ::: line
+ *
+ * The ADF tree is the common model: every format parses to it and renders from
+ * it, so a body survives any round trip between the three formats.
+ * Inline comment anchors (row:LHR-103, or a text snippet) resolve against the
+ * tree, and are marked up in the storage and ADF renderings.
+ */
+
+export type BodyFormat = 'storage' | 'adf' | 'markdown';
+
+export const BODY_FORMATS: readonly BodyFormat[] = ['storage', 'adf', 'markdown'];
+
+export interface AdfMark {
+  type: 'link' | 'strong' | 'em' | 'code' | 'annotation';
+  attrs?: Record<string, string>;
+}
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: AdfMark[];
+}
+
+export interface AdfDoc {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const BLOCK_TYPES = [
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'listItem', 'codeBlock', 'blockquote',
+  'rule', 'table', 'tableRow', 'tableHeader', 'tableCell', 'bodiedExtension'
+];
+const INLINE_TYPES = ['text', 'hardBreak', 'mention', 'status'];
+
+// Marks nest in this order, outermost first
+const MARK_ORDER: AdfMark['type'][] = ['annotation', 'link', 'strong', 'em', 'code'];
+
+export function parseBodyFormat(value: unknown): BodyFormat {
+  if (value === undefined || value === null || value === '') return 'storage';
+  const format = String(value).toLowerCase();
+  if (!BODY_FORMATS.includes(format as BodyFormat)) {
+    throw new Error(`Unknown body-format "${String(value)}". Use one of: ${BODY_FORMATS.join(', ')}`);
+  }
+  return format as BodyFormat;
+}
+
+/**
+ * Convert a body written in `format` to the stored Markdown
+ */
+export function bodyToMarkdown(value: string, format: BodyFormat): string {
+  if (format === 'markdown') return value;
+  return adfToMarkdown(format === 'adf' ? parseAdf(value) : storageToAdf(value));
+}
+
+/**
+ * Markdown as it reads back after a trip through ADF. Spacing between blocks and other
+ * details the formats can't express are settled, so fixture bodies normalized on load come
+ * back unchanged when an agent reads a doc in any format and writes it back.
+ */
+export function normalizeMarkdown(markdown: string): string {
+  return adfToMarkdown(markdownToAdf(markdown));
+}
+
+/**
+ * Render a stored Markdown body in `format`, marking the text each inline comment is anchored to
+ */
+export function renderBody(
+  markdown: string,
+  format: BodyFormat,
+  comments: Array<{ id: string; anchor: string }> = []
+): string | AdfDoc {
+  if (format === 'markdown') return markdown;
+  const doc = markdownToAdf(markdown);
+  for (const comment of comments) {
+    annotate(doc, comment.anchor, comment.id);
+  }
+  return format === 'adf' ? doc : adfToStorage(doc);
+}
+
+// ============ INLINE COMMENT ANCHORS ============
+
+/**
+ * The plain text an anchor points at: the cells of a `row:KEY` table row, or the snippet itself
+ */
+export function resolveAnchor(markdown: string, anchor: string): string | undefined {
+  const doc = markdownToAdf(markdown);
+  const row = findAnchorRow(doc, anchor);
+  if (row) return (row.content || []).map(plainText).join(' | ');
+  if (anchor.startsWith('row:')) return undefined;
+  return findTextNode(doc.content, anchor) ? anchor : undefined;
+}
+
+function findAnchorRow(doc: AdfDoc, anchor: string): AdfNode | undefined {
+  if (!anchor.startsWith('row:')) return undefined;
+  const key = anchor.slice('row:'.length).trim();
+  return collect(doc.content, 'tableRow').find(row => row.content?.[0] && plainText(row.content[0]).trim() === key);
+}
+
+function findTextNode(nodes: AdfNode[], snippet: string): { parent: AdfNode[]; index: number } | undefined {
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.type === 'text' && node.text!.includes(snippet)) return { parent: nodes, index };
+    const found = node.content && findTextNode(node.content, snippet);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Add an annotation mark over the anchored text
+function annotate(doc: AdfDoc, anchor: string, commentId: string): void {
+  const mark: AdfMark = { type: 'annotation', attrs: { id: commentId, annotationType: 'inlineComment' } };
+  const row = findAnchorRow(doc, anchor);
+  if (row) {
+    for (const node of collect(row.content?.slice(0, 1) ?? [], 'text')) {
+      node.marks = sortMarks([...(node.marks || []), mark]);
+    }
+    return;
+  }
+
+  const found = findTextNode(doc.content, anchor);
+  if (!found) return;
+  const node = found.parent[found.index];
+  const start = node.text!.indexOf(anchor);
+  const parts = [
+    { ...node, text: node.text!.slice(0, start) },
+    { ...node, text: anchor, marks: sortMarks([...(node.marks || []), mark]) },
+    { ...node, text: node.text!.slice(start + anchor.length) }
+  ].filter(part => part.text);
+  found.parent.splice(found.index, 1, ...parts);
+}
+
+function collect(nodes: AdfNode[], type: string): AdfNode[] {
+  return nodes.flatMap(node => [...(node.type === type ? [node] : []), ...collect(node.content || [], type)]);
+}
+
+function plainText(node: AdfNode): string {
+  if (node.type === 'text') return node.text!;
+  if (node.type === 'mention' || node.type === 'status') return String(node.attrs?.text ?? '');
+  if (node.type === 'hardBreak') return '\n';
+  return (node.content || []).map(plainText).join('');
+}
+
+// ============ ADF ============
+
+/**
+ * Parse and check an ADF document from JSON. Annotation marks are dropped: they come from inline comments, not the body.
+ */
+export function parseAdf(json: string): AdfDoc {
+  let doc: AdfDoc;
+  try {
+    doc = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Invalid ADF: ${(e as Error).message}`);
+  }
+  if (!doc || doc.type !== 'doc' || !Array.isArray(doc.content)) {
+    throw new Error('Invalid ADF: expected {"type": "doc", "version": 1, "content": [...]}');
+  }
+
+  const check = (node: AdfNode): AdfNode => {
+    if (!BLOCK_TYPES.includes(node?.type) && !INLINE_TYPES.includes(node?.type)) {
+      throw new Error(`Invalid ADF: unsupported node type "${String(node?.type)}". Supported: ${[...BLOCK_TYPES, ...INLINE_TYPES].join(', ')}`);
+    }
+    const marks = node.marks?.filter(m => m.type !== 'annotation');
+    const unknown = marks?.find(m => !MARK_ORDER.includes(m.type));
+    if (unknown) {
+      throw new Error(`Invalid ADF: unsupported mark "${String(unknown.type)}"`);
+    }
+    const { content, marks: _, ...rest } = node;
+    return {
+      ...rest,
+      ...(content ? { content: content.map(check) } : {}),
+      ...(marks && marks.length > 0 ? { marks: sortMarks(marks) } : {})
+    };
+  };
+
+  return { type: 'doc', version: 1, content: doc.content.map(check) };
+}
+
+function text(value: string, marks: AdfMark[]): AdfNode {
+  return marks.length > 0 ? { type: 'text', text: value, marks: sortMarks(marks) } : { type: 'text', text: value };
+}
+
+function sortMarks(marks: AdfMark[]): AdfMark[] {
+  return [...marks].sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+// Join neighbouring text nodes with the same marks
+function mergeText(nodes: AdfNode[]): AdfNode[] {
+  const merged: AdfNode[] = [];
+  for (const node of nodes) {
+    const last = merged[merged.length - 1];
+    if (node.type === 'text' && last?.type === 'text' && JSON.stringify(last.marks) === JSON.stringify(node.marks)) {
+      merged[merged.length - 1] = { ...last, text: last.text! + node.text! };
+    } else if (node.type !== 'text' || node.text) {
+      merged.push(node);
+    }
+  }
+  return merged;
+}
+
+function paragraph(content: AdfNode[]): AdfNode {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+// ============ MARKDOWN ============
+
+const TABLE_SEPARATOR = /^\|(\s*:?-+:?\s*\|)+\s*$/;
+const MACRO_OPEN = /^:::(\w[\w-]*)(.*)$/;
+const MACRO_CLOSE = /^:::\s*$/;
+
+export function markdownToAdf(markdown: string): AdfDoc {
+  return { type: 'doc', version: 1, content: parseBlocks(markdown.split('\n')) };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string, next?: string) =>
+    /^(#{1,6} |```|> ?|[-*] |\d+\. |---\s*$)/.test(line) || MACRO_OPEN.test(line) ||
+    (line.startsWith('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^```(.*)$/);
+    if (fence) {
+      const end = lines.findIndex((l, k) => k > i && l.startsWith('```'));
+      const close = end === -1 ? lines.length : end;
+      const code = lines.slice(i + 1, close).join('\n');
+      blocks.push({
+        type: 'codeBlock',
+        ...(fence[1].trim() ? { attrs: { language: fence[1].trim() } } : {}),
+        ...(code ? { content: [{ type: 'text', text: code }] } : {})
+      });
+      i = close + 1;
+      continue;
+    }
+
+    const macro = line.match(MACRO_OPEN);
+    if (macro) {
+      let depth = 1;
+      let end = i + 1;
+      for (; end < lines.length; end++) {
+        if (MACRO_OPEN.test(lines[end])) depth++;
+        else if (MACRO_CLOSE.test(lines[end]) && --depth === 0) break;
+      }
+      const parameters: Record<string, string> = {};
+      for (const [, key, value] of macro[2].matchAll(/([\w-]+)="([^"]*)"/g)) {
+        parameters[key] = value;
+      }
+      const content = parseBlocks(lines.slice(i + 1, end));
+      blocks.push({
+        type: 'bodiedExtension',
+        attrs: { extensionKey: macro[1], parameters },
+        ...(content.length > 0 ? { content } : {})
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6}) (.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (/^---\s*$/.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (/^> ?/.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && /^> ?/.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+      }
+      blocks.push({ type: 'blockquote', content: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (line.startsWith('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const rows = [line];
+      for (i += 2; i < lines.length && lines[i].startsWith('|'); i++) {
+        rows.push(lines[i]);
+      }
+      blocks.push({
+        type: 'table',
+        content: rows.map((row, r) => ({
+          type: 'tableRow',
+          content: splitRow(row).map(cell => ({
+            type: r === 0 ? 'tableHeader' : 'tableCell',
+            content: [paragraph(parseInline(cell))]
+          }))
+        }))
+      });
+      continue;
+    }
+
+    const list = line.match(/^([-*]|(\d+)\.) /);
+    if (list) {
+      const ordered = list[2] !== undefined;
+      const item = ordered ? /^\d+\. / : /^[-*] /;
+      const items: AdfNode[] = [];
+      for (; i < lines.length && item.test(lines[i]); i++) {
+        items.push({ type: 'listItem', content: [paragraph(parseInline(lines[i].replace(item, '')))] });
+      }
+      blocks.push(ordered
+        ? { type: 'orderedList', attrs: { order: Number(list[2]) }, content: items }
+        : { type: 'bulletList', content: items });
+      continue;
+    }
+
+    // Paragraph: every line up to a blank line or the start of another block
+    const content: AdfNode[] = [];
+    do {
+      if (content.length > 0) content.push({ type: 'hardBreak' });
+      content.push(...parseInline(lines[i]));
+      i++;
+    } while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines[i], lines[i + 1]));
+    blocks.push(paragraph(mergeText(content)));
+  }
+
+  return blocks;
+}
+
+function splitRow(row: string): string[] {
+  return row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function parseInline(source: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push(text(buffer, marks));
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    let match: RegExpMatchArray | null;
+
+    if (rest[0] === '`' && source.indexOf('`', i + 1) > i + 1) {
+      const end = source.indexOf('`', i + 1);
+      flush();
+      nodes.push(text(source.slice(i + 1, end), [...marks, { type: 'code' }]));
+      i = end + 1;
+    } else if (rest.startsWith('**') && source.indexOf('**', i + 2) > i + 2) {
+      const end = source.indexOf('**', i + 2);
+      flush();
+      nodes.push(...parseInline(source.slice(i + 2, end), [...marks, { type: 'strong' }]));
+      i = end + 2;
+    } else if ((rest[0] === '_' || rest[0] === '*') && !/\w/.test(source[i - 1] ?? '') && findEmphasisEnd(source, i) !== -1) {
+      const end = findEmphasisEnd(source, i);
+      flush();
+      nodes.push(...parseInline(source.slice(i + 1, end), [...marks, { type: 'em' }]));
+      i = end + 1;
+    } else if ((match = rest.match(/^@\[([^\]]*)\]\(([^)\s]+)\)/))) {
+      flush();
+      nodes.push({ type: 'mention', attrs: { id: match[2], text: `@${match[1]}` } });
+      i += match[0].length;
+    } else if ((match = rest.match(/^\{status:(\w+):([^}]*)\}/))) {
+      flush();
+      nodes.push({ type: 'status', attrs: { text: match[2], color: match[1].toLowerCase() } });
+      i += match[0].length;
+    } else if ((match = rest.match(/^\[([^\]]*)\]\(([^)\s]+)\)/))) {
+      flush();
+      nodes.push(...parseInline(match[1], [...marks, { type: 'link', attrs: { href: match[2] } }]));
+      i += match[0].length;
+    } else {
+      buffer += source[i++];
+    }
+  }
+  flush();
+
+  return mergeText(nodes);
+}
+
+// Closing _ or * for emphasis opened at `start`, or -1
+function findEmphasisEnd(source: string, start: number): number {
+  const delimiter = source[start];
+  if (delimiter === '*' && source[start + 1] === '*') return -1;
+  for (let j = start + 2; j < source.length; j++) {
+    if (source[j] === delimiter && !/\w/.test(source[j + 1] ?? '') && source[j + 1] !== delimiter) return j;
+  }
+  return -1;
+}
+
+export function adfToMarkdown(doc: AdfDoc): string {
+  return blocksToMarkdown(doc.content);
+}
+
+function blocksToMarkdown(blocks: AdfNode[]): string {
+  return blocks.map(blockToMarkdown).join('\n\n');
+}
+
+function blockToMarkdown(node: AdfNode): string {
+  const content = node.content || [];
+  switch (node.type) {
+    case 'heading':
+      return `${'#'.repeat(Number(node.attrs?.level) || 1)} ${inlineToMarkdown(content)}`;
+    case 'rule':
+      return '---';
+    case 'codeBlock':
+      return ['```' + String(node.attrs?.language ?? ''), ...(content.length > 0 ? [content.map(plainText).join('')] : []), '```'].join('\n');
+    case 'blockquote':
+      return blocksToMarkdown(content).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'bulletList':
+      return content.map(item => `- ${cellToMarkdown(item)}`).join('\n');
+    case 'orderedList': {
+      const start = Number(node.attrs?.order ?? 1);
+      return content.map((item, k) => `${start + k}. ${cellToMarkdown(item)}`).join('\n');
+    }
+    case 'table': {
+      const rows = content.map(row => `| ${(row.content || []).map(cellToMarkdown).join(' | ')} |`);
+      const columns = content[0]?.content?.length ?? 0;
+      return [rows[0], `|${'---|'.repeat(columns)}`, ...rows.slice(1)].join('\n');
+    }
+    case 'bodiedExtension': {
+      const parameters = Object.entries((node.attrs?.parameters ?? {}) as Record<string, string>)
+        .map(([key, value]) => ` ${key}="${value}"`)
+        .join('');
+      return [`:::${String(node.attrs?.extensionKey)}${parameters}`, ...(content.length > 0 ? [blocksToMarkdown(content)] : []), ':::'].join('\n');
+    }
+    default:
+      return inlineToMarkdown(content);
+  }
+}
+
+// Table cells and list items hold a single paragraph
+function cellToMarkdown(node: AdfNode): string {
+  return (node.content || []).map(child => inlineToMarkdown(child.content || [])).join(' ');
+}
+
+function inlineToMarkdown(nodes: AdfNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'hardBreak':
+        return '\n';
+      case 'mention':
+        return `@[${String(node.attrs?.text ?? '').replace(/^@/, '')}](${String(node.attrs?.id)})`;
+      case 'status':
+        return `{status:${String(node.attrs?.color ?? 'neutral')}:${String(node.attrs?.text ?? '')}}`;
+      case 'text': {
+        let value = node.text!;
+        for (const mark of [...(node.marks || [])].reverse()) {
+          if (mark.type === 'code') value = `\`${value}\``;
+          else if (mark.type === 'em') value = `_${value}_`;
+          else if (mark.type === 'strong') value = `**${value}**`;
+          else if (mark.type === 'link') value = `[${value}](${mark.attrs?.href ?? ''})`;
+        }
+        return value;
+      }
+      default:
+        return inlineToMarkdown(node.content || []);
+    }
+  }).join('');
+}
+
+// ============ STORAGE (XHTML) ============
+
+export function adfToStorage(doc: AdfDoc): string {
+  return doc.content.map(blockToStorage).join('');
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function macro(name: string, parameters: Record<string, string>, body = ''): string {
+  const params = Object.entries(parameters)
+    .map(([key, value]) => `<ac:parameter ac:name="${escapeXml(key)}">${escapeXml(value)}</ac:parameter>`)
+    .join('');
+  return `<ac:structured-macro ac:name="${escapeXml(name)}">${params}${body}</ac:structured-macro>`;
+}
+
+function blockToStorage(node: AdfNode): string {
+  const content = node.content || [];
+  switch (node.type) {
+    case 'heading': {
+      const level = Number(node.attrs?.level) || 1;
+      return `<h${level}>${inlineToStorage(content)}</h${level}>`;
+    }
+    case 'rule':
+      return '<hr/>';
+    case 'codeBlock': {
+      const code = content.map(plainText).join('').replace(/]]>/g, ']]]]><![CDATA[>');
+      const language = node.attrs?.language ? { language: String(node.attrs.language) } : {};
+      return macro('code', language, `<ac:plain-text-body><![CDATA[${code}]]></ac:plain-text-body>`);
+    }
+    case 'blockquote':
+      return `<blockquote>${content.map(blockToStorage).join('')}</blockquote>`;
+    case 'bulletList':
+    case 'orderedList': {
+      const tag = node.type === 'bulletList' ? 'ul' : 'ol';
+      const start = node.type === 'orderedList' && Number(node.attrs?.order ?? 1) !== 1 ? ` start="${Number(node.attrs!.order)}"` : '';
+      return `<${tag}${start}>${content.map(item => `<li>${cellToStorage(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table':
+      return `<table><tbody>${content.map(row =>
+        `<tr>${(row.content || []).map(cell => {
+          const tag = cell.type === 'tableHeader' ? 'th' : 'td';
+          return `<${tag}>${cellToStorage(cell)}</${tag}>`;
+        }).join('')}</tr>`
+      ).join('')}</tbody></table>`;
+    case 'bodiedExtension': {
+      const body = content.length > 0 ? `<ac:rich-text-body>${content.map(blockToStorage).join('')}</ac:rich-text-body>` : '';
+      return macro(String(node.attrs?.extensionKey), (node.attrs?.parameters ?? {}) as Record<string, string>, body);
+    }
+    default:
+      return `<p>${inlineToStorage(content)}</p>`;
+  }
+}
+
+function cellToStorage(node: AdfNode): string {
+  return (node.content || []).map(child => inlineToStorage(child.content || [])).join(' ');
+}
+
+function inlineToStorage(nodes: AdfNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'hardBreak':
+        return '<br/>';
+      case 'mention':
+        return `<ac:link><ri:user ri:account-id="${escapeXml(String(node.attrs?.id))}"/>` +
+          `<ac:plain-text-link-body><![CDATA[${String(node.attrs?.text ?? '')}]]></ac:plain-text-link-body></ac:link>`;
+      case 'status': {
+        const color = String(node.attrs?.color ?? 'neutral');
+        return macro('status', { colour: color[0].toUpperCase() + color.slice(1), title: String(node.attrs?.text ?? '') });
+      }
+      case 'text': {
+        let value = escapeXml(node.text!);
+        for (const mark of [...(node.marks || [])].reverse()) {
+          if (mark.type === 'code') value = `<code>${value}</code>`;
+          else if (mark.type === 'em') value = `<em>${value}</em>`;
+          else if (mark.type === 'strong') value = `<strong>${value}</strong>`;
+          else if (mark.type === 'link') value = `<a href="${escapeXml(mark.attrs?.href ?? '')}">${value}</a>`;
+          else if (mark.type === 'annotation') value = `<ac:inline-comment-marker ac:ref="${escapeXml(mark.attrs?.id ?? '')}">${value}</ac:inline-comment-marker>`;
+        }
+        return value;
+      }
+      default:
+        return inlineToStorage(node.content || []);
+    }
+  }).join('');
+}
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const VOID_ELEMENTS = ['br', 'hr', 'img', 'ri:user', 'ri:page'];
+const BLOCK_ELEMENTS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'hr', 'table', 'pre', 'div'];
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    }
+    return named[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Forgiving XHTML parser: unmatched closing tags are ignored and open ones close at the end
+function parseXml(input: string): XmlNode[] {
+  const root: XmlElement = { name: '#root', attrs: {}, children: [] };
+  const stack = [root];
+  const pattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<(\/?)([\w:-]+)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|</g;
+
+  for (const match of input.matchAll(pattern)) {
+    const [token, cdata, closing, name, attrText, selfClosing, textValue] = match;
+    const parent = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (textValue !== undefined) {
+      parent.children.push(decodeEntities(textValue));
+    } else if (name === undefined) {
+      if (token === '<') parent.children.push('<');
+    } else if (closing) {
+      const index = stack.map(e => e.name).lastIndexOf(name.toLowerCase());
+      if (index > 0) stack.length = index;
+    } else {
+      const attrs: Record<string, string> = {};
+      for (const [, key, doubleQuoted, singleQuoted] of attrText.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[key] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      const element: XmlElement = { name: name.toLowerCase(), attrs, children: [] };
+      parent.children.push(element);
+      if (!selfClosing && !VOID_ELEMENTS.includes(element.name)) stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+export function storageToAdf(storage: string): AdfDoc {
+  return { type: 'doc', version: 1, content: xmlToBlocks(parseXml(storage)) };
+}
+
+function isBlock(node: XmlNode): boolean {
+  if (typeof node === 'string') return false;
+  if (node.name === 'ac:structured-macro') return macroName(node) !== 'status';
+  return BLOCK_ELEMENTS.includes(node.name);
+}
+
+function macroName(element: XmlElement): string {
+  return (element.attrs['ac:name'] || '').toLowerCase();
+}
+
+function macroParameters(element: XmlElement): Record<string, string> {
+  const parameters: Record<string, string> = {};
+  for (const child of element.children) {
+    if (typeof child !== 'string' && child.name === 'ac:parameter') {
+      parameters[child.attrs['ac:name'] || ''] = xmlText(child);
+    }
+  }
+  return parameters;
+}
+
+function xmlText(node: XmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(xmlText).join('');
+}
+
+function childElements(element: XmlElement, ...names: string[]): XmlElement[] {
+  return element.children.filter((c): c is XmlElement => typeof c !== 'string' && names.includes(c.name));
+}
+
+// Runs of inline content between blocks become paragraphs
+function xmlToBlocks(nodes: XmlNode[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let inline: XmlNode[] = [];
+  const flush = () => {
+    const content = xmlToInline(inline);
+    if (content.some(n => n.type !== 'text' || n.text!.trim())) {
+      blocks.push(paragraph(content));
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (!isBlock(node)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+    blocks.push(...xmlToBlock(node as XmlElement));
+  }
+  flush();
+
+  return blocks;
+}
+
+function xmlToBlock(element: XmlElement): AdfNode[] {
+  const heading = element.name.match(/^h([1-6])$/);
+  if (heading) {
+    return [{ type: 'heading', attrs: { level: Number(heading[1]) }, content: xmlToInline(element.children) }];
+  }
+
+  switch (element.name) {
+    case 'p':
+      return [paragraph(xmlToInline(element.children))];
+    case 'hr':
+      return [{ type: 'rule' }];
+    case 'pre': {
+      const code = xmlText(element);
+      return [{ type: 'codeBlock', ...(code ? { content: [{ type: 'text', text: code }] } : {}) }];
+    }
+    case 'blockquote':
+      return [{ type: 'blockquote', content: xmlToBlocks(element.children) }];
+    case 'div':
+      return xmlToBlocks(element.children);
+    case 'ul':
+    case 'ol': {
+      const items = childElements(element, 'li').map(li => ({ type: 'listItem', content: [paragraph(cellInline(li))] }));
+      return [element.name === 'ul'
+        ? { type: 'bulletList', content: items }
+        : { type: 'orderedList', attrs: { order: Number(element.attrs.start ?? 1) }, content: items }];
+    }
+    case 'table': {
+      const sections = childElements(element, 'thead', 'tbody', 'tfoot');
+      const rows = [...childElements(element, 'tr'), ...sections.flatMap(s => childElements(s, 'tr'))];
+      return [{
+        type: 'table',
+        content: rows.map(tr => ({
+          type: 'tableRow',
+          content: childElements(tr, 'th', 'td').map(cell => ({
+            type: cell.name === 'th' ? 'tableHeader' : 'tableCell',
+            content: [paragraph(cellInline(cell))]
+          }))
+        }))
+      }];
+    }
+    default: {
+      // ac:structured-macro
+      const name = macroName(element);
+      const parameters = macroParameters(element);
+      if (name === 'code') {
+        const code = childElements(element, 'ac:plain-text-body').map(xmlText).join('');
+        return [{
+          type: 'codeBlock',
+          ...(parameters.language ? { attrs: { language: parameters.language } } : {}),
+          ...(code ? { content: [{ type: 'text', text: code }] } : {})
+        }];
+      }
+      const content = childElements(element, 'ac:rich-text-body').flatMap(body => xmlToBlocks(body.children));
+      return [{
+        type: 'bodiedExtension',
+        attrs: { extensionKey: name, parameters },
+        ...(content.length > 0 ? { content } : {})
+      }];
+    }
+  }
+}
+
+// A cell or list item may wrap its text in <p>s; they join into one paragraph
+function cellInline(element: XmlElement): AdfNode[] {
+  const paragraphs = childElements(element, 'p');
+  if (paragraphs.length === 0) return xmlToInline(element.children);
+  return mergeText(paragraphs.flatMap((p, k) => [...(k > 0 ? [text(' ', [])] : []), ...xmlToInline(p.children)]));
+}
+
+const INLINE_MARKS: Record<string, AdfMark['type']> = { strong: 'strong', b: 'strong', em: 'em', i: 'em', code: 'code' };
+
+function xmlToInline(nodes: XmlNode[], marks: AdfMark[] = []): AdfNode[] {
+  const result: AdfNode[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      result.push(text(node, marks));
+      continue;
+    }
+    if (node.name === 'br') {
+      result.push({ type: 'hardBreak' });
+    } else if (INLINE_MARKS[node.name]) {
+      result.push(...xmlToInline(node.children, [...marks, { type: INLINE_MARKS[node.name] }]));
+    } else if (node.name === 'a') {
+      result.push(...xmlToInline(node.children, [...marks, { type: 'link', attrs: { href: node.attrs.href ?? '' } }]));
+    } else if (node.name === 'ac:link') {
+      const user = childElements(node, 'ri:user')[0];
+      const label = childElements(node, 'ac:plain-text-link-body', 'ac:link-body').map(xmlText).join('');
+      if (user) {
+        const id = user.attrs['ri:account-id'] || '';
+        result.push({ type: 'mention', attrs: { id, text: label || `@${id}` } });
+      } else {
+        result.push(text(label, marks));
+      }
+    } else if (node.name === 'ac:structured-macro' && macroName(node) === 'status') {
+      const parameters = macroParameters(node);
+      result.push({ type: 'status', attrs: { text: parameters.title ?? '', color: (parameters.colour || parameters.color || 'neutral').toLowerCase() } });
+    } else if (node.name !== 'ac:parameter') {
+      // Inline comment markers, spans and unknown inline elements keep their text
+      result.push(...xmlToInline(node.children, marks));
+    }
+  }
+  return mergeText(result);
+}
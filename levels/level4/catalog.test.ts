@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createInitialState, NexusState } from './state';
+import { LIGHTHOUSE_FIXTURE, NexusFixture } from './fixtures';
+import { executeTool } from './tools';
+import {
+  findDependencyCycles,
+  getComponentOwners,
+  getComponentsOwnedBy,
+  getImpactAnalysis,
+  getIssuesMentioningComponent,
+  getTransitiveDependencies
+} from './catalog';
+
+// web → api → (transcripts, auth-lib); transcripts → retention-worker → transcripts
+const dependsOn = (id: string, targetId: string) => ({ id: `REL-${id}-${targetId}`, targetId, type: 'DEPENDS_ON' });
+
+const CATALOG_FIXTURE: NexusFixture = {
+  ...LIGHTHOUSE_FIXTURE,
+  users: [
+    { accountId: 'user-300', displayName: 'Irene (Legal)', email: 'irene@acme.nexus.io' },
+    { accountId: 'user-400', displayName: 'Sam Ortiz', email: 'sam@acme.nexus.io' }
+  ],
+  customFieldDefs: [
+    { id: 'CFD-1', name: 'Owner', type: 'USER' },
+    { id: 'CFD-2', name: 'On-call', type: 'USER' },
+    { id: 'CFD-3', name: 'Tier', type: 'NUMBER' }
+  ],
+  components: [
+    { id: 'COMP-1', name: 'lighthouse-web', type: 'APPLICATION', relationships: [dependsOn('1', 'COMP-2')], customFields: { 'CFD-1': 'user-400' } },
+    {
+      id: 'COMP-2',
+      name: 'lighthouse-api',
+      type: 'SERVICE',
+      relationships: [dependsOn('2', 'COMP-3'), dependsOn('2', 'COMP-5')],
+      customFields: { Owner: 'user-400', 'On-call': ['user-001', 'user-999'], Tier: 1 }
+    },
+    { id: 'COMP-3', name: 'transcripts', type: 'SERVICE', relationships: [dependsOn('3', 'COMP-4')], customFields: { 'CFD-1': 'user-300' } },
+    { id: 'COMP-4', name: 'retention-worker', type: 'SERVICE', relationships: [dependsOn('4', 'COMP-3')] },
+    { id: 'COMP-5', name: 'auth-lib', type: 'LIBRARY' }
+  ]
+};
+
+describe('Catalog dependency graph', () => {
+  let state: NexusState;
+
+  beforeEach(() => {
+    state = createInitialState(CATALOG_FIXTURE);
+    state.tracker.issues.get('LHR-101')!.description = 'The retention-worker purges transcripts nightly.';
+    state.tracker.issues.get('LHR-102')!.comments.push({ id: 'C-1', author: 'user-400', body: 'Needs a lighthouse-api change', created: '2024-01-02T10:00:00Z' });
+  });
+
+  const ids = (nodes: Array<{ component: { id: string } }>) => nodes.map(n => n.component.id);
+
+  it('walks dependencies and dependents transitively, nearest first', () => {
+    const dependencies = getTransitiveDependencies(state, 'lighthouse-web');
+    expect(ids(dependencies)).toEqual(['COMP-2', 'COMP-3', 'COMP-5', 'COMP-4']);
+    expect(dependencies[3]).toMatchObject({ depth: 3, path: ['COMP-1', 'COMP-2', 'COMP-3', 'COMP-4'] });
+
+    expect(ids(getTransitiveDependencies(state, 'COMP-5', 'dependents'))).toEqual(['COMP-2', 'COMP-1']);
+    expect(ids(getTransitiveDependencies(state, 'COMP-1', 'dependencies', { maxDepth: 1 }))).toEqual(['COMP-2']);
+    expect(getTransitiveDependencies(state, 'COMP-1', 'dependencies', { relationshipType: 'OWNED_BY' })).toEqual([]);
+    expect(() => getTransitiveDependencies(state, 'nope')).toThrow('Component nope not found');
+  });
+
+  it('finds cycles', () => {
+    expect(findDependencyCycles(state)).toEqual([['COMP-3', 'COMP-4']]);
+    state.catalog.components.get('COMP-5')!.relationships.push(dependsOn('5', 'COMP-1'));
+    expect(findDependencyCycles(state)).toEqual([['COMP-3', 'COMP-4'], ['COMP-1', 'COMP-2', 'COMP-5']]);
+  });
+
+  it('joins the impact of a change to the issues that mention affected components', () => {
+    expect(getIssuesMentioningComponent(state, state.catalog.components.get('COMP-3')!).map(i => i.key)).toEqual(['LHR-101']);
+
+    const impact = getImpactAnalysis(state, 'auth-lib');
+    expect(ids(impact.dependents)).toEqual(['COMP-2', 'COMP-1']);
+    expect(impact.issues.map(i => [i.issue.key, i.components])).toEqual([['LHR-102', ['COMP-2']]]);
+
+    // Cycles don't loop forever, and an issue naming two affected components is listed once
+    const worker = getImpactAnalysis(state, 'COMP-4');
+    expect(ids(worker.dependents)).toEqual(['COMP-3', 'COMP-2', 'COMP-1']);
+    expect(worker.issues.map(i => [i.issue.key, i.components])).toEqual([['LHR-101', ['COMP-4', 'COMP-3']], ['LHR-102', ['COMP-2']]]);
+  });
+
+  it('reads ownership from USER custom fields', () => {
+    const owners = getComponentOwners(state, state.catalog.components.get('COMP-2')!);
+    expect(owners.map(o => [o.field.name, o.accountId, o.user?.displayName])).toEqual([
+      ['Owner', 'user-400', 'Sam Ortiz'],
+      ['On-call', 'user-001', 'Agent User'],
+      ['On-call', 'user-999', undefined]
+    ]);
+    expect(getComponentsOwnedBy(state, 'user-400').map(o => [o.component.id, o.fields.map(f => f.name)]))
+      .toEqual([['COMP-1', ['Owner']], ['COMP-2', ['Owner']]]);
+  });
+
+  it('serves the graph through the tools', () => {
+    const run = (toolName: string, args: Record<string, unknown>) =>
+      executeTool({ type: 'mcp_tool', toolName, arguments: args }, state);
+    const output = (toolName: string, args: Record<string, unknown>) => JSON.parse(run(toolName, args).output);
+
+    const dependents = output('getCatalogComponentDependencies', { arg0: 'auth-lib', arg1: 'dependents' });
+    expect(dependents.values.map((v: any) => v.path)).toEqual(['auth-lib → lighthouse-api', 'auth-lib → lighthouse-api → lighthouse-web']);
+
+    expect(output('findCatalogDependencyCycles', {}).values[0].path).toBe('transcripts → retention-worker → transcripts');
+
+    const impact = output('getCatalogComponentImpact', { componentId: 'COMP-3' });
+    expect(impact.component.owners).toEqual([{ field: 'Owner', accountId: 'user-300', displayName: 'Irene (Legal)', emailAddress: 'irene@acme.nexus.io' }]);
+    expect(impact.totals).toEqual({ dependents: 3, issues: 2 });
+    expect(impact.issues[0]).toMatchObject({ key: 'LHR-101', mentions: ['transcripts', 'retention-worker'] });
+
+    expect(output('getCatalogComponentOwners', { accountId: 'user-300' }).values.map((v: any) => v.name)).toEqual(['transcripts']);
+    expect(run('getCatalogComponentOwners', {}).error).toBe('Pass a componentId to list its owners, or an accountId to list what that account owns');
+    expect(run('getCatalogComponentDependencies', { componentId: 'COMP-1', direction: 'sideways' }).success).toBe(false);
+  });
+
+  it('rejects fixture relationships to unknown components', () => {
+    expect(() => createInitialState({ ...CATALOG_FIXTURE, components: [{ id: 'COMP-9', name: 'x', type: 'OTHER', relationships: [dependsOn('9', 'COMP-404')] }] }))
+      .toThrow('Fixture component COMP-9: relationship REL-9-COMP-404 targets unknown component "COMP-404"');
+  });
+});
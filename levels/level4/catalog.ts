@@ -0,0 +1,197 @@
+/**
+ * Catalog Dependency Graph
+ *
+ * Queries over the relationships between Catalog components. An edge runs from
+ * a component to each component in its `relationships` of the followed type
+ * (DEPENDS_ON by default):
+ * - dependencies: what a component needs, transitively
+ * - dependents: what needs it, transitively
+ * - cycles: groups of components that end up depending on themselves
+ * - impact: the dependents of a component plus the Tracker issues mentioning any of them
+ * - ownership: people named in USER custom fields
+ */
+
+import { CatalogComponent, CatalogCustomFieldDef, NexusState, NexusUser, TrackerIssue } from './state';
+
+export const DEFAULT_RELATIONSHIP_TYPE = 'DEPENDS_ON';
+
+export type DependencyDirection = 'dependencies' | 'dependents';
+
+export interface DependencyNode {
+  component: CatalogComponent;
+  depth: number; // 1 = direct
+  path: string[]; // Component IDs from the starting component to this one
+}
+
+export interface ComponentOwner {
+  field: CatalogCustomFieldDef;
+  accountId: string;
+  user?: NexusUser; // Unset when the account isn't on the site
+}
+
+export function findComponent(state: NexusState, idOrName: string): CatalogComponent | undefined {
+  return state.catalog.components.get(idOrName) ||
+    Array.from(state.catalog.components.values()).find(c => c.name.toLowerCase() === idOrName.toLowerCase());
+}
+
+function getComponent(state: NexusState, idOrName: string): CatalogComponent {
+  const component = findComponent(state, idOrName);
+  if (!component) {
+    throw new Error(`Component ${idOrName} not found`);
+  }
+  return component;
+}
+
+// Direct neighbours of a component in one direction
+function neighbours(
+  state: NexusState,
+  component: CatalogComponent,
+  direction: DependencyDirection,
+  relationshipType: string
+): CatalogComponent[] {
+  if (direction === 'dependencies') {
+    return component.relationships
+      .filter(r => r.type === relationshipType)
+      .map(r => state.catalog.components.get(r.targetId))
+      .filter((c): c is CatalogComponent => !!c);
+  }
+  return Array.from(state.catalog.components.values())
+    .filter(c => c.relationships.some(r => r.type === relationshipType && r.targetId === component.id));
+}
+
+/**
+ * Every component reachable from `idOrName`, nearest first. Each one is listed once, at its shortest path.
+ */
+export function getTransitiveDependencies(
+  state: NexusState,
+  idOrName: string,
+  direction: DependencyDirection = 'dependencies',
+  options: { maxDepth?: number; relationshipType?: string } = {}
+): DependencyNode[] {
+  const start = getComponent(state, idOrName);
+  const relationshipType = options.relationshipType ?? DEFAULT_RELATIONSHIP_TYPE;
+  const maxDepth = options.maxDepth ?? Infinity;
+
+  const found: DependencyNode[] = [];
+  const seen = new Set([start.id]);
+  let frontier: DependencyNode[] = [{ component: start, depth: 0, path: [start.id] }];
+  while (frontier.length > 0 && frontier[0].depth < maxDepth) {
+    const next: DependencyNode[] = [];
+    for (const node of frontier) {
+      for (const neighbour of neighbours(state, node.component, direction, relationshipType)) {
+        if (seen.has(neighbour.id)) continue;
+        seen.add(neighbour.id);
+        next.push({ component: neighbour, depth: node.depth + 1, path: [...node.path, neighbour.id] });
+      }
+    }
+    found.push(...next);
+    frontier = next;
+  }
+  return found;
+}
+
+/**
+ * Dependency cycles, each as the component IDs around the loop starting from the smallest ID.
+ * One cycle is reported per back edge, which is enough to show every component that is part of a loop.
+ */
+export function findDependencyCycles(state: NexusState, relationshipType: string = DEFAULT_RELATIONSHIP_TYPE): string[][] {
+  const cycles = new Map<string, string[]>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (component: CatalogComponent) => {
+    stack.push(component.id);
+    for (const next of neighbours(state, component, 'dependencies', relationshipType)) {
+      const index = stack.indexOf(next.id);
+      if (index !== -1) {
+        const loop = stack.slice(index);
+        const first = loop.indexOf([...loop].sort()[0]);
+        const cycle = [...loop.slice(first), ...loop.slice(0, first)];
+        cycles.set(cycle.join(','), cycle);
+      } else if (!done.has(next.id)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    done.add(component.id);
+  };
+
+  const components = Array.from(state.catalog.components.values()).sort((a, b) => a.id.localeCompare(b.id));
+  for (const component of components) {
+    if (!done.has(component.id)) visit(component);
+  }
+  return Array.from(cycles.values());
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Issues whose summary, description, labels or comments name the component (by name or ID)
+ */
+export function getIssuesMentioningComponent(state: NexusState, component: CatalogComponent): TrackerIssue[] {
+  const pattern = new RegExp(
+    `(^|[^\\w-])(${escapeRegExp(component.name)}|${escapeRegExp(component.id)})($|[^\\w-])`,
+    'i'
+  );
+  return Array.from(state.tracker.issues.values()).filter(issue =>
+    [issue.summary, issue.description, ...(issue.labels || []), ...issue.comments.map(c => c.body)]
+      .some(text => text !== undefined && pattern.test(text))
+  );
+}
+
+/**
+ * The components affected by changing `idOrName` (itself and its transitive dependents)
+ * and the issues that mention any of them
+ */
+export function getImpactAnalysis(
+  state: NexusState,
+  idOrName: string,
+  relationshipType: string = DEFAULT_RELATIONSHIP_TYPE
+): { component: CatalogComponent; dependents: DependencyNode[]; issues: Array<{ issue: TrackerIssue; components: string[] }> } {
+  const component = getComponent(state, idOrName);
+  const dependents = getTransitiveDependencies(state, component.id, 'dependents', { relationshipType });
+
+  const issues = new Map<string, { issue: TrackerIssue; components: string[] }>();
+  for (const affected of [component, ...dependents.map(d => d.component)]) {
+    for (const issue of getIssuesMentioningComponent(state, affected)) {
+      const entry = issues.get(issue.key) ?? { issue, components: [] };
+      entry.components.push(affected.id);
+      issues.set(issue.key, entry);
+    }
+  }
+
+  return { component, dependents, issues: Array.from(issues.values()) };
+}
+
+// Custom field values are keyed by field ID or name
+function fieldDefinition(state: NexusState, key: string): CatalogCustomFieldDef | undefined {
+  return state.catalog.customFieldDefs.find(f => f.id === key || f.name.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * The accounts in a component's USER custom fields (a field may hold one account ID or a list)
+ */
+export function getComponentOwners(state: NexusState, component: CatalogComponent): ComponentOwner[] {
+  const users = [state.user, ...state.users];
+  return Object.entries(component.customFields).flatMap(([key, value]) => {
+    const field = fieldDefinition(state, key);
+    if (field?.type !== 'USER') return [];
+    const accountIds = (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === 'string');
+    return accountIds.map(accountId => ({ field, accountId, user: users.find(u => u.accountId === accountId) }));
+  });
+}
+
+/**
+ * Components where the account appears in a USER custom field
+ */
+export function getComponentsOwnedBy(
+  state: NexusState,
+  accountId: string
+): Array<{ component: CatalogComponent; fields: CatalogCustomFieldDef[] }> {
+  return Array.from(state.catalog.components.values()).flatMap(component => {
+    const fields = getComponentOwners(state, component).filter(o => o.accountId === accountId).map(o => o.field);
+    return fields.length > 0 ? [{ component, fields }] : [];
+  });
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  NexusState,
+  addCommentToTrackerIssueAsUser,
+  createInitialState,
+  createPagesInlineCommentAsUser,
+  deserializeState,
+  hasAction,
+  revertAction,
+  serializeState
+} from './state';
+import { executeTool } from './tools';
+import {
+  NexusEvent,
+  ScenarioScript,
+  beginTurn,
+  formatNotifications,
+  getPublishedEvents,
+  notify,
+  runScenarioScripts,
+  scheduleReaction,
+  subscribe,
+  wasNotificationDelivered
+} from './events';
+
+// A teammate answers the agent's comments
+const replyToComments: ScenarioScript = (state) => {
+  subscribe(state, 'issue.commented', (event) => {
+    addCommentToTrackerIssueAsUser(state, event.target, 'Sam Ortiz', 'Thanks, I will pick this up tomorrow.');
+    notify(state, 'Sam Ortiz', 'Replied to your comment', event.target);
+  });
+};
+
+// Legal adds a second inline comment two turns after the agent first moves an issue
+const legalFollowUp: ScenarioScript = (state) => {
+  const unsubscribe = subscribe(state, 'issue.transitioned', () => {
+    unsubscribe();
+    scheduleReaction(state, 2, () => {
+      createPagesInlineCommentAsUser(state, 'P-501', 'Irene (Legal)', 'LHR-101 also needs sign-off before it moves.', 'row:LHR-101');
+      notify(state, 'Irene (Legal)', 'Added an inline comment on row LHR-101', 'P-501');
+    });
+  });
+};
+
+// A bot puts LHR-103 back whenever it leaves Blocked - Legal
+const legalHoldBot: ScenarioScript = (state) => {
+  subscribe(state, 'issue.transitioned', (event) => {
+    if (event.target !== 'LHR-103' || event.details.fromStatus !== 'Blocked - Legal') return;
+    revertAction(state, event.actionId);
+    notify(state, 'legal-hold-bot', `Reverted ${event.actionId}: LHR-103 is on legal hold`, 'LHR-103');
+  });
+};
+
+describe('Nexus event bus', () => {
+  let state: NexusState;
+
+  const run = (toolName: string, args: Record<string, unknown>) =>
+    executeTool({ type: 'mcp_tool', toolName, arguments: args }, state);
+
+  beforeEach(() => {
+    state = createInitialState();
+  });
+
+  it('publishes an event for every logged action', () => {
+    const seen: NexusEvent[] = [];
+    subscribe(state, '*', event => seen.push(event));
+
+    run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+    run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'Started' });
+    run('getPagesDoc', { docId: 'P-501' }); // Reads publish nothing
+
+    expect(seen.map(e => [e.id, e.type, e.target, e.actionId, e.turn])).toEqual([
+      ['E-1', 'issue.transitioned', 'LHR-100', 'A-1', 1],
+      ['E-2', 'issue.commented', 'LHR-100', 'A-2', 2]
+    ]);
+    expect(seen[0].details).toMatchObject({ fromStatus: 'To Do', toStatus: 'In Progress' });
+    expect(getPublishedEvents(state, 'issue.commented')).toEqual([seen[1]]);
+  });
+
+  it('delivers a reply with the next tool call', () => {
+    runScenarioScripts(state, [replyToComments]);
+
+    const commented = run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-102', body: 'Who owns this?' });
+    expect(commented.notifications).toBeUndefined();
+    expect(state.tracker.issues.get('LHR-102')!.comments.map(c => c.author)).toEqual(['Agent User', 'Sam Ortiz']);
+    expect(hasAction(state, 'addCommentToTrackerIssue')).toBe(true);
+    expect(state.actionLog).toHaveLength(1); // The reply isn't the agent's action
+
+    const next = run('getTrackerIssue', { issueIdOrKey: 'LHR-102' });
+    expect(next.notifications).toMatchObject([{ id: 'N-1', from: 'Sam Ortiz', target: 'LHR-102', turn: 1, deliveredTurn: 2 }]);
+    expect(formatNotifications(state, next.notifications!)).toBe(
+      'Notifications since your last call:\n- [LHR-102] Sam Ortiz: Replied to your comment'
+    );
+    expect(wasNotificationDelivered(state, 'N-1')).toBe(true);
+    expect(run('getTrackerIssue', { issueIdOrKey: 'LHR-102' }).notifications).toBeUndefined();
+  });
+
+  it('runs delayed reactions at the start of the turn they are due', () => {
+    runScenarioScripts(state, [legalFollowUp]);
+
+    run('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' }); // turn 1
+    run('transitionTrackerIssue', { issueIdOrKey: 'LHR-101', transitionId: 'T-1' }); // turn 2
+    expect(state.pages.docs.get('P-501')!.inlineComments).toHaveLength(1);
+
+    // Turn 3: the comment is already there when the agent reads, and the notification comes with it
+    const comments = run('getPagesDocInlineComments', { docId: 'P-501' });
+    expect(JSON.parse(comments.output).results.map((c: any) => c.author.displayName)).toEqual(['Irene (Legal)', 'Irene (Legal)']);
+    expect(comments.notifications!.map(n => n.message)).toEqual(['Added an inline comment on row LHR-101']);
+
+    run('getPagesDoc', { docId: 'P-501' });
+    expect(state.pages.docs.get('P-501')!.inlineComments).toHaveLength(2); // Only once
+    expect(() => scheduleReaction(state, 0, () => {})).toThrow('Reactions are scheduled at least one turn ahead (got 0)');
+  });
+
+  it('lets a bot revert a bad edit', () => {
+    runScenarioScripts(state, [legalHoldBot]);
+
+    const result = run('transitionTrackerIssue', { issueIdOrKey: 'LHR-103', transitionId: 'T-1' });
+    expect(result.success).toBe(true);
+    expect(state.tracker.issues.get('LHR-103')!.status).toBe('Blocked - Legal');
+    expect(state.actionLog.map(a => [a.id, a.action, a.revertedBy])).toEqual([
+      ['A-1', 'transitionTrackerIssue', 'A-2'],
+      ['A-2', 'revertAction', undefined]
+    ]);
+    expect(getPublishedEvents(state).map(e => e.type)).toEqual(['issue.transitioned', 'action.reverted']);
+
+    const output = run('getTrackerIssue', { issueIdOrKey: 'LHR-103' });
+    expect(formatNotifications(state, output.notifications!)).toContain('- [LHR-103] legal-hold-bot: Reverted A-1: LHR-103 is on legal hold');
+  });
+
+  it('keeps events and notifications in serialized state, but not subscriptions', () => {
+    runScenarioScripts(state, [replyToComments]);
+    run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-102', body: 'Ping' });
+
+    const restored = deserializeState(serializeState(state));
+    expect(restored.events.turn).toBe(1);
+    expect(restored.events.published).toHaveLength(1);
+    expect(beginTurn(restored).map(n => n.id)).toEqual(['N-1']);
+
+    state = restored;
+    run('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-102', body: 'Ping again' });
+    expect(state.events.notifications).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Nexus Event Bus
+ *
+ * Every action the agent takes is published as an event, so scenario scripts can
+ * react mid-session the way people and bots on a real site would:
+ * - a teammate replying to a Tracker comment
+ * - Legal posting a new inline comment a couple of turns later
+ * - a bot reverting a bad edit
+ *
+ * Reactions reach the agent as notifications, delivered with the result of its
+ * next tool call. A turn is one tool call.
+ *
+ * Events and notifications are plain data on the state, so they are snapshotted and
+ * serialized with it. Subscriptions and delayed reactions are code: they are held per
+ * state object and don't carry over to copies, so run the scripts again on a
+ * deserialized state.
+ */
+
+import type { NexusState } from './state';
+
+export type NexusEventType =
+  | 'issue.created'
+  | 'issue.updated'
+  | 'issue.transitioned'
+  | 'issue.commented'
+  | 'issue.worklogAdded'
+  | 'issue.linked'
+  | 'issue.sprintChanged'
+  | 'doc.created'
+  | 'doc.updated'
+  | 'doc.inlineCommentAdded'
+  | 'doc.footerCommentAdded'
+  | 'component.created'
+  | 'component.relationshipAdded'
+  | 'catalog.fieldCreated'
+  | 'action.reverted';
+
+// The event each logged action publishes
+export const ACTION_EVENT_TYPES: Record<string, NexusEventType> = {
+  createTrackerIssue: 'issue.created',
+  editTrackerIssue: 'issue.updated',
+  transitionTrackerIssue: 'issue.transitioned',
+  addCommentToTrackerIssue: 'issue.commented',
+  addWorklogToTrackerIssue: 'issue.worklogAdded',
+  linkTrackerIssues: 'issue.linked',
+  moveIssueToSprint: 'issue.sprintChanged',
+  createPagesDoc: 'doc.created',
+  updatePagesDoc: 'doc.updated',
+  createPagesInlineComment: 'doc.inlineCommentAdded',
+  createPagesFooterComment: 'doc.footerCommentAdded',
+  createCatalogComponent: 'component.created',
+  createCatalogComponentRelationship: 'component.relationshipAdded',
+  createCatalogCustomFieldDefinition: 'catalog.fieldCreated',
+  revertAction: 'action.reverted',
+};
+
+export interface NexusEvent {
+  id: string; // E-1, E-2, ... in order
+  type: NexusEventType;
+  actionId: string; // The logged action behind the event
+  target: string; // Issue key, doc ID, component ID or (for reverts) action ID
+  details: Record<string, unknown>; // Same as the action log entry
+  turn: number;
+  timestamp: string;
+}
+
+export interface NexusNotification {
+  id: string; // N-1, N-2, ...
+  from: string; // Account ID, or a name for bots
+  message: string;
+  target?: string; // What it is about, e.g. an issue key
+  turn: number; // Turn it was sent in
+  deliveredTurn?: number; // Unset until it has gone out with a tool result
+}
+
+export interface NexusEventLog {
+  turn: number; // Tool calls so far
+  published: NexusEvent[];
+  notifications: NexusNotification[];
+}
+
+export type EventHandler = (event: NexusEvent, state: NexusState) => void;
+
+// A scenario script subscribes to the events it reacts to
+export type ScenarioScript = (state: NexusState) => void;
+
+interface EventBus {
+  handlers: Array<{ type: NexusEventType | '*'; handler: EventHandler }>;
+  timers: Array<{ dueTurn: number; reaction: (state: NexusState) => void }>;
+  queue: NexusEvent[]; // Events published by handlers, dispatched once the current one is done
+  dispatching: boolean;
+}
+
+const buses = new WeakMap<NexusState, EventBus>();
+
+function getBus(state: NexusState): EventBus {
+  let bus = buses.get(state);
+  if (!bus) {
+    bus = { handlers: [], timers: [], queue: [], dispatching: false };
+    buses.set(state, bus);
+  }
+  return bus;
+}
+
+export function createEventLog(): NexusEventLog {
+  return { turn: 0, published: [], notifications: [] };
+}
+
+/**
+ * Call `handler` for every event of `type` ('*' for all). Returns a function that unsubscribes.
+ */
+export function subscribe(state: NexusState, type: NexusEventType | '*', handler: EventHandler): () => void {
+  const bus = getBus(state);
+  const entry = { type, handler };
+  bus.handlers.push(entry);
+  return () => {
+    bus.handlers = bus.handlers.filter(h => h !== entry);
+  };
+}
+
+export function runScenarioScripts(state: NexusState, scripts: ScenarioScript[]): void {
+  for (const script of scripts) script(state);
+}
+
+/**
+ * Record an event for a logged action and run the handlers for it
+ */
+export function publishEvent(
+  state: NexusState,
+  type: NexusEventType,
+  actionId: string,
+  target: string,
+  details: Record<string, unknown>
+): NexusEvent {
+  const event: NexusEvent = {
+    id: `E-${state.events.published.length + 1}`,
+    type,
+    actionId,
+    target,
+    details,
+    turn: state.events.turn,
+    timestamp: new Date().toISOString()
+  };
+  state.events.published.push(event);
+
+  // A handler that acts (e.g. reverts) publishes more events; those wait their turn
+  const bus = getBus(state);
+  bus.queue.push(event);
+  if (bus.dispatching) return event;
+  bus.dispatching = true;
+  try {
+    while (bus.queue.length > 0) {
+      const next = bus.queue.shift()!;
+      for (const { type: subscribed, handler } of [...bus.handlers]) {
+        if (subscribed === '*' || subscribed === next.type) handler(next, state);
+      }
+    }
+  } finally {
+    bus.dispatching = false;
+    bus.queue = [];
+  }
+  return event;
+}
+
+/**
+ * Queue a notification for the agent; it goes out with the next tool result
+ */
+export function notify(state: NexusState, from: string, message: string, target?: string): NexusNotification {
+  const notification: NexusNotification = {
+    id: `N-${state.events.notifications.length + 1}`,
+    from,
+    message,
+    ...(target ? { target } : {}),
+    turn: state.events.turn
+  };
+  state.events.notifications.push(notification);
+  return notification;
+}
+
+/**
+ * Run `reaction` at the start of the tool call `turns` calls from now
+ */
+export function scheduleReaction(state: NexusState, turns: number, reaction: (state: NexusState) => void): void {
+  if (!Number.isInteger(turns) || turns < 1) {
+    throw new Error(`Reactions are scheduled at least one turn ahead (got ${turns})`);
+  }
+  getBus(state).timers.push({ dueTurn: state.events.turn + turns, reaction });
+}
+
+/**
+ * Start the next tool call: run the reactions that are due and hand over the
+ * notifications the agent hasn't seen yet
+ */
+export function beginTurn(state: NexusState): NexusNotification[] {
+  const turn = ++state.events.turn;
+
+  const bus = getBus(state);
+  const due = bus.timers.filter(t => t.dueTurn <= turn);
+  bus.timers = bus.timers.filter(t => t.dueTurn > turn);
+  for (const { reaction } of due) reaction(state);
+
+  const pending = state.events.notifications.filter(n => n.deliveredTurn === undefined);
+  for (const notification of pending) notification.deliveredTurn = turn;
+  return pending;
+}
+
+/**
+ * Notifications as text to show after a tool result
+ */
+export function formatNotifications(state: NexusState, notifications: NexusNotification[]): string {
+  const name = (from: string) => [state.user, ...state.users].find(u => u.accountId === from)?.displayName ?? from;
+  return [
+    'Notifications since your last call:',
+    ...notifications.map(n => `- ${n.target ? `[${n.target}] ` : ''}${name(n.from)}: ${n.message}`)
+  ].join('\n');
+}
+
+export function getPublishedEvents(state: NexusState, type?: NexusEventType): NexusEvent[] {
+  return state.events.published.filter(e => type === undefined || e.type === type);
+}
+
+export function wasNotificationDelivered(state: NexusState, notificationId: string): boolean {
+  return state.events.notifications.some(n => n.id === notificationId && n.deliveredTurn !== undefined);
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { NexusFixture, LIGHTHOUSE_FIXTURE, FIXTURE_EPOCH } from './fixtures';
+import { createInitialState, getAvailableTransitions, NexusState, transitionTrackerIssue } from './state';
+import { executeTool } from './tools';
+
+const ORBIT_FIXTURE: NexusFixture = {
+  user: { accountId: 'user-100', displayName: 'Ops Agent', email: 'agent@orbit.nexus.io' },
+  users: [{ accountId: 'user-200', displayName: 'Dana Reyes', email: 'dana@orbit.nexus.io' }],
+  resources: [{ cloudId: 'c-900', site: 'https://orbit.nexus.io' }],
+  workflows: [
+    {
+      name: 'simple',
+      statuses: [{ name: 'Open', category: 'todo' }, { name: 'Closed', category: 'done' }],
+      transitions: [{ id: 'T-10', name: 'Close', toStatus: 'Closed', from: ['Open'] }]
+    },
+    {
+      name: 'review',
+      statuses: [
+        { name: 'Draft', category: 'todo' },
+        { name: 'In Review', category: 'in_progress' },
+        { name: 'Approved', category: 'done' }
+      ],
+      transitions: [
+        { id: 'T-20', name: 'Send to Review', toStatus: 'In Review', from: ['Draft'] },
+        { id: 'T-21', name: 'Approve', toStatus: 'Approved', from: ['In Review'] }
+      ]
+    }
+  ],
+  projects: [
+    {
+      id: 'P-OPS',
+      key: 'OPS',
+      name: 'Operations',
+      workflow: 'simple',
+      issueTypes: [
+        { id: 'IT-1', name: 'Task', fields: [] },
+        { id: 'IT-2', name: 'Change', fields: [], workflow: 'review' }
+      ]
+    },
+    { id: 'P-SEC', key: 'SEC', name: 'Security', workflow: 'simple', issueTypes: [], permissions: ['read'] }
+  ],
+  issues: [
+    { id: 'J-1', key: 'OPS-1', projectKey: 'OPS', summary: 'Rotate on-call keys', assignee: 'user-200' },
+    { id: 'J-2', key: 'OPS-2', projectKey: 'OPS', summary: 'Change freeze sign-off', issueType: 'Change', status: 'In Review' },
+    { id: 'J-3', key: 'SEC-1', projectKey: 'SEC', summary: 'Pen test findings' }
+  ],
+  links: [{ id: 'L-1', type: 'blocks', from: 'OPS-2', to: 'OPS-1' }],
+  spaces: [{ id: 'S-RUN', key: 'RUN', name: 'Runbooks', type: 'global' }],
+  docs: [
+    {
+      id: 'P-1',
+      spaceId: 'S-RUN',
+      title: 'Key rotation runbook',
+      body: '# Key rotation',
+      inlineComments: [
+        { id: 'IC-1', anchor: 'Key rotation', author: 'Dana Reyes', body: 'Wait for the freeze to lift.', created: '2024-02-01T09:00:00Z' }
+      ]
+    }
+  ],
+  components: [{ id: 'COMP-1', name: 'keyring', type: 'SERVICE' }]
+};
+
+describe('Nexus fixtures', () => {
+  it('boots the Lighthouse scenario by default', () => {
+    expect(createInitialState()).toEqual(createInitialState(LIGHTHOUSE_FIXTURE));
+  });
+
+  it('boots an alternate scenario with defaults filled in', () => {
+    const state = createInitialState(ORBIT_FIXTURE);
+
+    expect(state.user.accountId).toBe('user-100');
+    expect(state.tracker.projects.map(p => p.key)).toEqual(['OPS', 'SEC']);
+    expect(state.tracker.links).toHaveLength(1);
+
+    expect(state.tracker.issues.get('OPS-1')).toMatchObject({
+      status: 'Open',
+      issueType: 'Task',
+      comments: [],
+      created: FIXTURE_EPOCH
+    });
+    expect(state.tracker.issues.get('OPS-2')?.status).toBe('In Review');
+    expect(state.pages.docs.get('P-1')).toMatchObject({ version: 1, footerComments: [] });
+    expect(state.pages.docs.get('P-1')?.history).toEqual([
+      { number: 1, title: 'Key rotation runbook', body: '# Key rotation', author: 'user-100', created: FIXTURE_EPOCH }
+    ]);
+    expect(state.pages.docs.get('P-1')?.inlineComments[0].author).toBe('Dana Reyes');
+    expect(state.catalog.components.get('COMP-1')).toMatchObject({ relationships: [], customFields: {} });
+  });
+
+  it('gives issues their project workflow unless their issue type has its own', () => {
+    const state = createInitialState(ORBIT_FIXTURE);
+    const ids = (key: string) => getAvailableTransitions(state, state.tracker.issues.get(key)!).map(t => t.id);
+    expect(ids('OPS-1')).toEqual(['T-10']);
+    expect(ids('OPS-2')).toEqual(['T-21']);
+  });
+
+  it('serves the scenario through the tools', () => {
+    const state = createInitialState(ORBIT_FIXTURE);
+    const run = (toolName: string, args: Record<string, unknown>) =>
+      executeTool({ type: 'mcp_tool', toolName, arguments: args }, state);
+
+    const users = JSON.parse(run('lookupTrackerAccountId', { query: 'dana' }).output);
+    expect(users.map((u: any) => u.accountId)).toEqual(['user-200']);
+    expect(run('transitionTrackerIssue', { issueIdOrKey: 'SEC-1', transitionId: 'T-10' }).status).toBe(403);
+    expect(run('transitionTrackerIssue', { issueIdOrKey: 'OPS-1', transitionId: 'T-10' }).success).toBe(true);
+  });
+
+  it('never shares objects between states or with the fixture', () => {
+    const first = createInitialState(ORBIT_FIXTURE);
+    transitionTrackerIssue(first, 'OPS-1', 'T-10');
+    first.tracker.workflows[0].transitions.pop();
+
+    const second: NexusState = createInitialState(ORBIT_FIXTURE);
+    expect(second.tracker.issues.get('OPS-1')?.status).toBe('Open');
+    expect(second.tracker.workflows[0].transitions).toHaveLength(1);
+    expect(ORBIT_FIXTURE.issues[0]).not.toHaveProperty('status');
+  });
+
+  it('reports records that point at undeclared data', () => {
+    const boot = (overrides: Partial<NexusFixture>) => () => createInitialState({ ...ORBIT_FIXTURE, ...overrides });
+    const issue = { id: 'J-9', key: 'OPS-9', projectKey: 'OPS', summary: 'x' };
+
+    expect(boot({ issues: [{ ...issue, key: 'ENG-1', projectKey: 'ENG' }] }))
+      .toThrow('Fixture issue ENG-1: unknown project "ENG"');
+    expect(boot({ issues: [{ ...issue, status: 'Done' }] }))
+      .toThrow('Fixture issue OPS-9: status "Done" is not in workflow "simple"');
+    expect(boot({ projects: [{ ...ORBIT_FIXTURE.projects[1], workflow: 'kanban' }], issues: [], links: [] }))
+      .toThrow('Fixture project SEC: unknown workflow "kanban". Available: simple, review');
+    expect(boot({ links: [{ id: 'L-9', type: 'blocks', from: 'OPS-1', to: 'OPS-404' }] }))
+      .toThrow('Fixture link L-9: unknown issue "OPS-404"');
+    expect(boot({ docs: [{ id: 'P-9', spaceId: 'S-NOPE', title: 'x', body: '' }] }))
+      .toThrow('Fixture doc P-9: unknown space "S-NOPE"');
+    expect(boot({ docs: [{ id: 'P-9', spaceId: 'S-RUN', title: 'x', body: '', history: [{ number: 1, title: 'x', body: '', author: 'a', created: FIXTURE_EPOCH }] }] }))
+      .toThrow('Fixture doc P-9: history version 1 is not older than version 1');
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Scenario Fixtures for the Nexus Simulation
+ *
+ * A fixture declares the starting data for a scenario: users, workflows, projects,
+ * issues and their links, boards and sprints, spaces, docs (with comments) and
+ * catalog components.
+ * createInitialState(fixture) boots it; omitted bookkeeping fields (comments,
+ * versions, timestamps) get defaults, so fixtures only say what matters. A doc's
+ * history lists earlier versions only; its current content is added as the latest.
+ *
+ * Fixtures are plain data, so they can also be loaded from JSON.
+ */
+
+import type {
+  CatalogComponent,
+  CatalogCustomFieldDef,
+  NexusResource,
+  NexusUser,
+  PagesDoc,
+  PagesSpace,
+  TrackerBoard,
+  TrackerIssue,
+  TrackerIssueLink,
+  TrackerProject,
+  TrackerSprint,
+  TrackerWorkflow,
+} from './state';
+
+type WithDefaults<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+
+// status defaults to the first status of the issue's workflow, issueType to 'Task'
+export type TrackerIssueFixture =
+  WithDefaults<TrackerIssue, 'status' | 'issueType' | 'comments' | 'worklogs' | 'remoteLinks' | 'created' | 'updated'>;
+
+export type PagesDocFixture =
+  WithDefaults<PagesDoc, 'version' | 'history' | 'inlineComments' | 'footerComments' | 'created' | 'updated'>;
+
+export type CatalogComponentFixture = WithDefaults<CatalogComponent, 'relationships' | 'customFields'>;
+
+export interface NexusFixture {
+  user: NexusUser; // The account the agent acts as
+  users?: NexusUser[]; // Everyone else on the site
+  resources: NexusResource[];
+  workflows: TrackerWorkflow[];
+  projects: TrackerProject[];
+  issues: TrackerIssueFixture[];
+  links?: TrackerIssueLink[];
+  boards?: TrackerBoard[];
+  sprints?: TrackerSprint[];
+  spaces: PagesSpace[];
+  docs: PagesDocFixture[];
+  components?: CatalogComponentFixture[];
+  customFieldDefs?: CatalogCustomFieldDef[];
+}
+
+// Timestamp for fixture records that don't set their own
+export const FIXTURE_EPOCH = '2024-01-01T10:00:00Z';
+
+// ============ LIGHTHOUSE (the Level 4 scenario) ============
+
+export const LIGHTHOUSE_FIXTURE: NexusFixture = {
+  user: {
+    accountId: 'user-001',
+    displayName: 'Agent User',
+    email: 'agent@acme.nexus.io'
+  },
+  resources: [
+    { cloudId: 'c-123', site: 'https://acme.nexus.io' }
+  ],
+  workflows: [
+    {
+      name: 'default',
+      statuses: [
+        { name: 'To Do', category: 'todo' },
+        { name: 'In Progress', category: 'in_progress' },
+        { name: 'Blocked', category: 'in_progress' },
+        { name: 'Blocked - Legal', category: 'in_progress' },
+        { name: 'Done', category: 'done' }
+      ],
+      // Available from every status
+      transitions: [
+        { id: 'T-1', name: 'Start Progress', toStatus: 'In Progress' },
+        {
+          id: 'T-2',
+          name: 'Done',
+          toStatus: 'Done',
+          screen: [
+            {
+              key: 'resolution',
+              name: 'Resolution',
+              required: true,
+              schema: { type: 'string' },
+              allowedValues: ['Done', "Won't Do", 'Duplicate']
+            }
+          ]
+        },
+        { id: 'T-3', name: 'Block', toStatus: 'Blocked' }
+      ]
+    }
+  ],
+  projects: [
+    {
+      id: 'P-LHR',
+      key: 'LHR',
+      name: 'Lighthouse Retention',
+      workflow: 'default',
+      issueTypes: [
+        {
+          id: 'IT-1',
+          name: 'Task',
+          fields: [
+            { key: 'summary', name: 'Summary', required: true, schema: { type: 'string' } },
+            { key: 'description', name: 'Description', required: false, schema: { type: 'string' } },
+            { key: 'customfield_10001', name: 'Retention Window', required: false, schema: { type: 'string' } }
+          ]
+        },
+        {
+          id: 'IT-2',
+          name: 'Story',
+          fields: [
+            { key: 'summary', name: 'Summary', required: true, schema: { type: 'string' } },
+            { key: 'description', name: 'Description', required: false, schema: { type: 'string' } }
+          ]
+        },
+        {
+          id: 'IT-3',
+          name: 'Epic',
+          hierarchyLevel: 1,
+          fields: [
+            { key: 'summary', name: 'Summary', required: true, schema: { type: 'string' } },
+            { key: 'description', name: 'Description', required: false, schema: { type: 'string' } }
+          ]
+        },
+        {
+          id: 'IT-4',
+          name: 'Sub-task',
+          hierarchyLevel: -1,
+          fields: [
+            { key: 'summary', name: 'Summary', required: true, schema: { type: 'string' } },
+            { key: 'parent', name: 'Parent', required: true, schema: { type: 'issuelink' } }
+          ]
+        }
+      ]
+    }
+  ],
+  issues: [
+    {
+      id: 'J-100',
+      key: 'LHR-100',
+      projectKey: 'LHR',
+      sprint: '7',
+      summary: 'Lighthouse – Data retention rollout',
+      description: 'Implement the data retention policy for Lighthouse.'
+    },
+    {
+      id: 'J-101',
+      key: 'LHR-101',
+      projectKey: 'LHR',
+      sprint: '7',
+      summary: 'Auto-delete transcripts (TBD)',
+      description: 'Implement automatic deletion of transcripts.'
+    },
+    {
+      id: 'J-102',
+      key: 'LHR-102',
+      projectKey: 'LHR',
+      sprint: '7',
+      summary: 'Access controls (TBD)',
+      description: 'Implement role-based access controls.'
+    },
+    {
+      id: 'J-103',
+      key: 'LHR-103',
+      projectKey: 'LHR',
+      sprint: '7',
+      summary: 'Privacy language (TBD)',
+      description: 'Update privacy language across the platform.',
+      status: 'Blocked - Legal'
+    }
+  ],
+  boards: [
+    { id: 'B-1', name: 'LHR board', projectKey: 'LHR' }
+  ],
+  sprints: [
+    { id: '7', name: 'LHR Sprint 7', boardId: 'B-1', state: 'active', goal: 'Retention rollout', startDate: '2024-01-01T09:00:00Z', endDate: '2024-01-14T17:00:00Z' },
+    { id: '8', name: 'LHR Sprint 8', boardId: 'B-1', state: 'future' }
+  ],
+  spaces: [
+    { id: 'S-SEC', key: 'SEC', name: 'Security & Compliance', type: 'global' },
+    { id: 'S-GROW', key: 'GROW', name: 'Growth', type: 'global' }
+  ],
+  docs: [
+    {
+      id: 'P-500',
+      spaceId: 'S-SEC',
+      title: 'Lighthouse Retention Roadmap (Draft)',
+      body: `# Lighthouse Retention Roadmap (Draft)
+
+⚠️ **Draft only. Do not apply.**
+
+| Issue | Change |
+|---|---|
+| LHR-100 | (draft numbers) |
+| LHR-101 | (draft numbers) |
+| LHR-102 | (draft numbers) |
+| LHR-103 | (draft numbers) |`,
+      creator: 'Product Manager',
+      labels: ['roadmap', 'draft']
+    },
+    {
+      id: 'P-501',
+      spaceId: 'S-SEC',
+      title: 'Lighthouse Retention Roadmap (LIVE)',
+      body: `# Lighthouse Retention Roadmap (LIVE)
+
+## Approved changes (apply to Tracker)
+
+| Tracker key | What to change | Target status |
+|---|---|---|
+| **LHR-100** | Set **Retention window** = \`18 months\` | In Progress |
+| **LHR-101** | Summary → \`Implement auto-delete\` | In Progress |
+| **LHR-102** | Summary → \`Role-based access\` | In Progress |
+| **LHR-103** | Summary → \`Update privacy language\` | In Progress |
+
+## Notes
+
+- Comment on each issue with the Pages link after updating.`,
+      version: 3,
+      history: [
+        {
+          number: 1,
+          title: 'Lighthouse Retention Roadmap',
+          body: '# Lighthouse Retention Roadmap\n\nCopied from the draft. Numbers pending review.',
+          author: 'Product Manager',
+          created: '2024-01-02T11:00:00Z'
+        },
+        {
+          number: 2,
+          title: 'Lighthouse Retention Roadmap (LIVE)',
+          body: `# Lighthouse Retention Roadmap (LIVE)
+
+## Approved changes (apply to Tracker)
+
+| Tracker key | What to change | Target status |
+|---|---|---|
+| **LHR-100** | Set **Retention window** = \`12 months\` | In Progress |
+| **LHR-101** | Summary → \`Implement auto-delete\` | In Progress |`,
+          author: 'Product Manager',
+          created: '2024-01-03T16:20:00Z',
+          message: 'First approved rows'
+        }
+      ],
+      creator: 'Product Manager',
+      labels: ['roadmap', 'approved'],
+      inlineComments: [
+        {
+          id: 'IC-77',
+          anchor: 'row:LHR-103',
+          author: 'Irene (Legal)',
+          body: 'Do **NOT** transition LHR-103 yet. Keep it in current status until Legal sign-off.',
+          created: '2024-01-05T14:30:00Z'
+        }
+      ],
+      footerComments: [
+        {
+          id: 'FC-1',
+          author: 'Product Manager',
+          body: 'Ready for implementation!',
+          created: '2024-01-04T09:00:00Z'
+        }
+      ],
+      updated: '2024-01-05T14:30:00Z'
+    }
+  ]
+};
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { level4 } from './index';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { level4, setLevel4SessionStore, setLevel4SessionTtl, SessionStore } from './index';
+import { Message } from '../../types';
 
 /**
  * Integration tests for Level 4: MCP
@@ -10,7 +11,7 @@ import { level4 } from './index';
 
 describe('Level 4 Integration', () => {
   // Mock conversation history
-  let history: Array<{ role: string; content: string }>;
+  let history: Message[];
 
   beforeEach(() => {
     // Fresh history for each test (use unique content to get a unique session)
@@ -180,6 +181,28 @@ describe('Level 4 Integration', () => {
       expect(result.message).toContain('NOT');
     });
 
+    it('accepts completion if the LHR-103 transition was reverted', async () => {
+      await level4.validate!('getPagesDocInlineComments({ docId: "P-501" })', history);
+      for (const key of ['LHR-100', 'LHR-101', 'LHR-102']) {
+        await level4.validate!(`transitionTrackerIssue({ issueIdOrKey: "${key}", transitionId: "T-1" })`, history);
+      }
+      const moved = await level4.validate!('transitionTrackerIssue({ issueIdOrKey: "LHR-103", transitionId: "T-1" })', history);
+      const { actionId } = JSON.parse(moved.toolOutput!);
+      expect((await level4.validate!(`revertAction("${actionId}")`, history)).status).toBe('INTERMEDIATE');
+      await level4.validate!('addCommentToTrackerIssue({ issueIdOrKey: "LHR-100", body: "Updated per roadmap" })', history);
+
+      const result = await level4.validate!(
+        'I have completed syncing Tracker to the roadmap.',
+        history
+      );
+      expect(result.status).toBe('SUCCESS');
+      expect(result.message).toContain('reverted it');
+      expect(result.rubric?.criteria.find(c => c.id === 'lhr103_untouched')).toMatchObject({
+        passed: true,
+        detail: 'moved, then reverted'
+      });
+    });
+
     it('accepts correct completion (LHR-103 NOT transitioned)', async () => {
       // CRITICAL: Must read inline comments to discover the Legal constraint
       await level4.validate!('getPagesDocInlineComments({ docId: "P-501" })', history);
@@ -194,7 +217,7 @@ describe('Level 4 Integration', () => {
       await level4.validate!('transitionTrackerIssue({ issueIdOrKey: "LHR-102", transitionId: "T-1" })', history);
       // LHR-103 is intentionally NOT transitioned!
 
-      await level4.validate!('addCommentToTrackerIssue({ issueIdOrKey: "LHR-100", body: "Updated per roadmap" })', history);
+      await level4.validate!('addCommentToTrackerIssue({ issueIdOrKey: "LHR-100", body: "Updated per roadmap: https://acme.nexus.io/wiki/spaces/SEC/docs/P-501" })', history);
       await level4.validate!('addCommentToTrackerIssue({ issueIdOrKey: "LHR-101", body: "Updated per roadmap" })', history);
 
       const result = await level4.validate!(
@@ -202,6 +225,10 @@ describe('Level 4 Integration', () => {
         history
       );
       expect(result.status).toBe('SUCCESS');
+      expect(result.rubric?.score).toBe(1);
+      expect(result.rubric?.criteria.every(c => c.passed)).toBe(true);
+      // Only comments linking the roadmap doc count
+      expect(result.rubric?.criteria.find(c => c.id === 'comments_added')?.detail).toBe('1/3');
     });
 
     it('succeeds with warning if inline comments were not read (lucky scenario)', async () => {
@@ -220,6 +247,26 @@ describe('Level 4 Integration', () => {
       expect(result.status).toBe('SUCCESS');
       expect(result.message).toContain("didn't check the inline comments");
       expect(result.message).toContain('Lucky');
+
+      // Partial credit: the comment has no Pages link and the inline comments went unread
+      const readComments = result.rubric?.criteria.find(c => c.id === 'read_inline_comments');
+      expect(readComments?.passed).toBe(false);
+      expect(result.rubric?.criteria.find(c => c.id === 'comments_added')?.passed).toBe(false);
+      expect(result.rubric?.score).toBeGreaterThan(0);
+      expect(result.rubric?.score).toBeLessThan(1);
+    });
+
+    it('scores the trap as failed in the rubric', async () => {
+      await level4.validate!('transitionTrackerIssue({ issueIdOrKey: "LHR-100", transitionId: "T-1" })', history);
+      await level4.validate!('transitionTrackerIssue({ issueIdOrKey: "LHR-103", transitionId: "T-1" })', history);
+
+      const result = await level4.validate!(
+        'I have completed syncing Tracker to the roadmap.',
+        history
+      );
+      const byId = Object.fromEntries(result.rubric!.criteria.map(c => [c.id, c]));
+      expect(byId.lhr103_untouched.passed).toBe(false);
+      expect(byId.transitions_done.detail).toBe('1/3');
     });
   });
 
@@ -257,4 +304,87 @@ describe('Level 4 Integration', () => {
       expect(result.message).toContain('not available');
     });
   });
+
+  describe('Run sessions', () => {
+    const transition = 'transitionTrackerIssue({ issueIdOrKey: "LHR-100", transitionId: "T-1" })';
+    const actionIdOf = (result: { toolOutput?: string }) => JSON.parse(result.toolOutput!).actionId;
+
+    // Every run shares the same system prompt, as in the game
+    const play = async (runId: string, ...turns: string[]) => {
+      let result;
+      for (const turn of turns) result = await level4.validate!(turn, history, runId);
+      return result!;
+    };
+
+    afterEach(() => {
+      setLevel4SessionStore();
+      setLevel4SessionTtl();
+      vi.useRealTimers();
+    });
+
+    it('keeps runs apart even with the same history', async () => {
+      expect(actionIdOf(await play('run-a', 'mcp_list_tools("nexus-core")', transition))).toBe('A-1');
+      expect(actionIdOf(await play('run-b', 'mcp_list_tools("nexus-core")', transition))).toBe('A-1');
+      expect(actionIdOf(await play('run-a', transition))).toBe('A-2');
+    });
+
+    it('starts a reset run from scratch', async () => {
+      await play('run-reset', 'mcp_list_tools("nexus-core")', transition);
+      level4.resetRun!('run-reset');
+      expect((await play('run-reset', transition)).message).toContain('not been discovered');
+    });
+
+    it('drops runs that have been idle longer than the TTL', async () => {
+      vi.useFakeTimers();
+      setLevel4SessionTtl(60_000);
+      await play('run-idle', 'mcp_list_tools("nexus-core")');
+
+      vi.advanceTimersByTime(30_000);
+      expect((await play('run-idle', transition)).status).toBe('INTERMEDIATE');
+
+      vi.advanceTimersByTime(61_000);
+      expect((await play('run-idle', transition)).message).toContain('not been discovered');
+    });
+
+    const mapStore = (saved: Map<string, string>): SessionStore => ({
+      getItem: key => saved.get(key) ?? null,
+      setItem: (key, value) => { saved.set(key, value); },
+      removeItem: key => { saved.delete(key); },
+      key: index => Array.from(saved.keys())[index] ?? null,
+      get length() { return saved.size; }
+    });
+
+    it('resumes a run from the store after a reload', async () => {
+      const saved = new Map<string, string>();
+      setLevel4SessionStore(mapStore(saved));
+      await play('run-saved', 'mcp_list_tools("nexus-core")', transition);
+      expect(Array.from(saved.keys())).toEqual(['youareanagent-level4-run:run-saved']);
+
+      // A reload loses the in-memory sessions; fake it by dropping them and putting the saved copy back
+      const copy = saved.get('youareanagent-level4-run:run-saved')!;
+      level4.resetRun!('run-saved');
+      expect(saved.size).toBe(0);
+      saved.set('youareanagent-level4-run:run-saved', copy);
+
+      expect(actionIdOf(await play('run-saved', transition))).toBe('A-2');
+    });
+
+    it('sweeps expired runs from the store, even ones never loaded', async () => {
+      vi.useFakeTimers();
+      setLevel4SessionTtl(60_000);
+      const saved = new Map<string, string>([
+        ['youareanagent-level4-run:run-old', JSON.stringify({ lastUsed: Date.now() - 61_000 })],
+        ['youareanagent-level4-run:run-recent', JSON.stringify({ lastUsed: Date.now() - 30_000 })],
+        ['another-app-key', 'kept']
+      ]);
+      setLevel4SessionStore(mapStore(saved));
+
+      await play('run-new', 'mcp_list_tools("nexus-core")');
+      expect(Array.from(saved.keys()).sort()).toEqual([
+        'another-app-key',
+        'youareanagent-level4-run:run-new',
+        'youareanagent-level4-run:run-recent'
+      ]);
+    });
+  });
 });
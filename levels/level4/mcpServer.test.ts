@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createNexusMcpSession, listMcpTools, JSON_RPC_ERRORS, NexusMcpSession, JsonRpcResponse } from './mcpServer';
+import { ALL_TOOL_NAMES } from './tools';
+import { ScenarioScript, notify, subscribe } from './events';
+
+describe('Nexus MCP server', () => {
+  let session: NexusMcpSession;
+  let nextId: number;
+
+  const call = (method: string, params?: Record<string, unknown>) =>
+    session.handleMessage({ jsonrpc: '2.0', id: nextId++, method, params }) as JsonRpcResponse;
+
+  const callTool = (name: string, args: Record<string, unknown>) =>
+    call('tools/call', { name, arguments: args }).result as { content: Array<{ text: string }>; isError: boolean };
+
+  const listTools = () => (call('tools/list').result as { tools: Array<{ name: string }> }).tools;
+
+  beforeEach(() => {
+    session = createNexusMcpSession('test');
+    nextId = 1;
+  });
+
+  describe('lifecycle', () => {
+    it('negotiates the requested protocol version', () => {
+      const response = call('initialize', { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } });
+      expect(response.result).toMatchObject({
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: 'nexus-core' }
+      });
+      expect(session.initialized).toBe(true);
+    });
+
+    it('falls back to the latest version for unknown versions', () => {
+      const response = call('initialize', { protocolVersion: '1999-01-01' });
+      expect((response.result as any).protocolVersion).toBe('2025-06-18');
+    });
+
+    it('does not answer notifications', () => {
+      expect(session.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+    });
+
+    it('answers ping', () => {
+      expect(call('ping').result).toEqual({});
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects unknown methods', () => {
+      expect(call('resources/list').error?.code).toBe(JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+    });
+
+    it('rejects malformed requests', () => {
+      const response = session.handleMessage({ id: 7, method: 'ping' }) as JsonRpcResponse;
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+      expect(response.id).toBe(7);
+    });
+
+    it('rejects unknown tools with invalid params', () => {
+      expect(call('tools/call', { name: 'dropDatabase' }).error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it('handles batches', () => {
+      const responses = session.handleMessage([
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'ping' }
+      ]) as JsonRpcResponse[];
+      expect(responses.map(r => r.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('tools', () => {
+    it('lists all 46 tools with input schemas', () => {
+      const tools = (call('tools/list').result as any).tools;
+      expect(tools.map((t: any) => t.name)).toEqual(ALL_TOOL_NAMES);
+      for (const tool of tools) {
+        expect(tool.description).toBeTruthy();
+        expect(tool.inputSchema.type).toBe('object');
+      }
+    });
+
+    it('marks required and optional params', () => {
+      const search = listMcpTools().find(t => t.name === 'search')!;
+      expect(search.inputSchema.required).toEqual(['query']);
+      expect(search.inputSchema.properties.limit).toMatchObject({ type: 'integer' });
+    });
+
+    it('rejects arguments that do not match the schema', () => {
+      const result = callTool('getTrackerIssue', { issueIdOrKey: 103 });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('/issueIdOrKey must be string');
+    });
+
+    it('executes tools against the session state', () => {
+      const result = callTool('getTrackerIssue', { issueIdOrKey: 'LHR-103' });
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text).key).toBe('LHR-103');
+    });
+
+    it('returns tool failures as isError results', () => {
+      const result = callTool('getPagesDoc', { docId: 'P-999' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+
+    it('marks read-only tools', () => {
+      const tools = listMcpTools();
+      expect(tools.find(t => t.name === 'getPagesDoc')!.annotations.readOnlyHint).toBe(true);
+      expect(tools.find(t => t.name === 'transitionTrackerIssue')!.annotations.readOnlyHint).toBe(false);
+    });
+
+    it('applies the session realism settings', () => {
+      session = createNexusMcpSession('flaky', { realism: { seed: 1, serverErrorRate: 1 } });
+      const result = callTool('getTrackerIssue', { issueIdOrKey: 'LHR-103' });
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text).status).toBeGreaterThanOrEqual(500);
+    });
+
+    it('sends script notifications as a second content item', () => {
+      const scripts: ScenarioScript[] = [state => subscribe(state, 'issue.commented', event => notify(state, 'Irene (Legal)', 'Please hold off', event.target))];
+      session = createNexusMcpSession('scripted', { scripts });
+      expect(callTool('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-103', body: 'Can we move this?' }).content).toHaveLength(1);
+
+      const result = callTool('getTrackerIssue', { issueIdOrKey: 'LHR-103' });
+      expect(result.content[1].text).toBe('Notifications since your last call:\n- [LHR-103] Irene (Legal): Please hold off');
+    });
+
+    it('lists mcp_authorize and grants consent for consent sessions', () => {
+      expect(listTools().some(t => t.name === 'mcp_authorize')).toBe(false);
+
+      session = createNexusMcpSession('consent', { auth: 'consent' });
+      expect(listTools().some(t => t.name === 'mcp_authorize')).toBe(true);
+
+      const denied = callTool('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+      expect(denied.isError).toBe(true);
+      expect(JSON.parse(denied.content[0].text).status).toBe(401);
+
+      expect(callTool('mcp_authorize', { scopes: ['write:tracker-work'] }).isError).toBe(false);
+      expect(callTool('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' }).isError).toBe(false);
+    });
+
+    it('keeps state separate per session', () => {
+      callTool('transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+      const other = createNexusMcpSession('other');
+      expect(other.state.tracker.issues.get('LHR-100')?.status).not.toBe(session.state.tracker.issues.get('LHR-100')?.status);
+    });
+  });
+
+  describe('grading', () => {
+    it('fails a session with no changes', () => {
+      expect(session.grade().status).toBe('FAIL');
+    });
+
+    it('passes the scenario played over MCP', () => {
+      callTool('getPagesDocInlineComments', { docId: 'P-501' });
+      for (const key of ['LHR-100', 'LHR-101', 'LHR-102']) {
+        callTool('transitionTrackerIssue', { issueIdOrKey: key, transitionId: 'T-1' });
+      }
+      callTool('addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'Synced with https://acme.nexus.io/wiki/spaces/SEC/docs/P-501' });
+
+      const result = session.grade();
+      expect(result.status).toBe('SUCCESS');
+      expect(result.rubric?.score).toBe(1);
+    });
+
+    it('fails when LHR-103 is transitioned', () => {
+      callTool('transitionTrackerIssue', { issueIdOrKey: 'LHR-103', transitionId: 'T-1' });
+      expect(session.grade().message).toContain('LHR-103');
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Nexus MCP Server
+ *
+ * Transport-agnostic MCP (JSON-RPC 2.0) handler over the same state and tools as the game.
+ * Supports `initialize`, `ping`, `tools/list` and `tools/call`; one session = one NexusState.
+ * Transports (stdio, Streamable HTTP) live in server/mcp.ts.
+ */
+
+import { ValidationResult } from '../../types';
+import { NexusState, createInitialState } from './state';
+import { ALL_TOOL_NAMES, executeTool } from './tools';
+import { TOOL_DEFINITIONS, getToolInputSchema, validateToolArguments } from './schemas';
+import { RealismConfig, RealismState, createRealismState } from './realism';
+import { ALL_SCOPES, AuthMode, createNexusAuth, grantConsent } from './auth';
+import { ScenarioScript, formatNotifications, runScenarioScripts } from './events';
+import { validateFinalState } from './index';
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const MCP_SERVER_INFO = { name: 'nexus-core', version: '1.0.0' };
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// JSON-RPC error codes
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+} as const;
+
+export interface NexusMcpSession {
+  id: string;
+  state: NexusState;
+  realism?: RealismState;
+  initialized: boolean;
+  // Handle one message or a batch; returns null when there is nothing to send back (notifications)
+  handleMessage: (message: unknown) => JsonRpcResponse | JsonRpcResponse[] | null;
+  // Grade the session's actions against the Lighthouse Retention Roadmap scenario
+  grade: () => ValidationResult;
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+export function listMcpTools() {
+  return TOOL_DEFINITIONS.map(d => ({
+    name: d.name,
+    title: d.title,
+    description: d.description,
+    inputSchema: getToolInputSchema(d.name),
+    annotations: { readOnlyHint: !('mutating' in d && d.mutating) }
+  }));
+}
+
+// Listed only for sessions that start without some scopes they can be granted
+export const AUTHORIZE_TOOL = {
+  name: 'mcp_authorize',
+  title: 'Request Authorization',
+  description: 'Asks the user to consent to additional OAuth scopes for nexus-core. Tools that need a missing scope return 401 with the scope to request. Request only the scopes you need.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      scopes: { type: 'array', items: { type: 'string', enum: ALL_SCOPES }, description: 'The scopes to request.' }
+    },
+    required: ['scopes']
+  },
+  annotations: { readOnlyHint: false }
+};
+
+export interface NexusMcpSessionOptions {
+  // Pagination, rate limits and injected failures (see realism.ts)
+  realism?: RealismConfig;
+  // Scopes granted up front and through consent (see auth.ts)
+  auth?: AuthMode;
+  // Scripts that react to the agent's actions (see events.ts)
+  scripts?: ScenarioScript[];
+}
+
+export function createNexusMcpSession(
+  id: string = `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  options: NexusMcpSessionOptions = {}
+): NexusMcpSession {
+  const session: NexusMcpSession = {
+    id,
+    state: { ...createInitialState(), auth: createNexusAuth(options.auth) },
+    realism: options.realism ? createRealismState(options.realism) : undefined,
+    initialized: false,
+    handleMessage: (message) => {
+      if (Array.isArray(message)) {
+        if (message.length === 0) return errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Empty batch');
+        const responses = message
+          .map(handleSingle)
+          .filter((r): r is JsonRpcResponse => r !== null);
+        return responses.length > 0 ? responses : null;
+      }
+      return handleSingle(message);
+    },
+    grade: () => validateFinalState(session.state)
+  };
+  runScenarioScripts(session.state, options.scripts ?? []);
+
+  function handleSingle(message: unknown): JsonRpcResponse | null {
+    const msg = message as Partial<JsonRpcRequest> | null;
+    if (!msg || typeof msg !== 'object' || msg.jsonrpc !== '2.0' || typeof msg.method !== 'string') {
+      // Responses from the client (e.g. to server requests) carry no method; we never send any
+      const id = msg && typeof msg === 'object' && 'id' in msg ? (msg.id ?? null) : null;
+      return errorResponse(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC request');
+    }
+
+    const isNotification = msg.id === undefined;
+    const id = msg.id ?? null;
+    const params = msg.params ?? {};
+
+    switch (msg.method) {
+      case 'initialize': {
+        const requested = String(params.protocolVersion ?? '');
+        session.initialized = true;
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: MCP_SERVER_INFO,
+            instructions: 'Nexus Cloud (Pages, Tracker, Catalog) for the acme.nexus.io site.'
+          }
+        };
+      }
+
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return null;
+
+      case 'ping':
+        return isNotification ? null : { jsonrpc: '2.0', id, result: {} };
+
+      case 'tools/list': {
+        const tools = session.state.auth.consentableScopes.length > 0
+          ? [...listMcpTools(), AUTHORIZE_TOOL]
+          : listMcpTools();
+        return { jsonrpc: '2.0', id, result: { tools } };
+      }
+
+      case 'tools/call': {
+        const name = params.name;
+        if (name === AUTHORIZE_TOOL.name && session.state.auth.consentableScopes.length > 0) {
+          const scopes = (params.arguments as { scopes?: unknown } | undefined)?.scopes;
+          const result = grantConsent(session.state, Array.isArray(scopes) ? scopes.map(String) : []);
+          const text = result.success
+            ? JSON.stringify({ granted: result.granted, scopes: session.state.auth.grantedScopes })
+            : JSON.stringify({ error: result.error });
+          return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }], isError: !result.success } };
+        }
+        if (typeof name !== 'string' || !ALL_TOOL_NAMES.includes(name)) {
+          return errorResponse(id, JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+        }
+        const args = params.arguments ?? {};
+        if (typeof args !== 'object' || Array.isArray(args)) {
+          return errorResponse(id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Tool arguments must be an object');
+        }
+
+        const argErrors = validateToolArguments(name, args as Record<string, unknown>);
+        if (argErrors.length > 0) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+              content: [{ type: 'text', text: JSON.stringify({ error: `Invalid arguments for ${name}`, details: argErrors }) }],
+              isError: true
+            }
+          };
+        }
+
+        const result = executeTool(
+          { type: 'mcp_tool', serverName: MCP_SERVER_INFO.name, toolName: name, arguments: args as Record<string, unknown> },
+          session.state,
+          session.realism
+        );
+        // Tool failures are reported in the result so the model can see and react to them
+        const content = [{ type: 'text', text: result.output }];
+        if (result.notifications) {
+          content.push({ type: 'text', text: formatNotifications(session.state, result.notifications) });
+        }
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content,
+            isError: !result.success
+          }
+        };
+      }
+
+      default:
+        if (isNotification) return null;
+        return errorResponse(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${msg.method}`);
+    }
+  }
+
+  return session;
+}
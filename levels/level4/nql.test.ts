@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseNql, searchPages } from './nql';
+import { createInitialState, createPagesDoc, NexusState } from './state';
+
+const NOW = new Date('2024-01-10T12:00:00Z');
+
+describe('NQL', () => {
+  let state: NexusState;
+
+  const ids = (nql: string) =>
+    searchPages(state, nql, { now: NOW }).map(r => (r.type === 'doc' ? r.doc.id : r.space.id));
+
+  beforeEach(() => {
+    state = createInitialState();
+    const child = createPagesDoc(state, 'SEC', 'Retention FAQ', 'Questions about the roadmap', 'P-501').docId!;
+    const grandchild = createPagesDoc(state, 'GROW', 'Growth Plan', 'Quarterly growth goals', child).docId!;
+    for (const id of [child, grandchild]) {
+      const doc = state.pages.docs.get(id)!;
+      doc.created = doc.updated = '2024-01-09T09:00:00Z';
+    }
+  });
+
+  it('reports syntax errors with NQL positions', () => {
+    expect(() => parseNql("title ~ 'roadmap' space = SEC")).toThrow(
+      "Error in the NQL query: Expecting either 'OR' or 'AND' but got 'space'. (line 1, character 19)"
+    );
+  });
+
+  it('tells the LIVE roadmap from the Draft', () => {
+    expect(ids("title ~ 'roadmap' AND label = approved")).toEqual(['P-501']);
+    expect(ids("title ~ 'roadmap' AND NOT title ~ draft")).toEqual(['P-501']);
+    expect(ids("text ~ 'Legal sign-off'")).toEqual(['P-501']);
+  });
+
+  it('filters by space, ancestor and parent', () => {
+    expect(ids('space = SEC AND parent IS EMPTY')).toEqual(['P-500', 'P-501']);
+    expect(ids('ancestor = P-501')).toHaveLength(2);
+    expect(ids("ancestor = P-501 AND space.key = 'GROW'")).toHaveLength(1);
+    expect(ids('space IN (GROW, "Security & Compliance")')).toHaveLength(4);
+  });
+
+  it('filters by creator, dates and orders results', () => {
+    expect(ids('creator = currentUser()')).toHaveLength(2);
+    expect(ids("creator = 'Product Manager' ORDER BY lastmodified DESC")).toEqual(['P-501', 'P-500']);
+    expect(ids('created > startOfDay(-2) ORDER BY title')).toEqual([
+      ...ids("title = 'Growth Plan'"),
+      ...ids("title = 'Retention FAQ'")
+    ]);
+  });
+
+  it('returns spaces only when filtering on type', () => {
+    expect(ids('type = space')).toEqual(['S-SEC', 'S-GROW']);
+    expect(ids("type = space AND title ~ growth")).toEqual(['S-GROW']);
+    expect(ids('type = page')).toHaveLength(4);
+    expect(ids("title ~ growth")).toHaveLength(1);
+  });
+
+  it('rejects unknown fields and unsupported operators', () => {
+    expect(() => ids('author = me')).toThrow("Field 'author' does not exist");
+    expect(() => ids('text = roadmap')).toThrow("The operator '=' is not supported by the 'text' field.");
+    expect(() => ids('lastmodified > soon')).toThrow("Date value 'soon' for field 'lastmodified' is invalid");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * NQL (Nexus Query Language)
+ *
+ * Fields for searchPagesUsingNql, on top of the shared grammar in query.ts:
+ * type, id, title, text, space, space.type, ancestor, parent, creator, label,
+ * created and lastmodified.
+ *
+ * Like content search in real wikis, spaces are only returned when the query
+ * filters on `type` (e.g. type = space); otherwise only docs are searched.
+ */
+
+import { NexusState, PagesDoc, PagesSpace } from './state';
+import { FieldRef, ParsedQuery, parseQuery, queryReferencesField, runQuery, unknownFieldError } from './query';
+import { userAliases } from './tql';
+
+export type NqlResult =
+  | { type: 'doc'; doc: PagesDoc }
+  | { type: 'space'; space: PagesSpace };
+
+const present = (...values: Array<string | undefined>) => values.filter((v): v is string => !!v);
+
+function ancestorIds(doc: PagesDoc, state: NexusState): string[] {
+  const ids: string[] = [];
+  let parentId = doc.parentId;
+  // Guard against parent cycles in hand-built fixtures
+  while (parentId && !ids.includes(parentId)) {
+    ids.push(parentId);
+    parentId = state.pages.docs.get(parentId)?.parentId;
+  }
+  return ids;
+}
+
+function resolveNqlField(name: string, state: NexusState): FieldRef<NqlResult> {
+  const spaceOf = (item: NqlResult) =>
+    item.type === 'space' ? item.space : state.pages.spaces.find(s => s.id === item.doc.spaceId);
+  const docField = (get: (doc: PagesDoc) => string[]) =>
+    (item: NqlResult) => (item.type === 'doc' ? get(item.doc) : []);
+
+  switch (name.toLowerCase()) {
+    case 'type':
+      return { kind: 'exact', get: item => (item.type === 'doc' ? ['page', 'doc'] : ['space']) };
+    case 'id':
+    case 'content':
+      return { kind: 'exact', get: item => [item.type === 'doc' ? item.doc.id : item.space.id] };
+    case 'title':
+      return { kind: 'string', get: item => [item.type === 'doc' ? item.doc.title : item.space.name] };
+    case 'text':
+      return {
+        kind: 'text',
+        get: item => item.type === 'space'
+          ? [item.space.name]
+          : [
+              item.doc.title,
+              item.doc.body,
+              ...item.doc.inlineComments.map(c => c.body),
+              ...item.doc.footerComments.map(c => c.body)
+            ]
+      };
+    case 'space':
+    case 'space.key': {
+      return {
+        kind: 'exact',
+        get: item => {
+          const space = spaceOf(item);
+          return space ? [space.key, space.id, space.name] : [];
+        }
+      };
+    }
+    case 'space.type':
+      return { kind: 'exact', get: item => present(spaceOf(item)?.type) };
+    case 'ancestor':
+      return { kind: 'exact', get: docField(doc => ancestorIds(doc, state)) };
+    case 'parent':
+      return { kind: 'exact', get: docField(doc => present(doc.parentId)) };
+    case 'creator':
+      return { kind: 'exact', get: docField(doc => userAliases(state, doc.creator)) };
+    case 'label':
+    case 'labels':
+      return { kind: 'exact', get: docField(doc => doc.labels || []) };
+    case 'created':
+      return { kind: 'date', get: docField(doc => [doc.created]) };
+    case 'lastmodified':
+    case 'updated':
+      return { kind: 'date', get: docField(doc => [doc.updated]) };
+  }
+
+  throw unknownFieldError(name);
+}
+
+export function parseNql(input: string): ParsedQuery {
+  return parseQuery(input, 'NQL');
+}
+
+/**
+ * Run an NQL query against Pages docs (and spaces, when the query filters on type).
+ * Without ORDER BY, docs keep their creation order.
+ */
+export function searchPages(
+  state: NexusState,
+  nql: string,
+  options: { now?: Date } = {}
+): NqlResult[] {
+  const query = parseNql(nql);
+  const items: NqlResult[] = Array.from(state.pages.docs.values()).map(doc => ({ type: 'doc', doc }));
+  if (queryReferencesField(query.where, 'type')) {
+    items.push(...state.pages.spaces.map(space => ({ type: 'space' as const, space })));
+  }
+
+  return runQuery(items, query, {
+    language: 'NQL',
+    resolveField: name => resolveNqlField(name, state),
+    currentUser: state.user.accountId,
+    now: options.now ?? new Date()
+  });
+}
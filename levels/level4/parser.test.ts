@@ -71,6 +71,32 @@ describe('parseToolCall', () => {
     });
   });
 
+  describe('mcp_authorize', () => {
+    it('parses a scope list', () => {
+      const result = parseToolCall(`mcp_authorize("nexus-core", ['write:tracker-work', "write:pages-content"])`);
+      expect(result.success).toBe(true);
+      expect(result.call?.metaFunction).toBe('mcp_authorize');
+      expect(result.call?.serverName).toBe('nexus-core');
+      expect(result.call?.arguments?.scopes).toEqual(['write:tracker-work', 'write:pages-content']);
+    });
+
+    it('accepts a single scope and JSON-RPC format', () => {
+      expect(parseToolCall('mcp_authorize("nexus-core", "write:tracker-work")').call?.arguments?.scopes)
+        .toEqual(['write:tracker-work']);
+      const input = JSON.stringify({
+        name: 'mcp_authorize',
+        arguments: { server_name: 'nexus-core', scopes: ['write:tracker-work'] }
+      });
+      expect(parseToolCall(input).call?.arguments?.scopes).toEqual(['write:tracker-work']);
+    });
+
+    it('fails without scopes', () => {
+      const result = parseToolCall('mcp_authorize("nexus-core")');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('mcp_authorize requires');
+    });
+  });
+
   describe('mcp_tool_use', () => {
     it('parses positional format: mcp_tool_use("server", "tool")', () => {
       const result = parseToolCall('mcp_tool_use("nexus-core", "getPagesDoc")');
@@ -352,10 +378,11 @@ describe('validateToolCall', () => {
       ];
       discoverTools(state, allTools, true);
 
+      // Calls without arguments may still fail schema validation, but never discovery
       for (const tool of allTools) {
         const parsed = parseToolCall(`${tool}()`);
         const validation = validateToolCall(parsed, state);
-        expect(validation.valid).toBe(true);
+        expect(validation.error ?? '').not.toContain('has not been discovered');
       }
     });
   });
@@ -7,9 +7,11 @@
  * - Supports JSON-RPC style: { "name": "mcp_tool_use", "arguments": {...} }
  */
 
+import { getToolDefinition, formatToolSignature, mapPositionalArgs, validateToolArguments } from './schemas';
+
 export interface ParsedToolCall {
   type: 'mcp_meta' | 'mcp_tool';
-  metaFunction?: 'mcp_list_tools' | 'mcp_search_tools' | 'mcp_tool_use';
+  metaFunction?: 'mcp_list_tools' | 'mcp_search_tools' | 'mcp_tool_use' | 'mcp_authorize';
   serverName?: string;
   toolName?: string;
   arguments?: Record<string, unknown>;
@@ -110,6 +112,10 @@ function parseJsonRpc(input: string): ParserResult {
       };
     }
 
+    if (name === 'mcp_authorize') {
+      return parseAuthorizeArgs(args.server_name, args.scopes);
+    }
+
     if (name === 'mcp_tool_use') {
       if (!args.server_name || !args.tool_name) {
         return { success: false, error: 'mcp_tool_use requires server_name and tool_name' };
@@ -199,6 +205,7 @@ function checkBraceBalance(str: string): string | null {
  * - mcp_list_tools("server")
  * - mcp_search_tools("server", "query")
  * - mcp_tool_use("server", "tool", { args })
+ * - mcp_authorize("server", ["scope", ...])
  * - toolName({ args })
  */
 function parseFunctionCall(input: string): ParserResult {
@@ -248,6 +255,23 @@ function parseFunctionCall(input: string): ParserResult {
     };
   }
 
+  // Handle mcp_authorize
+  if (funcName === 'mcp_authorize') {
+    if (argsStr.startsWith('{')) {
+      try {
+        const parsed = parseLooseJson(argsStr);
+        return parseAuthorizeArgs(parsed.server_name, parsed.scopes);
+      } catch (e) {
+        return { success: false, error: `Failed to parse mcp_authorize arguments: ${(e as Error).message}` };
+      }
+    }
+    // mcp_authorize("server", ["a", "b"]) or mcp_authorize("server", "a", "b")
+    const [serverPart = '', ...scopeParts] = splitTopLevelArgs(argsStr);
+    const scopesStr = scopeParts.join(',').trim();
+    const scopes = extractMultipleArgs(scopesStr.startsWith('[') ? scopesStr.slice(1, -1) : scopesStr);
+    return parseAuthorizeArgs(extractStringArg(serverPart), scopes);
+  }
+
   // Handle mcp_tool_use
   if (funcName === 'mcp_tool_use') {
     const result = parseMcpToolUse(argsStr);
@@ -345,6 +369,25 @@ function parseMcpToolUse(argsStr: string): ParserResult {
   };
 }
 
+/**
+ * Build an mcp_authorize call; scopes may be a list or a single scope string
+ */
+function parseAuthorizeArgs(serverName: unknown, scopes: unknown): ParserResult {
+  const scopeList = typeof scopes === 'string' ? [scopes] : scopes;
+  if (!serverName || !Array.isArray(scopeList) || scopeList.length === 0) {
+    return { success: false, error: 'mcp_authorize requires (server_name, scopes), e.g. mcp_authorize("nexus-core", ["write:tracker-work"])' };
+  }
+  return {
+    success: true,
+    call: {
+      type: 'mcp_meta',
+      metaFunction: 'mcp_authorize',
+      serverName: String(serverName),
+      arguments: { scopes: scopeList.map(String) }
+    }
+  };
+}
+
 /**
  * Parse tool arguments - handles both object and positional formats
  */
@@ -510,7 +553,7 @@ function tryParseValue(str: string): unknown {
 }
 
 /**
- * Validate a tool call against discovery state
+ * Validate a tool call against discovery state and the tool's input schema
  */
 export function validateToolCall(
   result: ParserResult,
@@ -535,6 +578,18 @@ export function validateToolCall(
         error: `Tool "${call.toolName}" has not been discovered. Use mcp_list_tools() or mcp_search_tools() first.`
       };
     }
+
+    const definition = getToolDefinition(call.toolName);
+    if (definition) {
+      const args = mapPositionalArgs(call.toolName, call.arguments || {});
+      const errors = validateToolArguments(call.toolName, args);
+      if (errors.length > 0) {
+        return {
+          valid: false,
+          error: `Invalid arguments for ${formatToolSignature(definition)}: ${errors.join('; ')}`
+        };
+      }
+    }
   }
 
   return { valid: true };
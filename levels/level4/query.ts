@@ -0,0 +1,622 @@
+/**
+ * Shared query language engine for TQL (Tracker) and NQL (Pages).
+ *
+ * Both languages share one grammar:
+ * - AND / OR / NOT (also &&, ||, !) with parentheses
+ * - Operators: =, !=, ~, !~, <, <=, >, >=, IN (...), NOT IN (...), IS [NOT] EMPTY
+ * - Date values: '2024-01-31', '2024/01/31 10:00', periods like -7d or '4w 2d',
+ *   and functions such as now(), startOfDay(-1), endOfMonth()
+ * - ORDER BY field [ASC|DESC], ...
+ *
+ * Each language supplies its own fields (see tql.ts and nql.ts).
+ * Syntax errors report the line and character of the problem, like a real tracker.
+ */
+
+export type QueryLanguage = 'TQL' | 'NQL';
+
+export type QueryOperator = '=' | '!=' | '~' | '!~' | '<' | '<=' | '>' | '>=' | 'in' | 'not in' | 'is' | 'is not';
+
+export type QueryValue =
+  | { kind: 'literal'; value: string }
+  | { kind: 'function'; name: string; args: string[] }
+  | { kind: 'empty' };
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'clause'; field: string; operator: QueryOperator; values: QueryValue[] };
+
+export interface QueryOrderBy {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface ParsedQuery {
+  where?: QueryNode;
+  orderBy: QueryOrderBy[];
+}
+
+// ============ TOKENIZER ============
+
+interface Token {
+  kind: 'word' | 'string' | 'op' | 'lparen' | 'rparen' | 'comma' | 'eof';
+  value: string;
+  start: number;
+}
+
+const COMPARISON_OPS = ['!=', '!~', '<=', '>=', '=', '~', '<', '>'];
+const RESERVED_WORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'ORDER', 'BY', 'EMPTY', 'NULL'];
+const WORD_BREAK = /[\s=!~<>(),"'&|]/;
+
+function syntaxError(language: QueryLanguage, input: string, position: number, message: string): Error {
+  const before = input.slice(0, position);
+  const line = before.split('\n').length;
+  const character = position - before.lastIndexOf('\n');
+  return new Error(`Error in the ${language} query: ${message} (line ${line}, character ${character})`);
+}
+
+function tokenize(language: QueryLanguage, input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw syntaxError(language, input, start, `The quoted string starting here is not terminated.`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value, start });
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', value: ch, start: i });
+      i++;
+      continue;
+    }
+
+    // Symbolic boolean operators are normalized to their keyword form
+    if (ch === '&' || ch === '|') {
+      const start = i;
+      i += input[i + 1] === ch ? 2 : 1;
+      tokens.push({ kind: 'word', value: ch === '&' ? 'AND' : 'OR', start });
+      continue;
+    }
+
+    const op = COMPARISON_OPS.find(o => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', value: op, start: i });
+      i += op.length;
+      continue;
+    }
+    if (ch === '!') {
+      tokens.push({ kind: 'word', value: 'NOT', start: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !WORD_BREAK.test(input[i])) i++;
+    tokens.push({ kind: 'word', value: input.slice(start, i), start });
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: input.length });
+  return tokens;
+}
+
+// ============ PARSER ============
+
+/**
+ * Parse a query. Throws with the line/character of the first syntax error.
+ */
+export function parseQuery(input: string, language: QueryLanguage): ParsedQuery {
+  const tokens = tokenize(language, input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isKeyword = (token: Token, keyword: string) =>
+    token.kind === 'word' && token.value.toUpperCase() === keyword;
+  const isReserved = (token: Token) =>
+    token.kind === 'word' && RESERVED_WORDS.includes(token.value.toUpperCase());
+  const describe = (token: Token) => (token.kind === 'eof' ? 'the end of the query' : `'${token.value}'`);
+  const fail = (token: Token, message: string) => syntaxError(language, input, token.start, message);
+
+  function parseOr(): QueryNode {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      next();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): QueryNode {
+    let left = parseNot();
+    while (isKeyword(peek(), 'AND')) {
+      next();
+      left = { type: 'and', left, right: parseNot() };
+    }
+    return left;
+  }
+
+  function parseNot(): QueryNode {
+    const token = peek();
+    if (isKeyword(token, 'NOT')) {
+      next();
+      return { type: 'not', operand: parseNot() };
+    }
+    if (token.kind === 'lparen') {
+      next();
+      const inner = parseOr();
+      const close = next();
+      if (close.kind !== 'rparen') {
+        throw fail(close, `Expecting ')' but got ${describe(close)}.`);
+      }
+      return inner;
+    }
+    return parseClause();
+  }
+
+  function parseFieldName(): string {
+    const token = next();
+    if ((token.kind !== 'word' && token.kind !== 'string') || isReserved(token)) {
+      throw fail(token, `Expecting a field name but got ${describe(token)}.`);
+    }
+    return token.value;
+  }
+
+  function parseOperator(): QueryOperator {
+    const token = next();
+    if (token.kind === 'op') return token.value as QueryOperator;
+    if (isKeyword(token, 'IN')) return 'in';
+    if (isKeyword(token, 'NOT') && isKeyword(peek(), 'IN')) {
+      next();
+      return 'not in';
+    }
+    if (isKeyword(token, 'IS')) {
+      if (isKeyword(peek(), 'NOT')) {
+        next();
+        return 'is not';
+      }
+      return 'is';
+    }
+    throw fail(
+      token,
+      `Expecting operator but got ${describe(token)}. The valid operators are '=', '!=', '~', '!~', '<', '<=', '>', '>=', 'IN', 'NOT IN', 'IS' and 'IS NOT'.`
+    );
+  }
+
+  function parseValue(): QueryValue {
+    const token = next();
+    if (token.kind === 'string') return { kind: 'literal', value: token.value };
+    if (token.kind === 'word' && (isKeyword(token, 'EMPTY') || isKeyword(token, 'NULL'))) return { kind: 'empty' };
+    if (token.kind !== 'word' || isReserved(token)) {
+      throw fail(token, `Expecting a value but got ${describe(token)}.`);
+    }
+    if (peek().kind !== 'lparen') return { kind: 'literal', value: token.value };
+
+    // Function call, e.g. startOfDay(-1) or currentUser()
+    next();
+    const args: string[] = [];
+    while (peek().kind !== 'rparen') {
+      const arg = next();
+      if (arg.kind !== 'word' && arg.kind !== 'string') {
+        throw fail(arg, `Expecting a function argument or ')' but got ${describe(arg)}.`);
+      }
+      args.push(arg.value);
+      if (peek().kind === 'comma') next();
+      else if (peek().kind !== 'rparen') throw fail(peek(), `Expecting ',' or ')' but got ${describe(peek())}.`);
+    }
+    next();
+    return { kind: 'function', name: token.value, args };
+  }
+
+  function parseClause(): QueryNode {
+    const field = parseFieldName();
+    const operator = parseOperator();
+
+    if (operator === 'is' || operator === 'is not') {
+      const token = next();
+      if (!isKeyword(token, 'EMPTY') && !isKeyword(token, 'NULL')) {
+        throw fail(token, `Expecting 'EMPTY' or 'NULL' but got ${describe(token)}.`);
+      }
+      return { type: 'clause', field, operator, values: [{ kind: 'empty' }] };
+    }
+
+    if (operator === 'in' || operator === 'not in') {
+      // List function, e.g. sprint IN openSprints()
+      if (peek().kind === 'word' && tokens[pos + 1]?.kind === 'lparen') {
+        return { type: 'clause', field, operator, values: [parseValue()] };
+      }
+      const open = next();
+      if (open.kind !== 'lparen') {
+        throw fail(open, `Expecting '(' after '${operator.toUpperCase()}' but got ${describe(open)}.`);
+      }
+      const values: QueryValue[] = [parseValue()];
+      while (peek().kind === 'comma') {
+        next();
+        values.push(parseValue());
+      }
+      const close = next();
+      if (close.kind !== 'rparen') {
+        throw fail(close, `Expecting ',' or ')' but got ${describe(close)}.`);
+      }
+      return { type: 'clause', field, operator, values };
+    }
+
+    return { type: 'clause', field, operator, values: [parseValue()] };
+  }
+
+  function parseOrderBy(): QueryOrderBy[] {
+    next(); // ORDER
+    const by = next();
+    if (!isKeyword(by, 'BY')) {
+      throw fail(by, `Expecting 'BY' but got ${describe(by)}.`);
+    }
+    const orderBy: QueryOrderBy[] = [];
+    do {
+      if (orderBy.length > 0) next(); // comma
+      const field = parseFieldName();
+      let direction: 'ASC' | 'DESC' = 'ASC';
+      if (isKeyword(peek(), 'ASC') || isKeyword(peek(), 'DESC')) {
+        direction = next().value.toUpperCase() as 'ASC' | 'DESC';
+      }
+      orderBy.push({ field, direction });
+    } while (peek().kind === 'comma');
+    return orderBy;
+  }
+
+  const query: ParsedQuery = { orderBy: [] };
+  if (peek().kind !== 'eof' && !isKeyword(peek(), 'ORDER')) {
+    query.where = parseOr();
+  }
+  if (isKeyword(peek(), 'ORDER')) {
+    query.orderBy = parseOrderBy();
+  }
+  if (peek().kind !== 'eof') {
+    const expected = query.orderBy.length > 0 ? "',' or the end of the query" : "either 'OR' or 'AND'";
+    throw fail(peek(), `Expecting ${expected} but got ${describe(peek())}.`);
+  }
+
+  return query;
+}
+
+/**
+ * Whether any clause in the query filters on `field`
+ */
+export function queryReferencesField(node: QueryNode | undefined, field: string): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return queryReferencesField(node.left, field) || queryReferencesField(node.right, field);
+    case 'not':
+      return queryReferencesField(node.operand, field);
+    case 'clause':
+      return node.field.toLowerCase() === field.toLowerCase();
+  }
+}
+
+// ============ FIELDS ============
+
+/**
+ * How a field compares and which operators it accepts:
+ * - text: free text, only ~ / !~ (e.g. summary, text)
+ * - exact: =, IN (e.g. status, labels)
+ * - string: exact or ~ matching (e.g. page titles)
+ * - key: PROJ-123 style keys, ordered by number
+ * - ordinal: ordered by `ranks` (e.g. priority)
+ * - date: ISO timestamps
+ * - custom: anything goes, numbers compare numerically
+ */
+export type FieldKind = 'text' | 'exact' | 'string' | 'key' | 'ordinal' | 'date' | 'custom';
+
+export interface FieldRef<T> {
+  kind: FieldKind;
+  // All values of the field on the item; empty when the field is not set
+  get: (item: T) => string[];
+  ranks?: Record<string, number>;
+}
+
+export interface QueryContext<T> {
+  language: QueryLanguage;
+  // Throws for unknown fields
+  resolveField: (name: string) => FieldRef<T>;
+  // Account ID returned by currentUser()
+  currentUser: string;
+  // Functions that expand to a list of values, e.g. openSprints() in TQL
+  functions?: Record<string, (args: string[]) => string[]>;
+  now: Date;
+}
+
+const SUPPORTED_OPERATORS: Record<FieldKind, QueryOperator[]> = {
+  text: ['~', '!~', 'is', 'is not'],
+  exact: ['=', '!=', 'in', 'not in', 'is', 'is not'],
+  string: ['=', '!=', '~', '!~', 'in', 'not in', 'is', 'is not'],
+  key: ['=', '!=', 'in', 'not in', '<', '<=', '>', '>='],
+  ordinal: ['=', '!=', 'in', 'not in', 'is', 'is not', '<', '<=', '>', '>='],
+  date: ['=', '!=', 'in', 'not in', 'is', 'is not', '<', '<=', '>', '>='],
+  custom: ['=', '!=', '~', '!~', 'in', 'not in', 'is', 'is not', '<', '<=', '>', '>='],
+};
+
+export function unknownFieldError(name: string): Error {
+  return new Error(`Field '${name}' does not exist or you do not have permission to view it.`);
+}
+
+// ============ VALUES ============
+
+const DURATION_MS: Record<string, number> = { w: 7 * 86400000, d: 86400000, h: 3600000, m: 60000 };
+
+/**
+ * Period such as -7d, 2w or '4w 2d', relative to now
+ */
+function parsePeriod(value: string): number | undefined {
+  const match = value.trim().match(/^([+-])?((?:\s*\d+\s*[wdhm])+)$/);
+  if (!match) return undefined;
+  const sign = match[1] === '-' ? -1 : 1;
+  let total = 0;
+  for (const [, amount, unit] of match[2].matchAll(/(\d+)\s*([wdhm])/g)) {
+    total += Number(amount) * DURATION_MS[unit];
+  }
+  return sign * total;
+}
+
+function parseDate(field: string, value: string, now: Date): number {
+  const period = parsePeriod(value);
+  if (period !== undefined) return now.getTime() + period;
+
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  if (match) {
+    const [, y, mo, d, h = '0', mi = '0'] = match;
+    return Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi));
+  }
+
+  throw new Error(
+    `Date value '${value}' for field '${field}' is invalid. Valid formats include: 'yyyy/MM/dd HH:mm', 'yyyy-MM-dd HH:mm', 'yyyy/MM/dd', 'yyyy-MM-dd', or a period format e.g. '-5d', '4w 2d'.`
+  );
+}
+
+type CalendarUnit = 'day' | 'week' | 'month' | 'year';
+
+const DATE_FUNCTIONS: Record<string, { unit: CalendarUnit; end: boolean }> = {
+  startofday: { unit: 'day', end: false },
+  endofday: { unit: 'day', end: true },
+  startofweek: { unit: 'week', end: false },
+  endofweek: { unit: 'week', end: true },
+  startofmonth: { unit: 'month', end: false },
+  endofmonth: { unit: 'month', end: true },
+  startofyear: { unit: 'year', end: false },
+  endofyear: { unit: 'year', end: true },
+};
+
+// Start of the calendar unit containing `date` (UTC, weeks start on Monday)
+function startOf(date: Date, unit: CalendarUnit): Date {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (unit === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (unit === 'month' || unit === 'year') d.setUTCDate(1);
+  if (unit === 'year') d.setUTCMonth(0);
+  return d;
+}
+
+function addCalendar(date: Date, amount: number, unit: string): Date {
+  const d = new Date(date.getTime());
+  switch (unit) {
+    case 'y': d.setUTCFullYear(d.getUTCFullYear() + amount); break;
+    case 'M': d.setUTCMonth(d.getUTCMonth() + amount); break;
+    case 'w': d.setUTCDate(d.getUTCDate() + amount * 7); break;
+    case 'd': d.setUTCDate(d.getUTCDate() + amount); break;
+    case 'h': d.setTime(d.getTime() + amount * 3600000); break;
+    case 'm': d.setTime(d.getTime() + amount * 60000); break;
+  }
+  return d;
+}
+
+function evaluateDateFunction(language: QueryLanguage, name: string, args: string[], now: Date): number {
+  if (name.toLowerCase() === 'now') return now.getTime();
+
+  const fn = DATE_FUNCTIONS[name.toLowerCase()];
+  if (!fn) throw new Error(`Unable to find ${language} function '${name}()'.`);
+
+  const unitSymbol = { day: 'd', week: 'w', month: 'M', year: 'y' }[fn.unit];
+  let date = startOf(now, fn.unit);
+  if (fn.end) date = new Date(addCalendar(date, 1, unitSymbol).getTime() - 1);
+
+  // Optional increment, e.g. startOfDay(-1) or endOfMonth("+1w")
+  if (args[0]) {
+    const match = args[0].trim().match(/^([+-]?\d+)([yMwdhm])?$/);
+    if (!match) {
+      throw new Error(`The function '${name}' has an invalid increment '${args[0]}'. Use a value such as -1, +2d or -3w.`);
+    }
+    date = addCalendar(date, Number(match[1]), match[2] || unitSymbol);
+  }
+  return date.getTime();
+}
+
+// ============ EVALUATION ============
+
+type Predicate<T> = (item: T) => boolean;
+
+function compareKeys(a: string, b: string): number {
+  const [pa, na] = a.split('-');
+  const [pb, nb] = b.split('-');
+  return pa.localeCompare(pb) || (Number(na) || 0) - (Number(nb) || 0);
+}
+
+function compileClause<T>(node: Extract<QueryNode, { type: 'clause' }>, ctx: QueryContext<T>): Predicate<T> {
+  const field = ctx.resolveField(node.field);
+  const isEmptyCheck = node.values.some(v => v.kind === 'empty');
+  let operator = node.operator;
+
+  // `= EMPTY` and `!= EMPTY` are accepted as IS / IS NOT
+  if (isEmptyCheck && operator === '=') operator = 'is';
+  if (isEmptyCheck && operator === '!=') operator = 'is not';
+
+  if (!SUPPORTED_OPERATORS[field.kind].includes(operator)) {
+    throw new Error(`The operator '${operator.toUpperCase()}' is not supported by the '${node.field}' field.`);
+  }
+
+  if (operator === 'is') return item => field.get(item).length === 0;
+  if (operator === 'is not') return item => field.get(item).length > 0;
+
+  // Resolve every target value up front so invalid dates and functions fail even with nothing to match
+  const targets = node.values.flatMap((value): Array<string | number> => {
+    if (value.kind === 'empty') {
+      throw new Error(`EMPTY can only be used with IS, IS NOT, = and !=.`);
+    }
+    if (value.kind === 'function' && value.name.toLowerCase() === 'currentuser') {
+      return [ctx.currentUser];
+    }
+    const listFunction = value.kind === 'function' ? ctx.functions?.[value.name.toLowerCase()] : undefined;
+    if (value.kind === 'function' && listFunction) {
+      return listFunction(value.args);
+    }
+    if (field.kind === 'date') {
+      return [value.kind === 'function'
+        ? evaluateDateFunction(ctx.language, value.name, value.args, ctx.now)
+        : parseDate(node.field, value.value, ctx.now)];
+    }
+    if (value.kind === 'function') {
+      throw new Error(`Unable to find ${ctx.language} function '${value.name}()'.`);
+    }
+    return [value.value];
+  });
+
+  // -1 / 0 / 1 ordering of an item value against a target value; NaN when they don't compare
+  const compare = (actual: string, target: string | number): number => {
+    switch (field.kind) {
+      case 'date':
+        return Math.sign(Date.parse(actual) - (target as number));
+      case 'key':
+        return Math.sign(compareKeys(actual.toUpperCase(), String(target).toUpperCase()));
+      case 'ordinal': {
+        const ranks = field.ranks || {};
+        return Math.sign(ranks[actual.toLowerCase()] - ranks[String(target).toLowerCase()]);
+      }
+      default: {
+        const a = Number(actual);
+        const b = Number(target);
+        if (actual !== '' && String(target) !== '' && !isNaN(a) && !isNaN(b)) return Math.sign(a - b);
+        return Math.sign(actual.toLowerCase().localeCompare(String(target).toLowerCase()));
+      }
+    }
+  };
+
+  const equals = (actual: string, target: string | number) =>
+    field.kind === 'date' ? Date.parse(actual) === target : actual.toLowerCase() === String(target).toLowerCase();
+
+  // `~` matches when every word of the term appears in the value; `*` wildcards are implied
+  const contains = (actual: string, target: string | number) =>
+    String(target)
+      .toLowerCase()
+      .replace(/\*/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .every(word => actual.toLowerCase().includes(word));
+
+  const any = (item: T, test: (actual: string, target: string | number) => boolean) =>
+    field.get(item).some(actual => targets.some(target => test(actual, target)));
+
+  // Negative operators never match items where the field is empty
+  const none = (item: T, test: (actual: string, target: string | number) => boolean) =>
+    field.get(item).length > 0 && !any(item, test);
+
+  switch (operator) {
+    case '=':
+    case 'in':
+      return item => any(item, equals);
+    case '!=':
+    case 'not in':
+      return item => none(item, equals);
+    case '~':
+      return item => any(item, contains);
+    case '!~':
+      return item => none(item, contains);
+    case '<':
+      return item => any(item, (a, t) => compare(a, t) < 0);
+    case '<=':
+      return item => any(item, (a, t) => compare(a, t) <= 0);
+    case '>':
+      return item => any(item, (a, t) => compare(a, t) > 0);
+    case '>=':
+      return item => any(item, (a, t) => compare(a, t) >= 0);
+  }
+}
+
+function compile<T>(node: QueryNode, ctx: QueryContext<T>): Predicate<T> {
+  switch (node.type) {
+    case 'and': {
+      const left = compile(node.left, ctx);
+      const right = compile(node.right, ctx);
+      return item => left(item) && right(item);
+    }
+    case 'or': {
+      const left = compile(node.left, ctx);
+      const right = compile(node.right, ctx);
+      return item => left(item) || right(item);
+    }
+    case 'not': {
+      const operand = compile(node.operand, ctx);
+      return item => !operand(item);
+    }
+    case 'clause':
+      return compileClause(node, ctx);
+  }
+}
+
+function sortItems<T>(items: T[], orderBy: QueryOrderBy[], ctx: QueryContext<T>): T[] {
+  const sorters = orderBy.map(({ field: name, direction }) => {
+    const field = ctx.resolveField(name);
+    const sortKey = (item: T): string | number | undefined => {
+      const value = field.get(item)[0];
+      if (value === undefined) return undefined;
+      if (field.kind === 'date') return Date.parse(value);
+      if (field.kind === 'ordinal') return field.ranks?.[value.toLowerCase()] ?? 0;
+      return value.toLowerCase();
+    };
+    return { field, sortKey, sign: direction === 'DESC' ? -1 : 1 };
+  });
+
+  return [...items].sort((a, b) => {
+    for (const { field, sortKey, sign } of sorters) {
+      const ka = sortKey(a);
+      const kb = sortKey(b);
+      if (ka === kb) continue;
+      // Empty values always sort last
+      if (ka === undefined) return 1;
+      if (kb === undefined) return -1;
+      const diff = field.kind === 'key'
+        ? compareKeys(String(ka).toUpperCase(), String(kb).toUpperCase())
+        : typeof ka === 'number' && typeof kb === 'number'
+          ? ka - kb
+          : String(ka).localeCompare(String(kb));
+      if (diff !== 0) return sign * diff;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Filter and order items with a parsed query.
+ * Without ORDER BY, items keep their original order.
+ */
+export function runQuery<T>(items: T[], query: ParsedQuery, ctx: QueryContext<T>): T[] {
+  const matches = query.where ? compile(query.where, ctx) : () => true;
+  const results = items.filter(matches);
+  return query.orderBy.length > 0 ? sortItems(results, query.orderBy, ctx) : results;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRealismState, getRealismPreset, RealismConfig, RealismState } from './realism';
+import { executeTool } from './tools';
+import { createInitialState, NexusState, wasInlineCommentsRead } from './state';
+
+describe('Realism layer', () => {
+  let state: NexusState;
+  let clock: number;
+
+  const realismWith = (config: Omit<RealismConfig, 'seed'>, seed = 1): RealismState =>
+    createRealismState({ seed, ...config }, () => clock);
+
+  const run = (realism: RealismState, toolName: string, args: Record<string, unknown> = {}) =>
+    executeTool({ type: 'mcp_tool', toolName, arguments: args }, state, realism);
+
+  beforeEach(() => {
+    state = createInitialState();
+    clock = 1_000_000;
+  });
+
+  describe('pagination', () => {
+    it('caps list tools at pageSize and continues with their page token', () => {
+      const realism = realismWith({ pageSize: 3 });
+      const first = JSON.parse(run(realism, 'searchTrackerIssuesUsingTql', { tql: 'project = LHR', limit: 10 }).output);
+      expect(first.issues.map((i: any) => i.key)).toEqual(['LHR-100', 'LHR-101', 'LHR-102']);
+      expect(first).toMatchObject({ total: 4, maxResults: 3 });
+
+      const second = JSON.parse(run(realism, 'searchTrackerIssuesUsingTql', {
+        tql: 'project = LHR', pageToken: first.nextPageToken
+      }).output);
+      expect(second.issues.map((i: any) => i.key)).toEqual(['LHR-103']);
+      expect(second.nextPageToken).toBeUndefined();
+    });
+
+    it('pages reach every result the total counts', () => {
+      const realism = realismWith({ pageSize: 1 });
+      const seen: string[] = [];
+      let output: any = { nextPageToken: undefined };
+      do {
+        output = JSON.parse(run(realism, 'search', { query: 'lighthouse', pageToken: output.nextPageToken }).output);
+        seen.push(...output.results.map((r: any) => r.id));
+      } while (output.nextPageToken);
+      expect(seen).toHaveLength(output.total);
+      expect(output.total).toBeGreaterThan(1);
+    });
+
+    it('leaves short lists and other tools alone', () => {
+      const realism = realismWith({ pageSize: 3 });
+      expect(JSON.parse(run(realism, 'getPagesSpaces').output).nextPageToken).toBeUndefined();
+      expect(JSON.parse(run(realism, 'getPagesDocInlineComments', { docId: 'P-501' }).output).results).toHaveLength(1);
+      expect(run(realism, 'getPagesSpaces', { pageToken: 'nope' }).error).toContain('Invalid page token');
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('returns 429 with Retry-After and recovers once the window passes', () => {
+      const realism = realismWith({ rateLimit: { requests: 2, windowSeconds: 10 } });
+      expect(run(realism, 'nexusUserInfo').success).toBe(true);
+      clock += 4000;
+      expect(run(realism, 'nexusUserInfo').success).toBe(true);
+
+      const limited = run(realism, 'nexusUserInfo');
+      expect(limited.status).toBe(429);
+      expect(limited.retryAfter).toBe(6);
+      expect(limited.error).toContain('Retry after 6 seconds');
+
+      clock += 6000;
+      expect(run(realism, 'nexusUserInfo').success).toBe(true);
+    });
+  });
+
+  describe('transient failures', () => {
+    it('fails with 5xx before executing', () => {
+      const realism = realismWith({ serverErrorRate: 1 });
+      const result = run(realism, 'transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+      expect([500, 502, 503]).toContain(result.status);
+      expect(state.tracker.issues.get('LHR-100')?.status).toBe('To Do');
+    });
+
+    it('is deterministic for a seed', () => {
+      const outcomes = (seed: number) => {
+        const realism = realismWith({ serverErrorRate: 0.5 }, seed);
+        return Array.from({ length: 20 }, () => run(realism, 'nexusUserInfo').status ?? 200);
+      };
+      expect(outcomes(42)).toEqual(outcomes(42));
+      expect(outcomes(42)).not.toEqual(outcomes(7));
+      expect(outcomes(42)).toContain(200);
+    });
+  });
+
+  describe('stale reads', () => {
+    it('serves pre-write state inside the window', () => {
+      const realism = realismWith({ staleReadSeconds: 5, staleReadRate: 1 });
+      run(realism, 'transitionTrackerIssue', { issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+
+      const stale = JSON.parse(run(realism, 'getTrackerIssue', { issueIdOrKey: 'LHR-100' }).output);
+      expect(stale.fields.status.name).toBe('To Do');
+
+      clock += 5000;
+      const fresh = JSON.parse(run(realism, 'getTrackerIssue', { issueIdOrKey: 'LHR-100' }).output);
+      expect(fresh.fields.status.name).toBe('In Progress');
+    });
+
+    it('applies writes to the live state and keeps read tracking', () => {
+      const realism = realismWith({ staleReadSeconds: 5, staleReadRate: 1 });
+      run(realism, 'addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'first' });
+      run(realism, 'addCommentToTrackerIssue', { issueIdOrKey: 'LHR-100', body: 'second' });
+      expect(state.tracker.issues.get('LHR-100')?.comments).toHaveLength(2);
+
+      run(realism, 'getPagesDocInlineComments', { docId: 'P-501' });
+      expect(wasInlineCommentsRead(state, 'P-501')).toBe(true);
+    });
+  });
+
+  describe('concurrent edits', () => {
+    it('has another user edit a doc right after the agent reads it', () => {
+      const realism = realismWith({ concurrentEditRate: 1 });
+      const read = JSON.parse(run(realism, 'getPagesDoc', { docId: 'P-501', 'body-format': 'markdown' }).output);
+      expect(read.version.number).toBe(3);
+      expect(state.pages.docs.get('P-501')?.history[3]).toMatchObject({ number: 4, author: 'Product Manager', message: 'Reviewed' });
+
+      const stale = run(realism, 'updatePagesDoc', { docId: 'P-501', body: `${read.body.markdown.value}\nMine`, version: 3, 'body-format': 'markdown' });
+      expect(stale.status).toBe(409);
+
+      // Only the first read of each doc triggers an edit
+      const latest = JSON.parse(run(realism, 'getPagesDoc', { docId: 'P-501', 'body-format': 'markdown' }).output);
+      expect(latest.version.number).toBe(4);
+      expect(latest.body.markdown.value).toContain('_Reviewed by Product Manager._');
+      const merged = run(realism, 'updatePagesDoc', { docId: 'P-501', body: `${latest.body.markdown.value}\nMine`, version: 4, 'body-format': 'markdown' });
+      expect(merged.success).toBe(true);
+    });
+  });
+
+  it('rejects unknown presets', () => {
+    expect(getRealismPreset('production', 3)).toMatchObject({ seed: 3, pageSize: 5 });
+    expect(() => getRealismPreset('chaos')).toThrow('Unknown realism preset "chaos"');
+  });
+});
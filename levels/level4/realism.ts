@@ -0,0 +1,194 @@
+/**
+ * Nexus Realism Layer
+ *
+ * Optional wrapper around tool execution that behaves like a production API:
+ * - Pagination: list tools return at most `pageSize` results per call, continued with
+ *   their `pageToken`/`nextPageToken`
+ * - Rate limiting: 429 with Retry-After once too many calls land in a window
+ * - Transient failures: random 500/502/503 responses
+ * - Stale reads: shortly after a write, reads may still see the pre-write state
+ * - Concurrent edits: another user may edit a doc right after the agent reads it,
+ *   so an update based on what was read fails with 409 Conflict
+ *
+ * All randomness comes from a seeded PRNG and time from an injectable clock,
+ * so a given seed and call sequence always produces the same responses.
+ */
+
+import type { ToolResult } from './tools';
+import { NexusState, editPagesDocAsUser, getAuthorName } from './state';
+import { getToolDefinition } from './schemas';
+
+export interface RealismConfig {
+  seed: number;
+  // Cap the `limit` of list tools at this many items
+  pageSize?: number;
+  // At most `requests` calls per sliding window of `windowSeconds`
+  rateLimit?: { requests: number; windowSeconds: number };
+  // Probability (0-1) that a call fails with a 5xx
+  serverErrorRate?: number;
+  // For this many seconds after a write, reads may return the pre-write state
+  staleReadSeconds?: number;
+  // Probability (0-1) that a read inside the stale window is stale (default 0.5)
+  staleReadRate?: number;
+  // Probability (0-1) that another user edits a doc right after the agent first reads it
+  concurrentEditRate?: number;
+}
+
+export const REALISM_PRESETS: Record<string, Omit<RealismConfig, 'seed'>> = {
+  paginated: { pageSize: 3 },
+  collaborative: { concurrentEditRate: 1 },
+  flaky: { serverErrorRate: 0.2, rateLimit: { requests: 5, windowSeconds: 10 } },
+  production: {
+    pageSize: 5,
+    rateLimit: { requests: 10, windowSeconds: 10 },
+    serverErrorRate: 0.05,
+    staleReadSeconds: 10,
+    staleReadRate: 0.5
+  },
+};
+
+export interface RealismState {
+  config: RealismConfig;
+  now: () => number; // ms
+  random: () => number; // [0, 1)
+  callTimes: number[]; // Accepted calls inside the rate limit window
+  staleSnapshot?: { state: NexusState; until: number };
+  editedDocs: string[]; // Docs another user has already edited
+}
+
+/**
+ * Build a config from a preset name, e.g. for CLI flags
+ */
+export function getRealismPreset(name: string, seed: number = 1): RealismConfig {
+  const preset = REALISM_PRESETS[name];
+  if (!preset) {
+    throw new Error(`Unknown realism preset "${name}". Available: ${Object.keys(REALISM_PRESETS).join(', ')}`);
+  }
+  return { ...preset, seed };
+}
+
+// mulberry32: small, fast, and good enough for fault injection
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createRealismState(config: RealismConfig, now: () => number = Date.now): RealismState {
+  return { config, now, random: createRandom(config.seed), callTimes: [], editedDocs: [] };
+}
+
+const SERVER_ERRORS = [
+  { status: 500, message: 'Internal Server Error: An unexpected error occurred. Please try again.' },
+  { status: 502, message: 'Bad Gateway: The upstream service did not respond. Please try again.' },
+  { status: 503, message: 'Service Unavailable: nexus-core is temporarily unavailable. Please try again.' },
+];
+
+function errorResult(status: number, error: string, extra: Record<string, unknown> = {}): ToolResult {
+  return {
+    success: false,
+    output: JSON.stringify({ status, error, ...extra }),
+    error: `${status} ${error}`,
+    status,
+    ...(typeof extra.retryAfter === 'number' ? { retryAfter: extra.retryAfter } : {})
+  };
+}
+
+// List tools are the ones with a `limit`; they page with `pageToken` themselves
+function isListTool(toolName: string): boolean {
+  return getToolDefinition(toolName)?.params.some(p => p.name === 'limit') ?? false;
+}
+
+// A small edit by the doc's creator, or by someone else on the site when the agent created it
+function editAsAnotherUser(state: NexusState, docId: string): void {
+  const doc = state.pages.docs.get(docId);
+  if (!doc) return;
+  const author = doc.creator && doc.creator !== state.user.accountId
+    ? doc.creator
+    : state.users[0]?.accountId ?? 'A teammate';
+  editPagesDocAsUser(state, docId, author, { body: `${doc.body}\n\n_Reviewed by ${getAuthorName(state, author)}._` }, 'Reviewed');
+}
+
+/**
+ * Run a tool through the realism layer. `run` is the raw executor; it throws on failure.
+ */
+export function executeWithRealism(
+  realism: RealismState,
+  toolName: string,
+  args: Record<string, unknown>,
+  state: NexusState,
+  run: (args: Record<string, unknown>, state: NexusState) => unknown
+): ToolResult {
+  const { config } = realism;
+  const now = realism.now();
+
+  // 1. Rate limit (rejected calls don't count against the window)
+  if (config.rateLimit) {
+    const windowMs = config.rateLimit.windowSeconds * 1000;
+    realism.callTimes = realism.callTimes.filter(t => now - t < windowMs);
+    if (realism.callTimes.length >= config.rateLimit.requests) {
+      const retryAfter = Math.max(1, Math.ceil((realism.callTimes[0] + windowMs - now) / 1000));
+      return errorResult(429, `Too Many Requests: Rate limit exceeded. Retry after ${retryAfter} seconds.`, { retryAfter });
+    }
+    realism.callTimes.push(now);
+  }
+
+  // 2. Transient server errors, before anything is executed
+  if (config.serverErrorRate && realism.random() < config.serverErrorRate) {
+    const { status, message } = SERVER_ERRORS[Math.floor(realism.random() * SERVER_ERRORS.length)];
+    return errorResult(status, message);
+  }
+
+  // 3. Pagination: the tool returns one page, with a total and nextPageToken that agree with it
+  const toolArgs = config.pageSize && isListTool(toolName)
+    ? { ...args, limit: Math.min(Number(args.limit) || config.pageSize, config.pageSize) }
+    : args;
+  try {
+    // 4. Stale reads: serve reads from the snapshot taken before recent writes
+    if (realism.staleSnapshot && now >= realism.staleSnapshot.until) {
+      realism.staleSnapshot = undefined;
+    }
+
+    let result: unknown;
+    const stale = realism.staleSnapshot;
+    if (getToolDefinition(toolName)?.mutating) {
+      const before = config.staleReadSeconds ? structuredClone(state) : undefined;
+      const actionCount = state.actionLog.length;
+      result = run(toolArgs, state);
+      // The first write opens the stale window; later writes extend it
+      if (before && state.actionLog.length > actionCount) {
+        realism.staleSnapshot = { state: stale?.state ?? before, until: now + config.staleReadSeconds! * 1000 };
+      }
+    } else if (stale && realism.random() < (config.staleReadRate ?? 0.5)) {
+      // Permissions are never stale
+      stale.state.auth = state.auth;
+      const readCount = stale.state.readLog.length;
+      result = run(toolArgs, stale.state);
+      // Keep read tracking on the live state so grading still sees the read
+      state.readLog.push(...stale.state.readLog.slice(readCount));
+    } else {
+      result = run(toolArgs, state);
+    }
+
+    // 5. Concurrent edits: the doc just read changes under the agent
+    if (config.concurrentEditRate && toolName === 'getPagesDoc') {
+      const docId = String(toolArgs.docId);
+      if (!realism.editedDocs.includes(docId) && realism.random() < config.concurrentEditRate) {
+        realism.editedDocs.push(docId);
+        editAsAnotherUser(state, docId);
+      }
+    }
+
+    return { success: true, output: JSON.stringify(result, null, 2) };
+  } catch (e) {
+    const error = (e as Error).message;
+    const status = (e as { status?: number }).status;
+    if (status) return errorResult(status, error);
+    return { success: false, output: JSON.stringify({ error }), error };
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TOOL_DEFINITIONS,
+  POSITIONAL_ARG_MAPS,
+  getToolInputSchema,
+  mapPositionalArgs,
+  validateToolArguments,
+  formatToolSignature,
+} from './schemas';
+import { executeTool } from './tools';
+import { createInitialState } from './state';
+import { parseToolCall, validateToolCall, createDiscoveryState, discoverTools } from './parser';
+
+describe('Tool definitions', () => {
+  it('defines all 46 tools', () => {
+    expect(TOOL_DEFINITIONS).toHaveLength(46);
+  });
+
+  it('has an executor for every definition', () => {
+    for (const { name } of TOOL_DEFINITIONS) {
+      const result = executeTool({ type: 'mcp_tool', toolName: name, arguments: {} }, createInitialState());
+      expect(result.error ?? '').not.toContain('Unknown tool');
+    }
+  });
+
+  it('derives positional order from the params', () => {
+    expect(POSITIONAL_ARG_MAPS.updatePagesDoc).toEqual(['docId', 'title', 'body', 'version']);
+    expect(POSITIONAL_ARG_MAPS.nexusUserInfo).toBeUndefined();
+    expect(mapPositionalArgs('transitionTrackerIssue', { arg0: 'LHR-100', arg1: 'T-1' }))
+      .toEqual({ issueIdOrKey: 'LHR-100', transitionId: 'T-1' });
+  });
+
+  it('includes non-positional params in the schema', () => {
+    const schema = getToolInputSchema('searchTrackerIssuesUsingTql');
+    expect(Object.keys(schema.properties)).toEqual(['tql', 'limit', 'startAt', 'pageToken']);
+    expect(schema.required).toEqual(['tql']);
+    expect(getToolInputSchema('createCatalogComponent').properties.type.enum).toContain('LIBRARY');
+  });
+
+  it('formats easy-mode signatures', () => {
+    const search = TOOL_DEFINITIONS.find(d => d.name === 'search')!;
+    expect(formatToolSignature(search)).toBe('search(query, cloudId?, limit?)');
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('accepts valid arguments and extra properties', () => {
+    expect(validateToolArguments('search', { query: 'roadmap', limit: 3, extra: true })).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateToolArguments('transitionTrackerIssue', { issueIdOrKey: 'LHR-100' }))
+      .toEqual(["must have required property 'transitionId'"]);
+  });
+
+  it('reports wrong types', () => {
+    expect(validateToolArguments('search', { query: 'x', limit: '5' })).toEqual(['/limit must be integer']);
+    expect(validateToolArguments('search', { query: 'x', limit: 2.5 })).toEqual(['/limit must be integer']);
+    expect(validateToolArguments('editTrackerIssue', { issueIdOrKey: 'LHR-100', fields: 'summary' }))
+      .toEqual(['/fields must be object']);
+  });
+
+  it('reports values outside an enum', () => {
+    expect(validateToolArguments('createCatalogCustomFieldDefinition', { name: 'Tier', type: 'DATE' }))
+      .toEqual(['/type must be equal to one of the allowed values: TEXT, NUMBER, BOOLEAN, USER']);
+  });
+});
+
+describe('validateToolCall with schemas', () => {
+  const discovered = () => {
+    const discovery = createDiscoveryState();
+    discoverTools(discovery, TOOL_DEFINITIONS.map(d => d.name), true);
+    return discovery;
+  };
+
+  it('checks positional arguments against the schema', () => {
+    const result = validateToolCall(parseToolCall('transitionTrackerIssue("LHR-100")'), discovered());
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe(
+      "Invalid arguments for transitionTrackerIssue(issueIdOrKey, transitionId, fields?): must have required property 'transitionId'"
+    );
+  });
+
+  it('passes well-formed calls', () => {
+    expect(validateToolCall(parseToolCall('getPagesDocInlineComments("P-501")'), discovered()).valid).toBe(true);
+  });
+});
@@ -0,0 +1,693 @@
+/**
+ * Nexus Tool Definitions
+ *
+ * Single source of truth for the 46 Nexus tools. Everything else is derived from here:
+ * - ALL_TOOL_NAMES and the easy/realistic discovery catalogs
+ * - Positional argument order (mapPositionalArgs)
+ * - JSON Schema `inputSchema` (realistic discovery, MCP tools/list)
+ * - Argument validation (validateToolArguments)
+ */
+
+import { BODY_FORMATS } from './bodyFormats';
+
+export type ToolCategory = 'core' | 'pages' | 'tracker' | 'catalog';
+
+export interface ToolParamDefinition {
+  name: string;
+  type: 'string' | 'integer' | 'object';
+  description: string;
+  required?: boolean;
+  positional?: boolean; // Accepted as argN in toolName("a", "b") calls, in declaration order
+  enum?: readonly string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  category: ToolCategory;
+  title: string;
+  summary: string; // One line, shown in easy-mode discovery
+  description: string; // Full description, shown in realistic-mode discovery and MCP tools/list
+  params: readonly ToolParamDefinition[];
+  mutating?: boolean; // Changes state (everything else is a read)
+}
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, { type: string; description: string; enum?: readonly string[] }>;
+  required: string[];
+}
+
+const LIMIT_PARAM = (max: number = 25): ToolParamDefinition => ({
+  name: 'limit',
+  type: 'integer',
+  description: `Max results (default ${max}).`
+});
+
+// List tools return nextPageToken while more results remain
+const PAGE_TOKEN_PARAM: ToolParamDefinition = {
+  name: 'pageToken',
+  type: 'string',
+  description: 'The nextPageToken value from a previous page of results.'
+};
+
+const BODY_FORMAT_PARAM = (purpose: string, positional: boolean = false): ToolParamDefinition => ({
+  name: 'body-format',
+  type: 'string',
+  description: `${purpose}: storage (XHTML, the default), adf (JSON document; pass bodies as a JSON string) or markdown. ` +
+    'Markdown writes mentions as @[Name](accountId), status lozenges as {status:green:Done} and macros as :::name key="value" ... ::: blocks.',
+  enum: BODY_FORMATS,
+  ...(positional ? { positional } : {})
+});
+
+export const TOOL_DEFINITIONS = [
+  // ============ CORE / SHARED ============
+  {
+    name: 'nexusUserInfo',
+    category: 'core',
+    title: 'Get User Info',
+    summary: 'Get current user info',
+    description: 'Returns the account ID, name, email, and site access information for the authenticated user.',
+    params: []
+  },
+  {
+    name: 'getAccessibleNexusResources',
+    category: 'core',
+    title: 'Get Accessible Resources',
+    summary: 'List accessible cloud sites',
+    description: 'Lists all Nexus Cloud sites (cloudIds) that the authenticated user can access.',
+    params: []
+  },
+  {
+    name: 'search',
+    category: 'core',
+    title: 'Global Search',
+    summary: 'Global search across Tracker/Pages',
+    description: 'Performs a natural language search across all accessible Tracker issues, Pages docs, and other resources.',
+    params: [
+      { name: 'query', type: 'string', description: 'The search query string.', required: true, positional: true },
+      { name: 'cloudId', type: 'string', description: 'The cloud site ID to search within.', positional: true },
+      { name: 'limit', type: 'integer', description: 'Max results (default 5, max 10).', positional: true },
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'fetch',
+    category: 'core',
+    title: 'Fetch ARI',
+    summary: 'Fetch resource by ARI',
+    description: 'Retrieves a specific resource by its Nexus Resource Identifier (ARI).',
+    params: [
+      { name: 'ari', type: 'string', description: 'The ARI of the object to fetch, e.g. ari:cloud:pages:<cloudId>:doc/<docId>.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'revertAction',
+    category: 'core',
+    mutating: true,
+    title: 'Revert Action',
+    summary: 'Undo an earlier change',
+    description: 'Reverts a change made earlier in this session, using the actionId returned by the write tool that made it. Fails if later changes depend on it (e.g. the issue has been transitioned again).',
+    params: [
+      { name: 'actionId', type: 'string', description: 'The actionId of the change to revert, e.g. A-3.', required: true, positional: true }
+    ]
+  },
+
+  // ============ PAGES ============
+  {
+    name: 'createPagesFooterComment',
+    category: 'pages',
+    mutating: true,
+    title: 'Create Footer Comment',
+    summary: 'Add footer comment',
+    description: 'Adds a comment to the footer of a Pages doc.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc to comment on.', required: true, positional: true },
+      { name: 'body', type: 'string', description: 'The comment text.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'createPagesInlineComment',
+    category: 'pages',
+    mutating: true,
+    title: 'Create Inline Comment',
+    summary: 'Add inline comment',
+    description: 'Adds an inline comment anchored to a passage of text in a Pages doc.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc to comment on.', required: true, positional: true },
+      { name: 'body', type: 'string', description: 'The comment text.', required: true, positional: true },
+      { name: 'anchor', type: 'string', description: 'The exact text in the doc the comment is attached to.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'createPagesDoc',
+    category: 'pages',
+    mutating: true,
+    title: 'Create Doc',
+    summary: 'Create new doc',
+    description: 'Creates a new doc in a Pages space, optionally under a parent doc.',
+    params: [
+      { name: 'spaceId', type: 'string', description: 'The ID of the space to create the doc in.', required: true, positional: true },
+      { name: 'title', type: 'string', description: 'The doc title.', required: true, positional: true },
+      { name: 'body', type: 'string', description: 'The doc body, in body-format.', required: true, positional: true },
+      { name: 'parentId', type: 'string', description: 'The ID of the parent doc.' },
+      BODY_FORMAT_PARAM('The format of body')
+    ]
+  },
+  {
+    name: 'diffPagesDocVersions',
+    category: 'pages',
+    title: 'Diff Doc Versions',
+    summary: 'Compare two doc versions',
+    description: 'Returns a line-by-line unified diff between two versions of a Pages doc. Compares against the current version when toVersion is omitted.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true },
+      { name: 'fromVersion', type: 'integer', description: 'The older version number.', required: true, positional: true },
+      { name: 'toVersion', type: 'integer', description: 'The newer version number (default: current).', positional: true }
+    ]
+  },
+  {
+    name: 'getPagesDoc',
+    category: 'pages',
+    title: 'Get Doc',
+    summary: 'Get doc content',
+    description: 'Returns a Pages doc including its body, space, and version. Text that inline comments are anchored to is wrapped in inline comment markers (storage) or annotation marks (adf).',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true },
+      BODY_FORMAT_PARAM('The format to return the body in', true)
+    ]
+  },
+  {
+    name: 'getPagesDocDescendants',
+    category: 'pages',
+    title: 'Get Doc Descendants',
+    summary: 'Get child docs',
+    description: 'Lists the child docs of a Pages doc.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the parent doc.', required: true, positional: true },
+      LIMIT_PARAM(),
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'getPagesDocFooterComments',
+    category: 'pages',
+    title: 'Get Footer Comments',
+    summary: 'Get footer comments',
+    description: 'Lists the footer comments on a Pages doc.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getPagesDocHistory',
+    category: 'pages',
+    title: 'Get Doc History',
+    summary: 'List doc versions',
+    description: 'Lists the versions of a Pages doc, newest first, with who made each edit and when.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true },
+      LIMIT_PARAM(),
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'getPagesDocInlineComments',
+    category: 'pages',
+    title: 'Get Inline Comments',
+    summary: 'Get inline comments',
+    description: 'Lists the inline comments on a Pages doc, with the text each one is anchored to (anchorText is null when the anchor no longer matches).',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getPagesDocVersion',
+    category: 'pages',
+    title: 'Get Doc Version',
+    summary: 'Get an old doc version',
+    description: 'Returns the title and body of a Pages doc as they were at a given version.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true },
+      { name: 'version', type: 'integer', description: 'The version number.', required: true, positional: true },
+      BODY_FORMAT_PARAM('The format to return the body in', true)
+    ]
+  },
+  {
+    name: 'getPagesSpaces',
+    category: 'pages',
+    title: 'Get Spaces',
+    summary: 'List all spaces',
+    description: 'Lists the Pages spaces the user can access.',
+    params: [LIMIT_PARAM(), PAGE_TOKEN_PARAM]
+  },
+  {
+    name: 'getDocsInPagesSpace',
+    category: 'pages',
+    title: 'Get Docs in Space',
+    summary: 'List docs in space',
+    description: 'Lists the docs in a Pages space.',
+    params: [
+      { name: 'spaceId', type: 'string', description: 'The ID or key of the space.', required: true, positional: true },
+      LIMIT_PARAM(),
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'searchPagesUsingNql',
+    category: 'pages',
+    title: 'Search Pages (NQL)',
+    summary: 'Search with NQL',
+    description: "Searches Pages docs with an NQL query, e.g. title ~ 'roadmap' AND space = 'PROD' ORDER BY lastmodified DESC. Supports AND/OR/NOT, type, ancestor, parent, creator, label, created/lastmodified comparisons (e.g. lastmodified > -7d) and ORDER BY. Results are paginated: pass nextPageToken back as pageToken (or cursor) for the next page.",
+    params: [
+      { name: 'nql', type: 'string', description: 'The NQL query.', required: true, positional: true },
+      LIMIT_PARAM(),
+      PAGE_TOKEN_PARAM,
+      { name: 'cursor', type: 'string', description: 'Alias of pageToken.' }
+    ]
+  },
+  {
+    name: 'updatePagesDoc',
+    category: 'pages',
+    mutating: true,
+    title: 'Update Doc',
+    summary: 'Update doc',
+    description: 'Updates the title and/or body of a Pages doc. Pass the version you read to avoid overwriting newer edits: if someone else has edited the doc since, the update fails with 409 Conflict.',
+    params: [
+      { name: 'docId', type: 'string', description: 'The ID of the doc.', required: true, positional: true },
+      { name: 'title', type: 'string', description: 'The new title.', positional: true },
+      { name: 'body', type: 'string', description: 'The new body, in body-format.', positional: true },
+      { name: 'version', type: 'integer', description: 'The version number being edited.', positional: true },
+      BODY_FORMAT_PARAM('The format of body, and of the body returned')
+    ]
+  },
+
+  // ============ TRACKER ============
+  {
+    name: 'addCommentToTrackerIssue',
+    category: 'tracker',
+    mutating: true,
+    title: 'Add Issue Comment',
+    summary: 'Add comment',
+    description: 'Adds a comment to a Tracker issue.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true },
+      { name: 'body', type: 'string', description: 'The comment text.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'addWorklogToTrackerIssue',
+    category: 'tracker',
+    mutating: true,
+    title: 'Add Worklog',
+    summary: 'Log work',
+    description: 'Logs time spent on a Tracker issue.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true },
+      { name: 'timeSpent', type: 'string', description: "Time spent in Tracker duration format, e.g. '2h 30m'.", required: true, positional: true }
+    ]
+  },
+  {
+    name: 'createTrackerIssue',
+    category: 'tracker',
+    mutating: true,
+    title: 'Create Issue',
+    summary: 'Create issue',
+    description: 'Creates a new Tracker issue in a project.',
+    params: [
+      { name: 'projectKey', type: 'string', description: 'The project key, e.g. LHR.', required: true, positional: true },
+      { name: 'summary', type: 'string', description: 'The issue summary.', required: true, positional: true },
+      { name: 'issuetype', type: 'string', description: "The issue type name (default 'Task').", positional: true },
+      { name: 'description', type: 'string', description: 'The issue description.' },
+      { name: 'parent', type: 'string', description: 'Key of the parent issue: the epic for a standard issue, or the issue a sub-task belongs to.' }
+    ]
+  },
+  {
+    name: 'editTrackerIssue',
+    category: 'tracker',
+    mutating: true,
+    title: 'Edit Issue',
+    summary: 'Update issue fields',
+    description: 'Updates fields on a Tracker issue. Field keys come from getTrackerIssueTypeMetaWithFields; assignee takes an account ID and parent an epic key (null removes it).',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true },
+      { name: 'fields', type: 'object', description: 'Map of field key to new value, e.g. { "summary": "..." }.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getSprintIssues',
+    category: 'tracker',
+    title: 'Get Sprint Issues',
+    summary: 'List issues in a sprint',
+    description: "Returns a sprint (state, dates, goal) and the issues in it. Find sprint IDs on issues or with TQL, e.g. sprint in openSprints().",
+    params: [
+      { name: 'sprintId', type: 'string', description: 'The sprint ID or name, e.g. 7.', required: true, positional: true },
+      LIMIT_PARAM(50),
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'getTrackerIssue',
+    category: 'tracker',
+    title: 'Get Issue',
+    summary: 'Get issue details',
+    description: 'Returns a Tracker issue with its fields, status, and comments.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getTrackerIssueLinks',
+    category: 'tracker',
+    title: 'Get Issue Links',
+    summary: 'Get linked issues',
+    description: 'Lists the issues linked to a Tracker issue (blocks, is blocked by, relates to, duplicates), with their status, plus its parent and child issues.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getTrackerIssueRemoteLinks',
+    category: 'tracker',
+    title: 'Get Remote Links',
+    summary: 'Get remote links',
+    description: 'Lists links from a Tracker issue to external resources such as Pages docs.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getTrackerIssueTypeMetaWithFields',
+    category: 'tracker',
+    title: 'Get Issue Type Fields',
+    summary: 'Get field metadata',
+    description: 'Returns the fields (keys, names, and whether required) for an issue type in a project.',
+    params: [
+      { name: 'projectKey', type: 'string', description: 'The project key, e.g. LHR.', required: true, positional: true },
+      { name: 'issueType', type: 'string', description: "The issue type name, e.g. 'Story'.", required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getTrackerProjectIssueTypesMetadata',
+    category: 'tracker',
+    title: 'Get Project Issue Types',
+    summary: 'Get project issue types',
+    description: 'Lists the issue types available in a Tracker project.',
+    params: [
+      { name: 'projectKey', type: 'string', description: 'The project key, e.g. LHR.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getTransitionsForTrackerIssue',
+    category: 'tracker',
+    title: 'Get Transitions',
+    summary: 'Get available transitions',
+    description: 'Lists the workflow transitions available for a Tracker issue in its current status.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getVisibleTrackerProjects',
+    category: 'tracker',
+    title: 'Get Projects',
+    summary: 'List projects',
+    description: 'Lists the Tracker projects the user can see.',
+    params: []
+  },
+  {
+    name: 'linkTrackerIssues',
+    category: 'tracker',
+    mutating: true,
+    title: 'Link Issues',
+    summary: 'Link two issues',
+    description: 'Links two Tracker issues, read as "<issue> <linkType> <targetIssue>", e.g. LHR-101 blocks LHR-100.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-101.', required: true, positional: true },
+      { name: 'linkType', type: 'string', description: "How the issue relates to the target: 'blocks', 'is blocked by', 'relates to', 'duplicates' or 'is duplicated by'.", required: true, positional: true },
+      { name: 'targetIssueIdOrKey', type: 'string', description: 'The other issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'lookupTrackerAccountId',
+    category: 'tracker',
+    title: 'Lookup Account ID',
+    summary: 'Find user by name/email',
+    description: 'Finds Tracker users by display name or email and returns their account IDs.',
+    params: [
+      { name: 'query', type: 'string', description: 'Name or email to search for.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'moveIssueToSprint',
+    category: 'tracker',
+    mutating: true,
+    title: 'Move Issue to Sprint',
+    summary: 'Move issue to sprint',
+    description: "Moves a Tracker issue, with its sub-tasks, into an active or future sprint on its project's board.",
+    params: [
+      { name: 'sprintId', type: 'string', description: 'The sprint ID or name, e.g. 8.', required: true, positional: true },
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'searchTrackerIssuesUsingTql',
+    category: 'tracker',
+    title: 'Search Issues (TQL)',
+    summary: 'Search with TQL',
+    description: "Searches Tracker issues with a TQL query, e.g. project = LHR AND status = 'To Do' ORDER BY key. Supports AND/OR/NOT, =, !=, ~, IN (...), IS EMPTY, comparisons on created/updated (e.g. created >= -7d, updated < startOfDay()), custom fields, parent, sprint (e.g. sprint in openSprints()) and issue in linkedIssues(LHR-100, 'is blocked by').",
+    params: [
+      { name: 'tql', type: 'string', description: "The TQL query, e.g. assignee = currentUser() AND status != Done.", required: true, positional: true },
+      LIMIT_PARAM(10),
+      { name: 'startAt', type: 'integer', description: 'Index of the first result to return (default 0).' },
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'transitionTrackerIssue',
+    category: 'tracker',
+    mutating: true,
+    title: 'Transition Issue',
+    summary: 'Change issue status',
+    description: 'Moves a Tracker issue through its workflow. Get valid transition IDs, and the screen fields each one needs, from getTransitionsForTrackerIssue.',
+    params: [
+      { name: 'issueIdOrKey', type: 'string', description: 'The issue ID or key, e.g. LHR-100.', required: true, positional: true },
+      { name: 'transitionId', type: 'string', description: 'The transition ID, e.g. T-1.', required: true, positional: true },
+      { name: 'fields', type: 'object', description: 'Values for the transition screen, e.g. { "resolution": "Done" }.', positional: true }
+    ]
+  },
+
+  // ============ CATALOG ============
+  {
+    name: 'createCatalogComponent',
+    category: 'catalog',
+    mutating: true,
+    title: 'Create Component',
+    summary: 'Create component',
+    description: 'Registers a new component in the Catalog.',
+    params: [
+      { name: 'name', type: 'string', description: 'The component name.', required: true, positional: true },
+      { name: 'type', type: 'string', description: "The component type (default 'SERVICE').", positional: true, enum: ['SERVICE', 'LIBRARY', 'APPLICATION', 'OTHER'] },
+      { name: 'description', type: 'string', description: 'The component description.' }
+    ]
+  },
+  {
+    name: 'createCatalogComponentRelationship',
+    category: 'catalog',
+    mutating: true,
+    title: 'Create Relationship',
+    summary: 'Link components',
+    description: 'Creates a relationship between two Catalog components.',
+    params: [
+      { name: 'sourceId', type: 'string', description: 'The ID of the source component.', required: true, positional: true },
+      { name: 'targetId', type: 'string', description: 'The ID of the target component.', required: true, positional: true },
+      { name: 'type', type: 'string', description: "The relationship type (default 'DEPENDS_ON')." }
+    ]
+  },
+  {
+    name: 'createCatalogCustomFieldDefinition',
+    category: 'catalog',
+    mutating: true,
+    title: 'Create Custom Field',
+    summary: 'Create custom field',
+    description: 'Defines a new custom field that can be set on Catalog components.',
+    params: [
+      { name: 'name', type: 'string', description: 'The field name.', required: true, positional: true },
+      { name: 'type', type: 'string', description: "The field type (default 'TEXT').", positional: true, enum: ['TEXT', 'NUMBER', 'BOOLEAN', 'USER'] }
+    ]
+  },
+  {
+    name: 'findCatalogDependencyCycles',
+    category: 'catalog',
+    title: 'Find Dependency Cycles',
+    summary: 'Find dependency cycles',
+    description: 'Finds groups of Catalog components that depend on themselves through a chain of relationships.',
+    params: [
+      { name: 'relationshipType', type: 'string', description: "The relationship type to follow (default 'DEPENDS_ON')." }
+    ]
+  },
+  {
+    name: 'getCatalogComponent',
+    category: 'catalog',
+    title: 'Get Component',
+    summary: 'Get component details',
+    description: 'Returns a Catalog component with its relationships and custom fields.',
+    params: [
+      { name: 'componentId', type: 'string', description: 'The ID of the component.', required: true, positional: true }
+    ]
+  },
+  {
+    name: 'getCatalogComponentDependencies',
+    category: 'catalog',
+    title: 'Get Component Dependencies',
+    summary: 'Transitive dependencies',
+    description: 'Lists every component a Catalog component depends on (or, with direction=dependents, every component that depends on it), directly or transitively, with the path to each.',
+    params: [
+      { name: 'componentId', type: 'string', description: 'The ID or name of the component.', required: true, positional: true },
+      { name: 'direction', type: 'string', description: "'dependencies' (what it needs, the default) or 'dependents' (what needs it).", positional: true, enum: ['dependencies', 'dependents'] },
+      { name: 'maxDepth', type: 'integer', description: 'Stop this many hops away (default: no limit).' },
+      { name: 'relationshipType', type: 'string', description: "The relationship type to follow (default 'DEPENDS_ON')." }
+    ]
+  },
+  {
+    name: 'getCatalogComponentImpact',
+    category: 'catalog',
+    title: 'Get Change Impact',
+    summary: 'Impact of changing a component',
+    description: 'Reports what changing a Catalog component affects: its transitive dependents, their owners, and the Tracker issues that mention any of them.',
+    params: [
+      { name: 'componentId', type: 'string', description: 'The ID or name of the component.', required: true, positional: true },
+      { name: 'relationshipType', type: 'string', description: "The relationship type to follow (default 'DEPENDS_ON')." }
+    ]
+  },
+  {
+    name: 'getCatalogComponentOwners',
+    category: 'catalog',
+    title: 'Get Component Owners',
+    summary: 'Who owns what',
+    description: 'Looks up ownership from USER custom fields: the owners of a component, or the components an account owns. Pass componentId or accountId.',
+    params: [
+      { name: 'componentId', type: 'string', description: 'The ID or name of the component.', positional: true },
+      { name: 'accountId', type: 'string', description: 'The account ID of a user.' }
+    ]
+  },
+  {
+    name: 'getCatalogComponents',
+    category: 'catalog',
+    title: 'Get Components',
+    summary: 'List all components',
+    description: 'Lists Catalog components, optionally filtered by type.',
+    params: [
+      LIMIT_PARAM(),
+      { name: 'type', type: 'string', description: 'Only return components of this type.', enum: ['SERVICE', 'LIBRARY', 'APPLICATION', 'OTHER'] },
+      PAGE_TOKEN_PARAM
+    ]
+  },
+  {
+    name: 'getCatalogCustomFieldDefinitions',
+    category: 'catalog',
+    title: 'Get Custom Fields',
+    summary: 'List custom fields',
+    description: 'Lists the custom field definitions available in the Catalog.',
+    params: [LIMIT_PARAM(), PAGE_TOKEN_PARAM]
+  },
+] as const satisfies readonly ToolDefinition[];
+
+export type ToolName = typeof TOOL_DEFINITIONS[number]['name'];
+
+const DEFINITIONS_BY_NAME = new Map<string, ToolDefinition>(TOOL_DEFINITIONS.map(d => [d.name, d]));
+
+export function getToolDefinition(toolName: string): ToolDefinition | undefined {
+  return DEFINITIONS_BY_NAME.get(toolName);
+}
+
+/**
+ * Positional parameter order per tool, e.g. transitionTrackerIssue: ['issueIdOrKey', 'transitionId']
+ */
+export const POSITIONAL_ARG_MAPS: Record<string, string[]> = Object.fromEntries(
+  TOOL_DEFINITIONS
+    .map(d => [d.name, (d.params as readonly ToolParamDefinition[]).filter(p => p.positional).map(p => p.name)] as const)
+    .filter(([, params]) => params.length > 0)
+);
+
+/**
+ * Convert positional arguments (arg0, arg1, ...) to named arguments
+ */
+export function mapPositionalArgs(toolName: string, args: Record<string, unknown>): Record<string, unknown> {
+  const argMap = POSITIONAL_ARG_MAPS[toolName];
+  if (!argMap) return args;
+
+  const result = { ...args };
+
+  // Map arg0, arg1, etc. to named params
+  for (let i = 0; i < argMap.length; i++) {
+    const positionalKey = `arg${i}`;
+    const namedKey = argMap[i];
+
+    if (positionalKey in args && !(namedKey in args)) {
+      result[namedKey] = args[positionalKey];
+      delete result[positionalKey];
+    }
+  }
+
+  return result;
+}
+
+export function getToolInputSchema(toolName: string): ToolInputSchema {
+  const params: readonly ToolParamDefinition[] = getToolDefinition(toolName)?.params ?? [];
+  return {
+    type: 'object',
+    properties: Object.fromEntries(params.map(p => [
+      p.name,
+      { type: p.type, description: p.description, ...(p.enum ? { enum: p.enum } : {}) }
+    ])),
+    required: params.filter(p => p.required).map(p => p.name)
+  };
+}
+
+/**
+ * Signature for easy-mode discovery, e.g. search(query, cloudId?, limit?)
+ */
+export function formatToolSignature(definition: ToolDefinition): string {
+  const params = definition.params
+    .filter(p => p.positional)
+    .map(p => (p.required ? p.name : `${p.name}?`));
+  return `${definition.name}(${params.join(', ')})`;
+}
+
+/**
+ * Check named arguments against a tool's schema.
+ * Errors follow JSON Schema validator wording, e.g. "/limit must be integer".
+ */
+export function validateToolArguments(toolName: string, args: Record<string, unknown>): string[] {
+  const definition = getToolDefinition(toolName);
+  if (!definition) return [`unknown tool '${toolName}'`];
+
+  const errors: string[] = [];
+  for (const param of definition.params as readonly ToolParamDefinition[]) {
+    const value = args[param.name];
+
+    if (value === undefined || value === null) {
+      if (param.required) errors.push(`must have required property '${param.name}'`);
+      continue;
+    }
+
+    if (!matchesType(value, param.type)) {
+      errors.push(`/${param.name} must be ${param.type}`);
+    } else if (param.enum && !param.enum.includes(value as string)) {
+      errors.push(`/${param.name} must be equal to one of the allowed values: ${param.enum.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: ToolParamDefinition['type']): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
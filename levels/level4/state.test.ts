@@ -8,15 +8,29 @@ import {
   addCommentToTrackerIssue,
   addWorklogToTrackerIssue,
   createTrackerIssue,
+  linkTrackerIssues,
+  moveIssueToSprint,
   // Pages mutations
   createPagesDoc,
   updatePagesDoc,
+  editPagesDocAsUser,
   createPagesInlineComment,
   createPagesFooterComment,
   // Catalog mutations
   createCatalogComponent,
   createCatalogComponentRelationship,
   createCatalogCustomFieldDefinition,
+  // Workflows, hierarchy and links
+  getAvailableTransitions,
+  getStatusCategory,
+  getChildIssues,
+  getIssueLinks,
+  // Undo and snapshots
+  revertAction,
+  snapshotState,
+  restoreState,
+  serializeState,
+  deserializeState,
   // Validation helpers
   getActionLog,
   hasAction,
@@ -25,6 +39,7 @@ import {
   wasIssueTransitioned,
   wasIssueEdited,
   wasCommentAdded,
+  wasActionReverted,
 } from './state';
 
 describe('NexusState', () => {
@@ -142,6 +157,153 @@ describe('NexusState', () => {
       });
     });
 
+    describe('workflows', () => {
+      const transitionIds = (key: string) =>
+        getAvailableTransitions(state, state.tracker.issues.get(key)!).map(t => t.id);
+
+      it('requires the screen fields, and reverting clears them again', () => {
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-2').error)
+          .toBe('Cannot Done LHR-100: the screen requires resolution (one of: Done, Won\'t Do, Duplicate). Pass it in fields, e.g. { "resolution": "Done" }');
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-2', { resolution: 'Fixed' }).error).toContain('resolution must be one of');
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1', { resolution: 'Done' }).error).toContain('it has no screen');
+
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-2', { resolution: "Won't Do" }).success).toBe(true);
+        expect(state.tracker.issues.get('LHR-100')).toMatchObject({ status: 'Done', resolution: "Won't Do" });
+        expect(getStatusCategory(state, state.tracker.issues.get('LHR-100')!)).toBe('done');
+
+        revertAction(state, 'A-1');
+        expect(state.tracker.issues.get('LHR-100')?.resolution).toBeUndefined();
+      });
+
+      it('offers transitions from the current status only', () => {
+        state.tracker.workflows[0].transitions[1].from = ['In Progress'];
+        expect(transitionIds('LHR-100')).toEqual(['T-1', 'T-3']);
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-2', { resolution: 'Done' }).error)
+          .toBe("Cannot Done LHR-100: it is not available from status 'To Do'");
+
+        transitionTrackerIssue(state, 'LHR-100', 'T-1');
+        expect(transitionIds('LHR-100')).toContain('T-2');
+      });
+
+      it('hides assignee-only transitions from everyone else', () => {
+        state.tracker.workflows[0].transitions[0].conditions = [{ type: 'assigneeOnly' }];
+        expect(transitionIds('LHR-100')).not.toContain('T-1');
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').error)
+          .toBe('Cannot Start Progress LHR-100: only the assignee can perform it, and LHR-100 is unassigned');
+
+        editTrackerIssue(state, 'LHR-100', { assignee: 'user-001' });
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').success).toBe(true);
+      });
+
+      it('validates fields the issue must already have', () => {
+        state.tracker.workflows[0].transitions[0].validators = [{ type: 'fieldRequired', field: 'customfield_10001' }];
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').error).toBe('Cannot Start Progress LHR-100: customfield_10001 is required');
+
+        editTrackerIssue(state, 'LHR-100', { customfield_10001: '18 months' });
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').success).toBe(true);
+      });
+
+      it('blocks transitions until linked blockers are done', () => {
+        state.tracker.workflows[0].transitions[0].validators = [{ type: 'notBlocked' }];
+        state.tracker.links.push({ id: 'L-1', type: 'blocks', from: 'LHR-101', to: 'LHR-100' });
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').error)
+          .toBe('Cannot Start Progress LHR-100: LHR-100 is blocked by LHR-101 (To Do). Resolve the blocking issues first');
+
+        transitionTrackerIssue(state, 'LHR-101', 'T-2', { resolution: 'Done' });
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-1').success).toBe(true);
+      });
+
+      it('lists the available transitions for an unknown ID', () => {
+        expect(transitionTrackerIssue(state, 'LHR-100', 'T-9').error)
+          .toBe('Transition T-9 not available for LHR-100. Available: T-1 (Start Progress), T-2 (Done), T-3 (Block)');
+      });
+    });
+
+    describe('hierarchy', () => {
+      it('puts standard issues under epics and sub-tasks under standard issues', () => {
+        const epic = createTrackerIssue(state, 'LHR', 'Retention', 'Epic').issueKey!;
+        expect(editTrackerIssue(state, 'LHR-100', { parent: epic }).success).toBe(true);
+        expect(createTrackerIssue(state, 'LHR', 'Draft policy', 'Sub-task', undefined, 'LHR-100').success).toBe(true);
+
+        expect(getChildIssues(state, epic).map(i => i.key)).toEqual(['LHR-100']);
+        expect(getChildIssues(state, 'LHR-100').map(i => i.key)).toEqual(['LHR-105']);
+        // Sub-tasks start in their parent's sprint
+        expect(state.tracker.issues.get('LHR-105')?.sprint).toBe('7');
+      });
+
+      it('rejects parents from the wrong level', () => {
+        expect(editTrackerIssue(state, 'LHR-100', { parent: 'LHR-101' }).error)
+          .toBe('Cannot set the parent of LHR-100: LHR-101 is a Task; only epics can be the parent of a Task');
+        expect(createTrackerIssue(state, 'LHR', 'Orphan', 'Sub-task').error).toBe('Sub-task issues need a parent issue');
+        const epic = createTrackerIssue(state, 'LHR', 'Retention', 'Epic').issueKey!;
+        expect(createTrackerIssue(state, 'LHR', 'x', 'Sub-task', undefined, epic).error)
+          .toContain('sub-tasks need a standard issue as their parent');
+      });
+
+      it('removes an issue from its epic with a null parent, and reverts', () => {
+        const epic = createTrackerIssue(state, 'LHR', 'Retention', 'Epic').issueKey!;
+        editTrackerIssue(state, 'LHR-100', { parent: epic });
+        editTrackerIssue(state, 'LHR-100', { parent: null });
+        expect(state.tracker.issues.get('LHR-100')?.parent).toBeUndefined();
+
+        revertAction(state, 'A-3');
+        expect(state.tracker.issues.get('LHR-100')?.parent).toBe(epic);
+        expect(revertAction(state, 'A-1').error).toBe(`Cannot revert A-1: Issue ${epic} has child issues (LHR-100)`);
+      });
+    });
+
+    describe('linkTrackerIssues', () => {
+      it('reads links from either end', () => {
+        expect(linkTrackerIssues(state, 'LHR-100', 'is blocked by', 'LHR-101').success).toBe(true);
+        expect(state.tracker.links[0]).toMatchObject({ type: 'blocks', from: 'LHR-101', to: 'LHR-100' });
+        expect(getIssueLinks(state, 'LHR-100')).toMatchObject([{ relationship: 'is blocked by', issueKey: 'LHR-101' }]);
+        expect(getIssueLinks(state, 'LHR-101')).toMatchObject([{ relationship: 'blocks', issueKey: 'LHR-100' }]);
+      });
+
+      it('rejects unknown types, duplicates and blocking cycles', () => {
+        expect(linkTrackerIssues(state, 'LHR-100', 'depends on', 'LHR-101').error).toContain('Unknown link type "depends on"');
+        expect(linkTrackerIssues(state, 'LHR-100', 'relates to', 'LHR-100').error).toBe("An issue can't be linked to itself");
+
+        linkTrackerIssues(state, 'LHR-100', 'relates to', 'LHR-101');
+        expect(linkTrackerIssues(state, 'LHR-101', 'relates', 'LHR-100').error).toContain('already relates to');
+
+        linkTrackerIssues(state, 'LHR-100', 'blocks', 'LHR-101');
+        linkTrackerIssues(state, 'LHR-101', 'blocks', 'LHR-102');
+        expect(linkTrackerIssues(state, 'LHR-102', 'blocks', 'LHR-100').error)
+          .toBe("LHR-102 can't block LHR-100: LHR-100 blocks LHR-101 blocks LHR-102 already, so this would create a cycle");
+      });
+
+      it('can be reverted', () => {
+        linkTrackerIssues(state, 'LHR-100', 'duplicates', 'LHR-101');
+        expect(revertAction(state, 'A-1').success).toBe(true);
+        expect(state.tracker.links).toHaveLength(0);
+      });
+    });
+
+    describe('moveIssueToSprint', () => {
+      it('moves an issue with its sub-tasks, and reverts', () => {
+        createTrackerIssue(state, 'LHR', 'Draft policy', 'Sub-task', undefined, 'LHR-100');
+        expect(moveIssueToSprint(state, 'LHR Sprint 8', 'LHR-100')).toEqual({ success: true, moved: ['LHR-100', 'LHR-104'] });
+        expect(state.tracker.issues.get('LHR-104')?.sprint).toBe('8');
+
+        revertAction(state, 'A-2');
+        expect(state.tracker.issues.get('LHR-100')?.sprint).toBe('7');
+        expect(state.tracker.issues.get('LHR-104')?.sprint).toBe('7');
+      });
+
+      it('rejects closed sprints, other boards and sub-tasks', () => {
+        state.tracker.sprints[0].state = 'closed';
+        expect(moveIssueToSprint(state, '7', 'LHR-100').error).toContain('LHR Sprint 7 is closed');
+        expect(moveIssueToSprint(state, '99', 'LHR-100').error).toBe('Sprint 99 not found. Available sprints: 7 (LHR Sprint 7, closed), 8 (LHR Sprint 8, future)');
+
+        state.tracker.boards[0].projectKey = 'OPS';
+        expect(moveIssueToSprint(state, '8', 'LHR-100').error).toContain('but LHR Sprint 8 is on board "LHR board" (project OPS)');
+
+        createTrackerIssue(state, 'LHR', 'Draft policy', 'Sub-task', undefined, 'LHR-100');
+        expect(moveIssueToSprint(state, '8', 'LHR-104').error).toBe('Sub-tasks move with their parent; move LHR-100 instead');
+      });
+    });
+
     describe('addCommentToTrackerIssue', () => {
       it('adds a comment to the issue', () => {
         const result = addCommentToTrackerIssue(state, 'LHR-100', 'This is a test comment');
@@ -248,6 +410,26 @@ describe('NexusState', () => {
         expect(doc?.version).toBe(2);
       });
 
+      it('stores every version', () => {
+        updatePagesDoc(state, 'P-501', { body: 'New content', version: 3 });
+        const doc = state.pages.docs.get('P-501')!;
+        expect(doc.history.map(v => v.number)).toEqual([1, 2, 3, 4]);
+        expect(doc.history[3]).toMatchObject({ body: 'New content', author: 'user-001' });
+        expect(doc.history[2].body).toContain('Retention window** = `18 months`');
+      });
+
+      it('rejects updates based on a version someone else has replaced', () => {
+        editPagesDocAsUser(state, 'P-501', 'Product Manager', { body: 'Their content' }, 'Tidy up');
+        const result = updatePagesDoc(state, 'P-501', { body: 'My content', version: 3 });
+        expect(result).toMatchObject({ success: false, conflict: true });
+        expect(result.error).toBe(
+          'Version conflict: doc P-501 is at version 4 (last edited by Product Manager), but this update is based on version 3. ' +
+          'Fetch the latest version, reapply your changes and retry with version 4.'
+        );
+        expect(state.pages.docs.get('P-501')?.body).toBe('Their content');
+        expect(state.actionLog).toHaveLength(0);
+      });
+
       it('enforces optimistic locking', () => {
         const result = updatePagesDoc(state, 'P-501', {
           body: 'New content',
@@ -334,6 +516,150 @@ describe('NexusState', () => {
     });
   });
 
+  describe('Undo', () => {
+    const lastActionId = () => state.actionLog[state.actionLog.length - 1].id;
+
+    it('numbers actions in order', () => {
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      addCommentToTrackerIssue(state, 'LHR-100', 'Started');
+      expect(getActionLog(state).map(a => a.id)).toEqual(['A-1', 'A-2']);
+    });
+
+    it('reverts a transition and stops counting it', () => {
+      transitionTrackerIssue(state, 'LHR-103', 'T-1');
+      const result = revertAction(state, 'A-1');
+      expect(result).toEqual({ success: true, actionId: 'A-2' });
+      expect(getIssueStatus(state, 'LHR-103')).toBe('Blocked - Legal');
+      expect(wasIssueTransitioned(state, 'LHR-103')).toBe(false);
+      expect(wasActionReverted(state, 'transitionTrackerIssue', 'LHR-103')).toBe(true);
+      expect(state.actionLog[0].revertedBy).toBe('A-2');
+    });
+
+    it('restores previous field values, including unset ones', () => {
+      editTrackerIssue(state, 'LHR-100', { summary: 'Changed', customfield_10001: '18 months', priority: 'High' });
+      revertAction(state, lastActionId());
+      const issue = state.tracker.issues.get('LHR-100')!;
+      expect(issue.summary).toBe('Lighthouse – Data retention rollout');
+      expect(issue.customFields?.customfield_10001).toBeUndefined();
+      expect(issue.priority).toBeUndefined();
+    });
+
+    it('refuses to revert an edit once the same fields have been edited again', () => {
+      editTrackerIssue(state, 'LHR-100', { summary: 'Changed', labels: ['a'], customfield_10001: '18 months' });
+      editTrackerIssue(state, 'LHR-100', { summary: 'Changed again' });
+      expect(revertAction(state, 'A-1').error).toBe('Cannot revert A-1: LHR-100 has been edited since (summary)');
+      expect(state.tracker.issues.get('LHR-100')?.summary).toBe('Changed again');
+
+      // Edits to other fields don't get in the way
+      expect(revertAction(state, 'A-2').success).toBe(true);
+      editTrackerIssue(state, 'LHR-100', { priority: 'High' });
+      expect(revertAction(state, 'A-1').success).toBe(true);
+      expect(state.tracker.issues.get('LHR-100')?.priority).toBe('High');
+    });
+
+    it('refuses to revert a transition whose fields have been edited since', () => {
+      transitionTrackerIssue(state, 'LHR-100', 'T-2', { resolution: 'Done' });
+      editTrackerIssue(state, 'LHR-100', { resolution: "Won't Do" });
+      expect(revertAction(state, 'A-1').error).toBe('Cannot revert A-1: LHR-100 has been edited since (resolution)');
+    });
+
+    it('removes created comments, worklogs, issues and catalog entries', () => {
+      addCommentToTrackerIssue(state, 'LHR-100', 'Oops');
+      addWorklogToTrackerIssue(state, 'LHR-100', '1h');
+      const issueKey = createTrackerIssue(state, 'LHR', 'Duplicate', 'Task').issueKey!;
+      const fieldId = createCatalogCustomFieldDefinition(state, 'Team', 'TEXT').fieldId!;
+
+      for (const id of ['A-1', 'A-2', 'A-3', 'A-4']) {
+        expect(revertAction(state, id).success).toBe(true);
+      }
+      expect(getIssueComments(state, 'LHR-100')).toHaveLength(0);
+      expect(state.tracker.issues.get('LHR-100')?.worklogs).toHaveLength(0);
+      expect(state.tracker.issues.has(issueKey)).toBe(false);
+      expect(state.catalog.customFieldDefs.find(f => f.id === fieldId)).toBeUndefined();
+    });
+
+    it('restores doc content as a new version', () => {
+      updatePagesDoc(state, 'P-501', { title: 'Renamed' });
+      revertAction(state, lastActionId());
+      const doc = state.pages.docs.get('P-501')!;
+      expect(doc.title).toBe('Lighthouse Retention Roadmap (LIVE)');
+      expect(doc.version).toBe(5);
+    });
+
+    it('refuses to revert a doc edit once someone else has edited the doc', () => {
+      updatePagesDoc(state, 'P-501', { title: 'Renamed' });
+      editPagesDocAsUser(state, 'P-501', 'Product Manager', { body: 'Their content' });
+      expect(revertAction(state, 'A-1').error).toBe('Cannot revert A-1: Doc P-501 has been edited since version 4 (now version 5)');
+    });
+
+    it('refuses reverts that later changes depend on', () => {
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      state.tracker.issues.get('LHR-100')!.status = 'Done';
+      expect(revertAction(state, 'A-1').error).toBe("Cannot revert A-1: LHR-100 has moved on from 'In Progress' (now 'Done')");
+
+      const parentId = createPagesDoc(state, 'SEC', 'Parent', 'Body').docId!;
+      createPagesDoc(state, 'SEC', 'Child', 'Body', parentId);
+      expect(revertAction(state, 'A-2').error).toContain('has child docs');
+
+      const a = createCatalogComponent(state, 'a', 'SERVICE').componentId!;
+      const b = createCatalogComponent(state, 'b', 'SERVICE').componentId!;
+      createCatalogComponentRelationship(state, a, b);
+      expect(revertAction(state, 'A-5').error).toContain('is the target of relationships');
+      expect(revertAction(state, 'A-6').success).toBe(true);
+      expect(revertAction(state, 'A-5').success).toBe(true);
+    });
+
+    it('rejects unknown, repeated and revert-of-revert requests', () => {
+      expect(revertAction(state, 'A-9').error).toBe('Action A-9 not found.');
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      revertAction(state, 'A-1');
+      expect(revertAction(state, 'A-1').error).toBe('Action A-1 was already reverted by A-2');
+      expect(revertAction(state, 'A-2').error).toBe('Cannot revert A-2: revertAction actions cannot be reverted');
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('restores the whole state in place', () => {
+      const snapshot = snapshotState(state);
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      createPagesDoc(state, 'SEC', 'Scratch', 'Body');
+
+      const sameRef = state;
+      restoreState(state, snapshot);
+      expect(sameRef).toBe(state);
+      expect(getIssueStatus(state, 'LHR-100')).toBe('To Do');
+      expect(state.pages.docs.size).toBe(2);
+      expect(state.actionLog).toHaveLength(0);
+
+      // The snapshot itself is untouched and can be restored again
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      restoreState(state, snapshot);
+      expect(getIssueStatus(state, 'LHR-100')).toBe('To Do');
+    });
+  });
+
+  describe('Serialization', () => {
+    it('round-trips the state through JSON, logs included', () => {
+      transitionTrackerIssue(state, 'LHR-100', 'T-1');
+      createCatalogComponent(state, 'retention-service', 'SERVICE');
+      state.auth.grantedScopes = ['read:tracker-work'];
+
+      const restored = deserializeState(serializeState(state));
+      expect(restored).toEqual(state);
+      expect(restored.tracker.issues).toBeInstanceOf(Map);
+      expect(restored.tracker.workflows[0].transitions).toHaveLength(3);
+
+      // The restored state keeps working, action IDs included
+      expect(revertAction(restored, 'A-1').success).toBe(true);
+      expect(getIssueStatus(restored, 'LHR-100')).toBe('To Do');
+      expect(getIssueStatus(state, 'LHR-100')).toBe('In Progress');
+    });
+
+    it('rejects JSON that is not a serialized state', () => {
+      expect(() => deserializeState('{"tracker": {}}')).toThrow('Unsupported Nexus state format');
+    });
+  });
+
   describe('Validation Helpers', () => {
     describe('getIssueStatus', () => {
       it('returns current status', () => {
@@ -424,6 +750,8 @@ describe('NexusState', () => {
 
       expect(wasCommentAdded(state, 'LHR-100')).toBe(true);
       expect(wasCommentAdded(state, 'LHR-103')).toBe(false);
+      expect(wasCommentAdded(state, 'LHR-100', /P-501/)).toBe(true);
+      expect(wasCommentAdded(state, 'LHR-100', /P-999/)).toBe(false);
     });
 
     it('detects the failure case (transitioning LHR-103)', () => {
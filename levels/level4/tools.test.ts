@@ -19,8 +19,8 @@ describe('Tool Executor', () => {
   }
 
   describe('ALL_TOOL_NAMES', () => {
-    it('contains exactly 34 tools', () => {
-      expect(ALL_TOOL_NAMES).toHaveLength(34);
+    it('contains exactly 46 tools', () => {
+      expect(ALL_TOOL_NAMES).toHaveLength(46);
     });
 
     it('contains no duplicates', () => {
@@ -192,6 +192,92 @@ describe('Tool Executor', () => {
     });
   });
 
+  describe('body formats', () => {
+    const output = (toolName: string, args: Record<string, unknown>) =>
+      JSON.parse(executeTool(makeToolCall(toolName, args), state).output);
+
+    it('returns docs as storage XHTML by default, with inline comment markers', () => {
+      const doc = output('getPagesDoc', { docId: 'P-501' });
+      expect(doc.body.storage.representation).toBe('storage');
+      expect(doc.body.storage.value).toContain(
+        '<tr><td><ac:inline-comment-marker ac:ref="IC-77"><strong>LHR-103</strong></ac:inline-comment-marker></td>'
+      );
+    });
+
+    it('returns ADF and Markdown on request', () => {
+      const adf = output('getPagesDoc', { arg0: 'P-501', arg1: 'adf' }).body.adf.value;
+      expect(adf.type).toBe('doc');
+      expect(adf.content.map((n: any) => n.type)).toEqual(['heading', 'heading', 'table', 'heading', 'bulletList']);
+
+      const markdown = output('getPagesDoc', { docId: 'P-501', 'body-format': 'markdown' }).body.markdown.value;
+      expect(markdown).toBe(state.pages.docs.get('P-501')!.body);
+    });
+
+    it('accepts bodies in any format and stores them as Markdown', () => {
+      const storage = '<p>Owner <ac:link><ri:user ri:account-id="user-001"/></ac:link></p>' +
+        '<ac:structured-macro ac:name="status"><ac:parameter ac:name="colour">Green</ac:parameter><ac:parameter ac:name="title">Live</ac:parameter></ac:structured-macro>';
+      const id = output('createPagesDoc', { spaceId: 'SEC', title: 'Status', body: storage }).id;
+      expect(state.pages.docs.get(id)!.body).toBe('Owner @[user-001](user-001)\n\n{status:green:Live}');
+
+      const adf = JSON.stringify({ type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'From ADF' }] }] });
+      const updated = output('updatePagesDoc', { docId: id, body: adf, 'body-format': 'adf' });
+      expect(updated.body.adf.value.content[0].content[0].text).toBe('From ADF');
+      expect(state.pages.docs.get(id)!.body).toBe('From ADF');
+
+      expect(executeTool(makeToolCall('updatePagesDoc', { docId: id, body: '{', 'body-format': 'adf' }), state).error)
+        .toMatch(/^Invalid ADF:/);
+    });
+
+    it('reports the row each inline comment is anchored to', () => {
+      const comments = output('getPagesDocInlineComments', { docId: 'P-501' });
+      expect(comments.results[0].anchorText).toBe('LHR-103 | Summary → Update privacy language | In Progress');
+    });
+  });
+
+  describe('doc history', () => {
+    const output = (toolName: string, args: Record<string, unknown>) =>
+      JSON.parse(executeTool(makeToolCall(toolName, args), state).output);
+
+    it('lists versions newest first and returns old versions', () => {
+      executeTool(makeToolCall('updatePagesDoc', { docId: 'P-501', body: 'Rewritten', version: 3 }), state);
+
+      const history = output('getPagesDocHistory', { docId: 'P-501' });
+      expect(history.results.map((v: any) => [v.number, v.by.displayName, v.current])).toEqual([
+        [4, 'Agent User', true],
+        [3, 'Product Manager', false],
+        [2, 'Product Manager', false],
+        [1, 'Product Manager', false]
+      ]);
+
+      const v2 = output('getPagesDocVersion', { arg0: 'P-501', arg1: 2, arg2: 'markdown' });
+      expect(v2.version).toMatchObject({ number: 2, message: 'First approved rows', current: false });
+      expect(v2.body.markdown.value).toContain('`12 months`');
+
+      expect(executeTool(makeToolCall('getPagesDocVersion', { docId: 'P-501', version: 9 }), state).error)
+        .toBe('Doc P-501 has no version 9. Versions: 1 to 4, see getPagesDocHistory');
+    });
+
+    it('diffs two versions', () => {
+      const diff = output('diffPagesDocVersions', { docId: 'P-501', fromVersion: 2 });
+      expect(diff).toMatchObject({ from: { number: 2 }, to: { number: 3 }, titleChanged: false, linesAdded: 7, linesRemoved: 1 });
+      expect(diff.diff.split('\n').slice(0, 4)).toEqual([
+        '@@ -5,4 +5,10 @@',
+        ' | Tracker key | What to change | Target status |',
+        ' |---|---|---|',
+        '-| **LHR-100** | Set **Retention window** = `12 months` | In Progress |'
+      ]);
+      expect(output('diffPagesDocVersions', { docId: 'P-501', fromVersion: 3, toVersion: 3 }).diff).toBe('');
+    });
+
+    it('returns 409 Conflict for an update based on a stale version', () => {
+      const result = executeTool(makeToolCall('updatePagesDoc', { docId: 'P-501', body: 'Stale', version: 2 }), state);
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(409);
+      expect(result.error).toMatch(/^409 Version conflict: doc P-501 is at version 3/);
+      expect(JSON.parse(result.output).status).toBe(409);
+    });
+  });
+
   describe('searchPagesUsingNql', () => {
     it('searches by title', () => {
       const result = executeTool(makeToolCall('searchPagesUsingNql', {
@@ -209,6 +295,41 @@ describe('Tool Executor', () => {
       const output = JSON.parse(result.output);
       expect(output.results.length).toBe(2);
     });
+
+    it('pages through results with a cursor', () => {
+      const first = JSON.parse(executeTool(makeToolCall('searchPagesUsingNql', {
+        nql: "space = 'SEC' ORDER BY created", limit: 1
+      }), state).output);
+      expect(first.results).toHaveLength(1);
+      expect(first.nextPageToken).toBeTruthy();
+
+      const second = JSON.parse(executeTool(makeToolCall('searchPagesUsingNql', {
+        nql: "space = 'SEC' ORDER BY created", limit: 1, cursor: first.nextPageToken
+      }), state).output);
+      expect(second.results[0].id).not.toBe(first.results[0].id);
+      expect(second.nextPageToken).toBeUndefined();
+
+      const viaPageToken = JSON.parse(executeTool(makeToolCall('searchPagesUsingNql', {
+        nql: "space = 'SEC' ORDER BY created", limit: 1, pageToken: first.nextPageToken
+      }), state).output);
+      expect(viaPageToken.results).toEqual(second.results);
+    });
+
+    it('rejects limits below 1 and rounds fractional ones down', () => {
+      for (const limit of [0, -2, 0.5]) {
+        expect(executeTool(makeToolCall('searchPagesUsingNql', { nql: "space = 'SEC'", limit }), state).error)
+          .toContain('Invalid limit');
+      }
+      const output = JSON.parse(executeTool(makeToolCall('searchPagesUsingNql', { nql: "space = 'SEC'", limit: 1.9 }), state).output);
+      expect(output.results).toHaveLength(1);
+    });
+
+    it('rejects invalid queries and cursors', () => {
+      expect(executeTool(makeToolCall('searchPagesUsingNql', { nql: 'title ~' }), state).error)
+        .toContain('Error in the NQL query');
+      expect(executeTool(makeToolCall('searchPagesUsingNql', { nql: 'type = page', cursor: 'abc' }), state).error)
+        .toContain('Invalid page token');
+    });
   });
 
   // ============ TRACKER ============
@@ -282,6 +403,26 @@ describe('Tool Executor', () => {
       expect(output.transitions.length).toBeGreaterThan(0);
       expect(output.transitions.some((t: any) => t.name === 'Start Progress')).toBe(true);
     });
+
+    it('describes the screen fields a transition needs', () => {
+      const output = JSON.parse(executeTool(makeToolCall('getTransitionsForTrackerIssue', { issueIdOrKey: 'LHR-100' }), state).output);
+      const done = output.transitions.find((t: any) => t.id === 'T-2');
+      expect(done.hasScreen).toBe(true);
+      expect(done.fields.resolution).toMatchObject({ required: true, allowedValues: ['Done', "Won't Do", 'Duplicate'] });
+    });
+  });
+
+  describe('transitionTrackerIssue', () => {
+    it('passes screen fields through', () => {
+      const denied = executeTool(makeToolCall('transitionTrackerIssue', { arg0: 'LHR-100', arg1: 'T-2' }), state);
+      expect(denied.error).toContain('the screen requires resolution');
+
+      const result = executeTool(makeToolCall('transitionTrackerIssue', { arg0: 'LHR-100', arg1: 'T-2', arg2: { resolution: 'Done' } }), state);
+      expect(result.success).toBe(true);
+      const issue = JSON.parse(executeTool(makeToolCall('getTrackerIssue', { issueIdOrKey: 'LHR-100' }), state).output);
+      expect(issue.fields.status).toEqual({ name: 'Done', statusCategory: 'done' });
+      expect(issue.fields.resolution).toEqual({ name: 'Done' });
+    });
   });
 
   describe('editTrackerIssue', () => {
@@ -308,6 +449,30 @@ describe('Tool Executor', () => {
       expect(result.success).toBe(true);
       const output = JSON.parse(result.output);
       expect(output.newStatus).toBe('In Progress');
+      expect(output.actionId).toBe('A-1');
+    });
+  });
+
+  describe('revertAction', () => {
+    it('undoes a change by its actionId', () => {
+      const { actionId } = JSON.parse(executeTool(makeToolCall('transitionTrackerIssue', {
+        issueIdOrKey: 'LHR-103',
+        transitionId: 'T-1'
+      }), state).output);
+
+      const result = executeTool(makeToolCall('revertAction', { arg0: actionId }), state);
+      expect(JSON.parse(result.output)).toEqual({
+        ok: true,
+        reverted: { actionId: 'A-1', action: 'transitionTrackerIssue', target: 'LHR-103' },
+        actionId: 'A-2'
+      });
+      expect(state.tracker.issues.get('LHR-103')?.status).toBe('Blocked - Legal');
+    });
+
+    it('reports unknown actions', () => {
+      const result = executeTool(makeToolCall('revertAction', { actionId: 'A-7' }), state);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Action A-7 not found.');
     });
   });
 
@@ -346,6 +511,50 @@ describe('Tool Executor', () => {
     });
   });
 
+  describe('issue links, hierarchy and sprints', () => {
+    const output = (toolName: string, args: Record<string, unknown>) =>
+      JSON.parse(executeTool(makeToolCall(toolName, args), state).output);
+
+    it('links issues and lists the links with parent and children', () => {
+      const link = output('linkTrackerIssues', { arg0: 'LHR-100', arg1: 'is blocked by', arg2: 'LHR-101' });
+      expect(link).toMatchObject({ ok: true, link: { type: 'blocks', from: 'LHR-101', to: 'LHR-100' }, actionId: 'A-1' });
+
+      const epic = output('createTrackerIssue', { projectKey: 'LHR', summary: 'Retention', issuetype: 'Epic' }).key;
+      output('editTrackerIssue', { issueIdOrKey: 'LHR-100', fields: { parent: epic } });
+
+      const links = output('getTrackerIssueLinks', { issueIdOrKey: 'LHR-100' });
+      expect(links.parent.key).toBe(epic);
+      expect(links.issueLinks).toEqual([{
+        id: link.link.id,
+        type: 'blocks',
+        relationship: 'is blocked by',
+        issue: { key: 'LHR-101', summary: 'Auto-delete transcripts (TBD)', issuetype: 'Task', status: { name: 'To Do', statusCategory: 'todo' } }
+      }]);
+      expect(output('getTrackerIssueLinks', { issueIdOrKey: epic }).children.map((c: any) => c.key)).toEqual(['LHR-100']);
+      expect(output('getTrackerIssue', { issueIdOrKey: 'LHR-100' }).fields.parent).toEqual({ key: epic });
+    });
+
+    it('lists sprint issues and moves issues between sprints', () => {
+      const sprint = output('getSprintIssues', { sprintId: '7' });
+      expect(sprint.sprint).toMatchObject({ name: 'LHR Sprint 7', state: 'active', board: 'LHR board' });
+      expect(sprint.total).toBe(4);
+
+      expect(output('moveIssueToSprint', { arg0: 'LHR Sprint 8', arg1: 'LHR-103' }))
+        .toMatchObject({ ok: true, sprint: { id: '8' }, moved: ['LHR-103'] });
+      expect(output('getSprintIssues', { sprintId: '8' }).issues.map((i: any) => i.key)).toEqual(['LHR-103']);
+      expect(output('getTrackerIssue', { issueIdOrKey: 'LHR-103' }).fields.sprint).toEqual({ id: '8', name: 'LHR Sprint 8', state: 'future' });
+
+      expect(executeTool(makeToolCall('getSprintIssues', { sprintId: '99' }), state).error)
+        .toBe('Sprint "99" not found. Available sprints: 7 (LHR Sprint 7, active), 8 (LHR Sprint 8, future)');
+    });
+
+    it('reports epic and sub-task issue types', () => {
+      const types = output('getTrackerProjectIssueTypesMetadata', { projectKey: 'LHR' }).issueTypes;
+      expect(types.find((t: any) => t.name === 'Sub-task')).toMatchObject({ subtask: true, hierarchyLevel: -1 });
+      expect(types.find((t: any) => t.name === 'Epic')).toMatchObject({ subtask: false, hierarchyLevel: 1 });
+    });
+  });
+
   describe('lookupTrackerAccountId', () => {
     it('finds user by name', () => {
       const result = executeTool(makeToolCall('lookupTrackerAccountId', { query: 'Agent' }), state);
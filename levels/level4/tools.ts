@@ -1,7 +1,7 @@
 /**
  * Nexus MCP Tool Executor
  *
- * Implements all 34 Nexus tools with deterministic behavior.
+ * Implements all 46 Nexus tools with deterministic behavior.
  * Each tool operates on the mutable state and returns JSON results.
  */
 
@@ -10,12 +10,15 @@ import {
   NexusState,
   TrackerIssue,
   PagesDoc,
+  PagesDocVersion,
   // Mutations
   editTrackerIssue,
   transitionTrackerIssue,
   addCommentToTrackerIssue,
   addWorklogToTrackerIssue,
   createTrackerIssue,
+  linkTrackerIssues,
+  moveIssueToSprint,
   createPagesDoc,
   updatePagesDoc,
   createPagesInlineComment,
@@ -23,127 +26,56 @@ import {
   createCatalogComponent,
   createCatalogComponentRelationship,
   createCatalogCustomFieldDefinition,
+  revertAction,
+  // Workflows, hierarchy and sprints
+  getAvailableTransitions,
+  getStatusCategory,
+  getChildIssues,
+  getIssueLinks,
+  findSprint,
+  // Doc history
+  getPagesDocVersion,
+  getAuthorName,
   // Read tracking
   logRead,
 } from './state';
+import { TOOL_DEFINITIONS, ToolName, mapPositionalArgs } from './schemas';
+import { searchTrackerIssues } from './tql';
+import { searchPages } from './nql';
+import { RealismState, executeWithRealism } from './realism';
+import { BodyFormat, bodyToMarkdown, parseBodyFormat, renderBody, resolveAnchor } from './bodyFormats';
+import {
+  DependencyDirection,
+  ComponentOwner,
+  findComponent,
+  findDependencyCycles,
+  getComponentOwners,
+  getComponentsOwnedBy,
+  getImpactAnalysis,
+  getTransitiveDependencies,
+} from './catalog';
+import { authorizeToolCall, canAccessProject, canAccessSpace } from './auth';
+import { NexusNotification, beginTurn } from './events';
 
 export interface ToolResult {
   success: boolean;
   output: string; // JSON stringified result
   error?: string;
+  status?: number; // HTTP-style status for auth failures (401, 403), stale edits (409) and injected failures (429, 5xx)
+  retryAfter?: number; // Seconds, with 429
+  notifications?: NexusNotification[]; // Sent by scenario scripts since the previous call (see events.ts)
 }
 
 // All available tool names for discovery
-export const ALL_TOOL_NAMES = [
-  // Core / Shared
-  'nexusUserInfo',
-  'getAccessibleNexusResources',
-  'search',
-  'fetch',
-  // Pages
-  'createPagesFooterComment',
-  'createPagesInlineComment',
-  'createPagesDoc',
-  'getPagesDoc',
-  'getPagesDocDescendants',
-  'getPagesDocFooterComments',
-  'getPagesDocInlineComments',
-  'getPagesSpaces',
-  'getDocsInPagesSpace',
-  'searchPagesUsingNql',
-  'updatePagesDoc',
-  // Tracker
-  'addCommentToTrackerIssue',
-  'addWorklogToTrackerIssue',
-  'createTrackerIssue',
-  'editTrackerIssue',
-  'getTrackerIssue',
-  'getTrackerIssueRemoteLinks',
-  'getTrackerIssueTypeMetaWithFields',
-  'getTrackerProjectIssueTypesMetadata',
-  'getTransitionsForTrackerIssue',
-  'getVisibleTrackerProjects',
-  'lookupTrackerAccountId',
-  'searchTrackerIssuesUsingTql',
-  'transitionTrackerIssue',
-  // Catalog
-  'createCatalogComponent',
-  'createCatalogComponentRelationship',
-  'createCatalogCustomFieldDefinition',
-  'getCatalogComponent',
-  'getCatalogComponents',
-  'getCatalogCustomFieldDefinitions',
-];
-
-/**
- * Maps positional arguments (arg0, arg1, etc.) to named parameters for each tool.
- * This allows users to call tools like: toolName("value1", "value2")
- * instead of requiring: toolName({ param1: "value1", param2: "value2" })
- */
-const POSITIONAL_ARG_MAPS: Record<string, string[]> = {
-  // Pages tools
-  getPagesDoc: ['docId'],
-  getPagesDocInlineComments: ['docId'],
-  getPagesDocFooterComments: ['docId'],
-  getPagesDocDescendants: ['docId'],
-  getDocsInPagesSpace: ['spaceId'],
-  createPagesDoc: ['spaceId', 'title', 'body'],
-  updatePagesDoc: ['docId', 'title', 'body', 'version'],
-  createPagesInlineComment: ['docId', 'body', 'anchor'],
-  createPagesFooterComment: ['docId', 'body'],
-  searchPagesUsingNql: ['nql'],
-  // Tracker tools
-  getTrackerIssue: ['issueIdOrKey'],
-  getTransitionsForTrackerIssue: ['issueIdOrKey'],
-  editTrackerIssue: ['issueIdOrKey', 'fields'],
-  transitionTrackerIssue: ['issueIdOrKey', 'transitionId'],
-  addCommentToTrackerIssue: ['issueIdOrKey', 'body'],
-  addWorklogToTrackerIssue: ['issueIdOrKey', 'timeSpent'],
-  createTrackerIssue: ['projectKey', 'summary', 'issuetype'],
-  getTrackerIssueRemoteLinks: ['issueIdOrKey'],
-  getTrackerProjectIssueTypesMetadata: ['projectKey'],
-  getTrackerIssueTypeMetaWithFields: ['projectKey', 'issueType'],
-  searchTrackerIssuesUsingTql: ['tql'],
-  lookupTrackerAccountId: ['query'],
-  // Core/Shared tools
-  search: ['query', 'cloudId', 'limit'],
-  fetch: ['ari'],
-  // Catalog tools
-  getCatalogComponent: ['componentId'],
-  createCatalogComponent: ['name', 'type'],
-  createCatalogComponentRelationship: ['sourceId', 'targetId'],
-  createCatalogCustomFieldDefinition: ['name', 'type'],
-};
-
-/**
- * Convert positional arguments (arg0, arg1, ...) to named arguments
- */
-function mapPositionalArgs(toolName: string, args: Record<string, unknown>): Record<string, unknown> {
-  const argMap = POSITIONAL_ARG_MAPS[toolName];
-  if (!argMap) return args;
-
-  const result = { ...args };
-
-  // Map arg0, arg1, etc. to named params
-  for (let i = 0; i < argMap.length; i++) {
-    const positionalKey = `arg${i}`;
-    const namedKey = argMap[i];
-
-    if (positionalKey in args && !(namedKey in args)) {
-      result[namedKey] = args[positionalKey];
-      delete result[positionalKey];
-    }
-  }
-
-  return result;
-}
+export const ALL_TOOL_NAMES: string[] = TOOL_DEFINITIONS.map(d => d.name);
 
 /**
  * Execute a tool call against the state
  */
 export function executeTool(
   call: ParsedToolCall,
-  state: NexusState
+  state: NexusState,
+  realism?: RealismState
 ): ToolResult {
   const toolName = call.toolName;
   const rawArgs = call.arguments || {};
@@ -153,7 +85,7 @@ export function executeTool(
   }
 
   // Get the executor function
-  const executor = TOOL_EXECUTORS[toolName];
+  const executor = TOOL_EXECUTORS[toolName as ToolName];
   if (!executor) {
     return {
       success: false,
@@ -162,14 +94,53 @@ export function executeTool(
     };
   }
 
-  // Map positional args to named args
-  const args = mapPositionalArgs(toolName, rawArgs);
+  // Reactions that are due happen before the call; everything sent since the last call goes out with its result
+  const notifications = beginTurn(state);
+  const result = runTool(toolName, executor, mapPositionalArgs(toolName, rawArgs), state, realism);
+  return notifications.length > 0 ? { ...result, notifications } : result;
+}
+
+function runTool(
+  toolName: string,
+  executor: ToolExecutor,
+  args: Record<string, unknown>,
+  state: NexusState,
+  realism?: RealismState
+): ToolResult {
+  // Scopes and project/space permissions
+  const denied = authorizeToolCall(state, toolName, args);
+  if (denied) {
+    return {
+      success: false,
+      output: JSON.stringify(denied),
+      error: `${denied.status} ${denied.error}`,
+      status: denied.status
+    };
+  }
+
+  // Writes report the ID of the action they logged, for revertAction
+  const run: ToolExecutor = (runArgs, runState) => {
+    const actionCount = runState.actionLog.length;
+    const result = executor(runArgs, runState);
+    const action = runState.actionLog[actionCount];
+    return action && result && typeof result === 'object' && !Array.isArray(result)
+      ? { ...result, actionId: action.id }
+      : result;
+  };
+
+  if (realism) {
+    return executeWithRealism(realism, toolName, args, state, run);
+  }
 
   try {
-    const result = executor(args, state);
+    const result = run(args, state);
     return { success: true, output: JSON.stringify(result, null, 2) };
   } catch (e) {
     const error = (e as Error).message;
+    const status = (e as { status?: number }).status;
+    if (status) {
+      return { success: false, output: JSON.stringify({ status, error }), error: `${status} ${error}`, status };
+    }
     return {
       success: false,
       output: JSON.stringify({ error }),
@@ -178,12 +149,19 @@ export function executeTool(
   }
 }
 
+/**
+ * An error that maps to an HTTP-style status, e.g. 409 for an edit based on a stale version
+ */
+export function statusError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
 // Type for tool executor functions
 type ToolExecutor = (args: Record<string, unknown>, state: NexusState) => unknown;
 
 // ============ TOOL IMPLEMENTATIONS ============
 
-const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
+const TOOL_EXECUTORS: Record<ToolName, ToolExecutor> = {
   // ============ CORE / SHARED ============
 
   nexusUserInfo: (args, state) => {
@@ -201,14 +179,13 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
         id: r.cloudId,
         url: r.site,
         name: r.site.replace('https://', '').replace('.nexus.io', ''),
-        scopes: ['read:tracker-work', 'write:tracker-work', 'read:pages-content.all', 'write:pages-content']
+        scopes: [...state.auth.grantedScopes]
       }))
     };
   },
 
   search: (args, state) => {
     const query = String(args.query || '').toLowerCase();
-    const limit = Math.min(Number(args.limit) || 5, 10);
 
     const results: Array<{
       type: string;
@@ -220,6 +197,7 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
 
     // Search Pages docs
     for (const doc of state.pages.docs.values()) {
+      if (!canAccessSpace(state, doc.spaceId)) continue;
       if (doc.title.toLowerCase().includes(query) || doc.body.toLowerCase().includes(query)) {
         const space = state.pages.spaces.find(s => s.id === doc.spaceId);
         results.push({
@@ -234,6 +212,7 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
 
     // Search Tracker issues
     for (const issue of state.tracker.issues.values()) {
+      if (!canAccessProject(state, issue.projectKey)) continue;
       if (issue.key.toLowerCase().includes(query) ||
           issue.summary.toLowerCase().includes(query) ||
           (issue.description?.toLowerCase().includes(query))) {
@@ -246,7 +225,8 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       }
     }
 
-    return { results: results.slice(0, limit), total: results.length };
+    const { page, next } = pageOf(results, args, 5, 10);
+    return { results: page, total: results.length, ...next };
   },
 
   fetch: (args, state) => {
@@ -271,18 +251,30 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       const issue = state.tracker.issues.get(id) ||
         Array.from(state.tracker.issues.values()).find(i => i.id === id);
       if (!issue) throw new Error(`Issue ${id} not found`);
-      return formatTrackerIssueResponse(issue);
+      return formatTrackerIssueResponse(issue, state);
     }
 
     throw new Error(`Unsupported ARI type: ${product}:${type}`);
   },
 
+  revertAction: (args, state) => {
+    const actionId = String(args.actionId || '');
+    const result = revertAction(state, actionId);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const reverted = state.actionLog.find(a => a.id === actionId)!;
+    return { ok: true, reverted: { actionId, action: reverted.action, target: reverted.target } };
+  },
+
   // ============ PAGES ============
 
   getPagesSpaces: (args, state) => {
-    const limit = Number(args.limit) || 25;
+    const spaces = state.pages.spaces.filter(s => canAccessSpace(state, s.id));
+    const { page, next } = pageOf(spaces, args, 25);
     return {
-      results: state.pages.spaces.slice(0, limit).map(s => ({
+      results: page.map(s => ({
         id: s.id,
         key: s.key,
         name: s.name,
@@ -291,13 +283,13 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
           webui: `https://acme.nexus.io/wiki/spaces/${s.key}`
         }
       })),
-      size: state.pages.spaces.length
+      size: spaces.length,
+      ...next
     };
   },
 
   getDocsInPagesSpace: (args, state) => {
     const spaceId = String(args.spaceId || '');
-    const limit = Number(args.limit) || 25;
 
     const space = state.pages.spaces.find(s => s.id === spaceId || s.key === spaceId);
     if (!space) {
@@ -307,8 +299,9 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
     const docs = Array.from(state.pages.docs.values())
       .filter(p => p.spaceId === space.id);
 
+    const { page, next } = pageOf(docs, args, 25);
     return {
-      results: docs.slice(0, limit).map(p => ({
+      results: page.map(p => ({
         id: p.id,
         title: p.title,
         version: { number: p.version },
@@ -316,7 +309,8 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
           webui: `https://acme.nexus.io/wiki/spaces/${space.key}/docs/${p.id}`
         }
       })),
-      size: docs.length
+      size: docs.length,
+      ...next
     };
   },
 
@@ -326,9 +320,66 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
     if (!doc) {
       throw new Error(`Doc ${docId} not found`);
     }
+    const format = parseBodyFormat(args['body-format']);
     // Log that this doc was read
     logRead(state, `pages:doc:${docId}`, { title: doc.title });
-    return formatPagesDocResponse(doc, state);
+    return formatPagesDocResponse(doc, state, format);
+  },
+
+  getPagesDocHistory: (args, state) => {
+    const doc = getDoc(state, args.docId);
+    const versions = [...doc.history].reverse();
+    const { page, next } = pageOf(versions, args, 25);
+
+    return {
+      id: doc.id,
+      title: doc.title,
+      results: page.map(v => ({
+        number: v.number,
+        when: v.created,
+        by: { displayName: getAuthorName(state, v.author) },
+        message: v.message,
+        current: v.number === doc.version
+      })),
+      size: versions.length,
+      ...next
+    };
+  },
+
+  getPagesDocVersion: (args, state) => {
+    const doc = getDoc(state, args.docId);
+    const version = getVersion(doc, args.version);
+    const format = parseBodyFormat(args['body-format']);
+
+    return {
+      id: doc.id,
+      title: version.title,
+      version: {
+        number: version.number,
+        when: version.created,
+        by: { displayName: getAuthorName(state, version.author) },
+        message: version.message,
+        current: version.number === doc.version
+      },
+      body: formatBody(version.body, format)
+    };
+  },
+
+  diffPagesDocVersions: (args, state) => {
+    const doc = getDoc(state, args.docId);
+    const from = getVersion(doc, args.fromVersion);
+    const to = args.toVersion !== undefined ? getVersion(doc, args.toVersion) : getVersion(doc, doc.version);
+
+    const ops = diffLines(from.body.split('\n'), to.body.split('\n'));
+    return {
+      id: doc.id,
+      from: { number: from.number, title: from.title },
+      to: { number: to.number, title: to.title },
+      titleChanged: from.title !== to.title,
+      linesAdded: ops.filter(op => op.type === '+').length,
+      linesRemoved: ops.filter(op => op.type === '-').length,
+      diff: formatUnifiedDiff(ops)
+    };
   },
 
   getPagesDocInlineComments: (args, state) => {
@@ -348,6 +399,7 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       results: doc.inlineComments.map(c => ({
         id: c.id,
         anchor: c.anchor,
+        anchorText: resolveAnchor(doc.body, c.anchor) ?? null,
         body: { storage: { value: c.body } },
         author: { displayName: c.author },
         created: c.created
@@ -376,24 +428,26 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
 
   getPagesDocDescendants: (args, state) => {
     const docId = String(args.docId || '');
-    const limit = Number(args.limit) || 25;
 
     const descendants = Array.from(state.pages.docs.values())
-      .filter(p => p.parentId === docId);
+      .filter(p => p.parentId === docId && canAccessSpace(state, p.spaceId));
 
+    const { page, next } = pageOf(descendants, args, 25);
     return {
-      results: descendants.slice(0, limit).map(p => ({
+      results: page.map(p => ({
         id: p.id,
         title: p.title
       })),
-      size: descendants.length
+      size: descendants.length,
+      ...next
     };
   },
 
   createPagesDoc: (args, state) => {
     const spaceId = String(args.spaceId || '');
     const title = String(args.title || '');
-    const body = String(args.body || '');
+    const format = parseBodyFormat(args['body-format']);
+    const body = bodyToMarkdown(String(args.body || ''), format);
     const parentId = args.parentId ? String(args.parentId) : undefined;
 
     const result = createPagesDoc(state, spaceId, title, body, parentId);
@@ -414,16 +468,17 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   updatePagesDoc: (args, state) => {
     const docId = String(args.docId || '');
     const title = args.title ? String(args.title) : undefined;
-    const body = args.body ? String(args.body) : undefined;
+    const format = parseBodyFormat(args['body-format']);
+    const body = args.body ? bodyToMarkdown(String(args.body), format) : undefined;
     const version = args.version ? Number(args.version) : undefined;
 
     const result = updatePagesDoc(state, docId, { title, body, version });
     if (!result.success) {
-      throw new Error(result.error);
+      throw result.conflict ? statusError(409, result.error!) : new Error(result.error);
     }
 
     const doc = state.pages.docs.get(docId)!;
-    return formatPagesDocResponse(doc, state);
+    return formatPagesDocResponse(doc, state, format);
   },
 
   createPagesInlineComment: (args, state) => {
@@ -452,51 +507,38 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   },
 
   searchPagesUsingNql: (args, state) => {
-    const nql = String(args.nql || '').toLowerCase();
-    const limit = Number(args.limit) || 25;
-
-    // Very basic NQL parsing
-    const results: PagesDoc[] = [];
+    const nql = String(args.nql || '');
 
-    // Parse "title ~ 'something'" or "text ~ 'something'"
-    const titleMatch = nql.match(/title\s*~\s*["']([^"']+)["']/);
-    const textMatch = nql.match(/text\s*~\s*["']([^"']+)["']/);
-    const spaceMatch = nql.match(/space\s*=\s*["']([^"']+)["']/);
-
-    for (const doc of state.pages.docs.values()) {
-      let matches = true;
-
-      if (titleMatch && !doc.title.toLowerCase().includes(titleMatch[1].toLowerCase())) {
-        matches = false;
-      }
-      if (textMatch && !doc.body.toLowerCase().includes(textMatch[1].toLowerCase())) {
-        matches = false;
-      }
-      if (spaceMatch) {
-        const space = state.pages.spaces.find(s => s.id === doc.spaceId);
-        if (space?.key.toLowerCase() !== spaceMatch[1].toLowerCase()) {
-          matches = false;
-        }
-      }
-
-      if (matches) {
-        results.push(doc);
-      }
-    }
+    const results = searchPages(state, nql)
+      .filter(r => canAccessSpace(state, r.type === 'doc' ? r.doc.spaceId : r.space.id));
+    const { page, limit, next } = pageOf(results, args, 25);
 
     // Return in same format as global search for consistent display
     return {
-      results: results.slice(0, limit).map(p => {
+      results: page.map(result => {
+        if (result.type === 'space') {
+          const space = result.space;
+          return {
+            type: 'pages:space',
+            id: space.id,
+            title: space.name,
+            url: `https://acme.nexus.io/wiki/spaces/${space.key}`
+          };
+        }
+        const p = result.doc;
         const space = state.pages.spaces.find(s => s.id === p.spaceId);
         return {
           type: 'pages:doc',
           id: p.id,
           title: p.title,
           url: `https://acme.nexus.io/wiki/spaces/${space?.key}/docs/${p.id}`,
+          lastModified: p.updated,
           excerpt: p.body.substring(0, 200) + '...'
         };
       }),
-      total: results.length
+      total: results.length,
+      limit,
+      ...next
     };
   },
 
@@ -504,7 +546,7 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
 
   getVisibleTrackerProjects: (args, state) => {
     return {
-      values: state.tracker.projects.map(p => ({
+      values: state.tracker.projects.filter(p => canAccessProject(state, p.key)).map(p => ({
         id: p.id,
         key: p.key,
         name: p.name,
@@ -529,7 +571,8 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       issueTypes: project.issueTypes.map(t => ({
         id: t.id,
         name: t.name,
-        subtask: false
+        subtask: t.hierarchyLevel === -1,
+        hierarchyLevel: t.hierarchyLevel ?? 0
       }))
     };
   },
@@ -570,48 +613,18 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   },
 
   searchTrackerIssuesUsingTql: (args, state) => {
-    const tql = String(args.tql || '').toLowerCase();
-    const limit = Number(args.limit) || 10;
-    const startAt = Number(args.startAt) || 0;
-
-    const results: TrackerIssue[] = [];
-
-    // Basic TQL parsing
-    const projectMatch = tql.match(/project\s*=\s*["']?(\w+)["']?/);
-    const statusMatch = tql.match(/status\s*=\s*["']([^"']+)["']/);
-    const keyMatch = tql.match(/key\s*=\s*["']?([A-Z]+-\d+)["']?/);
-
-    for (const issue of state.tracker.issues.values()) {
-      let matches = true;
-
-      if (projectMatch && issue.projectKey.toLowerCase() !== projectMatch[1].toLowerCase()) {
-        matches = false;
-      }
-      if (statusMatch && issue.status.toLowerCase() !== statusMatch[1].toLowerCase()) {
-        matches = false;
-      }
-      if (keyMatch && issue.key !== keyMatch[1]) {
-        matches = false;
-      }
+    const tql = String(args.tql || '');
 
-      // Fallback: if no specific filters, search in summary
-      if (!projectMatch && !statusMatch && !keyMatch) {
-        if (!issue.summary.toLowerCase().includes(tql) &&
-            !issue.key.toLowerCase().includes(tql)) {
-          matches = false;
-        }
-      }
-
-      if (matches) {
-        results.push(issue);
-      }
-    }
+    const results = searchTrackerIssues(state, tql)
+      .filter(i => canAccessProject(state, i.projectKey));
+    const { page, start, limit, next } = pageOf(results, args, 10);
 
     return {
-      startAt,
+      startAt: start,
       maxResults: limit,
       total: results.length,
-      issues: results.slice(startAt, startAt + limit).map(i => formatTrackerIssueResponse(i))
+      issues: page.map(i => formatTrackerIssueResponse(i, state)),
+      ...next
     };
   },
 
@@ -629,7 +642,7 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       throw new Error(`Issue "${issueIdOrKey}" not found. Available issues: ${availableIssues}`);
     }
 
-    return formatTrackerIssueResponse(issue);
+    return formatTrackerIssueResponse(issue, state);
   },
 
   getTransitionsForTrackerIssue: (args, state) => {
@@ -644,18 +657,113 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       throw new Error(`Issue "${issueIdOrKey}" not found. Available issues: ${availableIssues}`);
     }
 
-    const transitions = state.tracker.transitions.get(issue.key) || [];
     return {
-      transitions: transitions.map(t => ({
+      transitions: getAvailableTransitions(state, issue).map(t => ({
         id: t.id,
         name: t.name,
         to: {
           name: t.toStatus
-        }
+        },
+        hasScreen: !!t.screen?.length,
+        // Screen fields to pass to transitionTrackerIssue
+        fields: t.screen?.length
+          ? Object.fromEntries(t.screen.map(f => [f.key, {
+            name: f.name,
+            required: f.required,
+            schema: f.schema,
+            allowedValues: f.allowedValues
+          }]))
+          : undefined
       }))
     };
   },
 
+  getTrackerIssueLinks: (args, state) => {
+    const issueIdOrKey = String(args.issueIdOrKey || '');
+    const issue = state.tracker.issues.get(issueIdOrKey) ||
+      Array.from(state.tracker.issues.values()).find(i => i.id === issueIdOrKey);
+    if (!issue) {
+      const availableIssues = Array.from(state.tracker.issues.keys()).join(', ');
+      throw new Error(`Issue "${issueIdOrKey}" not found. Available issues: ${availableIssues}`);
+    }
+
+    const summarize = (key: string) => {
+      const linked = state.tracker.issues.get(key)!;
+      return {
+        key: linked.key,
+        summary: linked.summary,
+        issuetype: linked.issueType,
+        status: { name: linked.status, statusCategory: getStatusCategory(state, linked) }
+      };
+    };
+
+    return {
+      key: issue.key,
+      parent: issue.parent ? summarize(issue.parent) : undefined,
+      children: getChildIssues(state, issue.key).map(i => summarize(i.key)),
+      issueLinks: getIssueLinks(state, issue.key).map(({ link, relationship, issueKey }) => ({
+        id: link.id,
+        type: link.type,
+        relationship,
+        issue: summarize(issueKey)
+      }))
+    };
+  },
+
+  linkTrackerIssues: (args, state) => {
+    const issueIdOrKey = String(args.issueIdOrKey || '');
+    const linkType = String(args.linkType || '');
+    const targetIssueIdOrKey = String(args.targetIssueIdOrKey || '');
+
+    const result = linkTrackerIssues(state, issueIdOrKey, linkType, targetIssueIdOrKey);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const link = state.tracker.links.find(l => l.id === result.linkId)!;
+    return { ok: true, link: { id: link.id, type: link.type, from: link.from, to: link.to } };
+  },
+
+  getSprintIssues: (args, state) => {
+    const sprintId = String(args.sprintId || '');
+    const sprint = findSprint(state, sprintId);
+    if (!sprint) {
+      const available = state.tracker.sprints.map(s => `${s.id} (${s.name}, ${s.state})`).join(', ');
+      throw new Error(`Sprint "${sprintId}" not found. Available sprints: ${available || 'none'}`);
+    }
+
+    const issues = Array.from(state.tracker.issues.values())
+      .filter(i => i.sprint === sprint.id && canAccessProject(state, i.projectKey));
+    const { page, next } = pageOf(issues, args, 50);
+    return {
+      sprint: {
+        id: sprint.id,
+        name: sprint.name,
+        state: sprint.state,
+        goal: sprint.goal,
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        board: state.tracker.boards.find(b => b.id === sprint.boardId)?.name
+      },
+      total: issues.length,
+      issues: page.map(i => formatTrackerIssueResponse(i, state)),
+      ...next
+    };
+  },
+
+  moveIssueToSprint: (args, state) => {
+    const sprintId = String(args.sprintId || '');
+    const issueIdOrKey = String(args.issueIdOrKey || '');
+
+    const result = moveIssueToSprint(state, sprintId, issueIdOrKey);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const sprint = findSprint(state, sprintId)!;
+    return { ok: true, sprint: { id: sprint.id, name: sprint.name }, moved: result.moved };
+  },
+
   editTrackerIssue: (args, state) => {
     const issueIdOrKey = String(args.issueIdOrKey || '');
     const fields = (args.fields || {}) as Record<string, unknown>;
@@ -671,8 +779,9 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   transitionTrackerIssue: (args, state) => {
     const issueIdOrKey = String(args.issueIdOrKey || '');
     const transitionId = String(args.transitionId || '');
+    const fields = (args.fields || {}) as Record<string, unknown>;
 
-    const result = transitionTrackerIssue(state, issueIdOrKey, transitionId);
+    const result = transitionTrackerIssue(state, issueIdOrKey, transitionId, fields);
     if (!result.success) {
       throw new Error(result.error);
     }
@@ -709,8 +818,9 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
     const summary = String(args.summary || '');
     const issuetype = String(args.issuetype || 'Task');
     const description = args.description ? String(args.description) : undefined;
+    const parent = args.parent ? String(args.parent) : undefined;
 
-    const result = createTrackerIssue(state, projectKey, summary, issuetype, description);
+    const result = createTrackerIssue(state, projectKey, summary, issuetype, description, parent);
     if (!result.success) {
       throw new Error(result.error);
     }
@@ -741,24 +851,19 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   lookupTrackerAccountId: (args, state) => {
     const query = String(args.query || '').toLowerCase();
 
-    // Only return current user if query matches
-    if (state.user.displayName.toLowerCase().includes(query) ||
-        state.user.email.toLowerCase().includes(query)) {
-      return [{
-        accountId: state.user.accountId,
-        displayName: state.user.displayName,
-        emailAddress: state.user.email,
+    return [state.user, ...state.users]
+      .filter(u => u.displayName.toLowerCase().includes(query) || u.email.toLowerCase().includes(query))
+      .map(u => ({
+        accountId: u.accountId,
+        displayName: u.displayName,
+        emailAddress: u.email,
         active: true
-      }];
-    }
-
-    return [];
+      }));
   },
 
   // ============ CATALOG ============
 
   getCatalogComponents: (args, state) => {
-    const limit = Number(args.limit) || 25;
     const typeFilter = args.type ? String(args.type) : undefined;
 
     let components = Array.from(state.catalog.components.values());
@@ -767,14 +872,16 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
       components = components.filter(c => c.type === typeFilter);
     }
 
+    const { page, next } = pageOf(components, args, 25);
     return {
-      values: components.slice(0, limit).map(c => ({
+      values: page.map(c => ({
         id: c.id,
         name: c.name,
         type: c.type,
         description: c.description
       })),
-      total: components.length
+      total: components.length,
+      ...next
     };
   },
 
@@ -795,6 +902,105 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
     };
   },
 
+  getCatalogComponentDependencies: (args, state) => {
+    const componentId = String(args.componentId || '');
+    const direction = String(args.direction || 'dependencies') as DependencyDirection;
+    if (direction !== 'dependencies' && direction !== 'dependents') {
+      throw new Error(`Unknown direction "${direction}". Use 'dependencies' or 'dependents'.`);
+    }
+    const maxDepth = args.maxDepth !== undefined ? Number(args.maxDepth) : undefined;
+    const relationshipType = args.relationshipType ? String(args.relationshipType) : undefined;
+
+    const nodes = getTransitiveDependencies(state, componentId, direction, { maxDepth, relationshipType });
+    const component = findComponent(state, componentId)!;
+    return {
+      component: { id: component.id, name: component.name },
+      direction,
+      values: nodes.map(n => ({
+        id: n.component.id,
+        name: n.component.name,
+        type: n.component.type,
+        depth: n.depth,
+        path: componentPath(state, n.path)
+      })),
+      total: nodes.length
+    };
+  },
+
+  findCatalogDependencyCycles: (args, state) => {
+    const relationshipType = args.relationshipType ? String(args.relationshipType) : undefined;
+    const cycles = findDependencyCycles(state, relationshipType);
+    return {
+      values: cycles.map(ids => ({
+        components: ids.map(id => ({ id, name: state.catalog.components.get(id)?.name })),
+        path: componentPath(state, [...ids, ids[0]])
+      })),
+      total: cycles.length
+    };
+  },
+
+  getCatalogComponentImpact: (args, state) => {
+    const componentId = String(args.componentId || '');
+    const relationshipType = args.relationshipType ? String(args.relationshipType) : undefined;
+    const impact = getImpactAnalysis(state, componentId, relationshipType);
+    const issues = impact.issues.filter(i => canAccessProject(state, i.issue.projectKey));
+
+    return {
+      component: {
+        id: impact.component.id,
+        name: impact.component.name,
+        owners: getComponentOwners(state, impact.component).map(formatOwner)
+      },
+      dependents: impact.dependents.map(d => ({
+        id: d.component.id,
+        name: d.component.name,
+        depth: d.depth,
+        path: componentPath(state, d.path),
+        owners: getComponentOwners(state, d.component).map(formatOwner)
+      })),
+      issues: issues.map(({ issue, components }) => ({
+        key: issue.key,
+        summary: issue.summary,
+        status: { name: issue.status, statusCategory: getStatusCategory(state, issue) },
+        assignee: issue.assignee ? { accountId: issue.assignee } : undefined,
+        mentions: components.map(id => state.catalog.components.get(id)?.name)
+      })),
+      totals: { dependents: impact.dependents.length, issues: issues.length }
+    };
+  },
+
+  getCatalogComponentOwners: (args, state) => {
+    if (args.accountId) {
+      const accountId = String(args.accountId);
+      const owned = getComponentsOwnedBy(state, accountId);
+      return {
+        accountId,
+        values: owned.map(({ component, fields }) => ({
+          id: component.id,
+          name: component.name,
+          type: component.type,
+          fields: fields.map(f => f.name)
+        })),
+        total: owned.length
+      };
+    }
+
+    const componentId = String(args.componentId || '');
+    if (!componentId) {
+      throw new Error('Pass a componentId to list its owners, or an accountId to list what that account owns');
+    }
+    const component = findComponent(state, componentId);
+    if (!component) {
+      throw new Error(`Component ${componentId} not found`);
+    }
+    const owners = getComponentOwners(state, component);
+    return {
+      component: { id: component.id, name: component.name },
+      values: owners.map(formatOwner),
+      total: owners.length
+    };
+  },
+
   createCatalogComponent: (args, state) => {
     const name = String(args.name || '');
     const type = String(args.type || 'SERVICE') as 'SERVICE' | 'LIBRARY' | 'APPLICATION' | 'OTHER';
@@ -822,15 +1028,16 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
   },
 
   getCatalogCustomFieldDefinitions: (args, state) => {
-    const limit = Number(args.limit) || 25;
+    const { page, next } = pageOf(state.catalog.customFieldDefs, args, 25);
 
     return {
-      values: state.catalog.customFieldDefs.slice(0, limit).map(f => ({
+      values: page.map(f => ({
         id: f.id,
         name: f.name,
         type: f.type
       })),
-      total: state.catalog.customFieldDefs.length
+      total: state.catalog.customFieldDefs.length,
+      ...next
     };
   },
 
@@ -849,7 +1056,149 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
 
 // ============ HELPER FUNCTIONS ============
 
-function formatPagesDocResponse(doc: PagesDoc, state: NexusState) {
+// e.g. "web → api → db"
+function componentPath(state: NexusState, ids: string[]): string {
+  return ids.map(id => state.catalog.components.get(id)?.name ?? id).join(' → ');
+}
+
+function formatOwner(owner: ComponentOwner) {
+  return {
+    field: owner.field.name,
+    accountId: owner.accountId,
+    displayName: owner.user?.displayName,
+    emailAddress: owner.user?.email
+  };
+}
+
+function getDoc(state: NexusState, docId: unknown): PagesDoc {
+  const doc = state.pages.docs.get(String(docId || ''));
+  if (!doc) {
+    throw new Error(`Doc ${String(docId || '')} not found`);
+  }
+  return doc;
+}
+
+function getVersion(doc: PagesDoc, version: unknown): PagesDocVersion {
+  const found = getPagesDocVersion(doc, Number(version));
+  if (!found) {
+    throw new Error(`Doc ${doc.id} has no version ${String(version)}. Versions: 1 to ${doc.version}, see getPagesDocHistory`);
+  }
+  return found;
+}
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+// Line diff from the longest common subsequence; docs are small enough for the O(n*m) table
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] });
+  while (j < b.length) ops.push({ type: '+', line: b[j++] });
+  return ops;
+}
+
+// Unified diff hunks with `context` unchanged lines around each change
+function formatUnifiedDiff(ops: DiffOp[], context: number = 2): string {
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, k) => {
+    if (op.type === ' ') return;
+    const start = Math.max(0, k - context);
+    const end = Math.min(ops.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  });
+
+  // Old and new line numbers at each op
+  let oldLine = 1;
+  let newLine = 1;
+  const lineNumbers = ops.map(op => {
+    const numbers = [oldLine, newLine];
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+    return numbers;
+  });
+
+  return hunks.map(([start, end]) => {
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+    const [oldStart, newStart] = lineNumbers[start];
+    return [`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...hunk.map(op => op.type + op.line)].join('\n');
+  }).join('\n');
+}
+
+// Opaque page tokens; they only carry the offset of the next page
+function encodePageToken(offset: number): string {
+  return btoa(`offset:${offset}`);
+}
+
+function decodePageToken(token: string): number {
+  let match: RegExpMatchArray | null = null;
+  try {
+    match = atob(token).match(/^offset:(\d+)$/);
+  } catch {
+    // Not base64; reported below
+  }
+  if (!match) {
+    throw new Error(`Invalid page token "${token}". Pass the nextPageToken value from the previous page of results.`);
+  }
+  return Number(match[1]);
+}
+
+/**
+ * One page of a list: `limit` items (default `defaultLimit`, at most `maxLimit`) from the
+ * offset in `pageToken` (NQL's `cursor`, or `startAt`), and the token of the next page while more remain
+ */
+function pageOf<T>(items: T[], args: Record<string, unknown>, defaultLimit: number, maxLimit: number = Infinity) {
+  const requested = args.limit ?? defaultLimit;
+  const limit = Math.min(Math.floor(Number(requested)), maxLimit);
+  if (!(limit >= 1)) throw new Error(`Invalid limit "${requested}". Pass a whole number of at least 1.`);
+
+  const token = args.pageToken ?? args.cursor;
+  const start = token ? decodePageToken(String(token)) : Math.max(0, Math.floor(Number(args.startAt) || 0));
+  const end = start + limit;
+  return {
+    page: items.slice(start, end),
+    start,
+    limit,
+    next: end < items.length ? { nextPageToken: encodePageToken(end) } : {}
+  };
+}
+
+// Bodies are keyed by their format, e.g. body.storage.value
+function formatBody(markdown: string, format: BodyFormat, comments: PagesDoc['inlineComments'] = []) {
+  return {
+    [format]: {
+      value: renderBody(markdown, format, comments),
+      representation: format
+    }
+  };
+}
+
+function formatPagesDocResponse(doc: PagesDoc, state: NexusState, format: BodyFormat = 'storage') {
   const space = state.pages.spaces.find(s => s.id === doc.spaceId);
   return {
     id: doc.id,
@@ -863,12 +1212,10 @@ function formatPagesDocResponse(doc: PagesDoc, state: NexusState) {
       number: doc.version,
       when: doc.updated
     },
-    body: {
-      storage: {
-        value: doc.body,
-        representation: 'storage'
-      }
+    metadata: {
+      labels: (doc.labels || []).map(name => ({ name }))
     },
+    body: formatBody(doc.body, format, doc.inlineComments),
     _links: {
       webui: `https://acme.nexus.io/wiki/spaces/${space?.key}/docs/${doc.id}`,
       self: `https://acme.nexus.io/wiki/rest/api/content/${doc.id}`
@@ -876,7 +1223,8 @@ function formatPagesDocResponse(doc: PagesDoc, state: NexusState) {
   };
 }
 
-function formatTrackerIssueResponse(issue: TrackerIssue) {
+function formatTrackerIssueResponse(issue: TrackerIssue, state: NexusState) {
+  const sprint = issue.sprint ? findSprint(state, issue.sprint) : undefined;
   return {
     id: issue.id,
     key: issue.key,
@@ -885,12 +1233,17 @@ function formatTrackerIssueResponse(issue: TrackerIssue) {
       summary: issue.summary,
       description: issue.description,
       status: {
-        name: issue.status
+        name: issue.status,
+        statusCategory: getStatusCategory(state, issue)
       },
       issuetype: {
         name: issue.issueType
       },
       priority: issue.priority ? { name: issue.priority } : undefined,
+      resolution: issue.resolution ? { name: issue.resolution } : undefined,
+      assignee: issue.assignee ? { accountId: issue.assignee } : undefined,
+      parent: issue.parent ? { key: issue.parent } : undefined,
+      sprint: sprint ? { id: sprint.id, name: sprint.name, state: sprint.state } : undefined,
       labels: issue.labels || [],
       created: issue.created,
       updated: issue.updated,
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseTql, searchTrackerIssues } from './tql';
+import { createInitialState, NexusState } from './state';
+
+const NOW = new Date('2024-01-10T12:00:00Z');
+
+describe('TQL', () => {
+  let state: NexusState;
+
+  const keys = (tql: string) => searchTrackerIssues(state, tql, { now: NOW }).map(i => i.key);
+
+  beforeEach(() => {
+    state = createInitialState();
+    const lhr100 = state.tracker.issues.get('LHR-100')!;
+    lhr100.assignee = 'user-001';
+    lhr100.priority = 'High';
+    lhr100.labels = ['retention', 'q1'];
+    lhr100.customFields = { customfield_10001: '18 months' };
+    lhr100.updated = '2024-01-09T08:00:00Z';
+    const lhr101 = state.tracker.issues.get('LHR-101')!;
+    lhr101.priority = 'Low';
+    lhr101.labels = ['q1'];
+    lhr101.comments.push({ id: 'C-1', author: 'user-001', body: 'Waiting on storage team', created: '2024-01-02T10:00:00Z' });
+  });
+
+  describe('parseTql', () => {
+    it('builds a tree with AND binding tighter than OR', () => {
+      const query = parseTql('status = Done OR project = LHR AND NOT labels IS EMPTY ORDER BY created DESC, key');
+      expect(query.where?.type).toBe('or');
+      expect(query.orderBy).toEqual([
+        { field: 'created', direction: 'DESC' },
+        { field: 'key', direction: 'ASC' }
+      ]);
+    });
+
+    it('reports the position of syntax errors', () => {
+      expect(() => parseTql('project = LHR AND status')).toThrow(
+        "Error in the TQL query: Expecting operator but got the end of the query."
+      );
+      expect(() => parseTql('project = LHR AND status')).toThrow('(line 1, character 25)');
+      expect(() => parseTql('project = LHR status = Done')).toThrow(
+        "Expecting either 'OR' or 'AND' but got 'status'. (line 1, character 15)"
+      );
+      expect(() => parseTql('key IN (LHR-100, LHR-101')).toThrow("Expecting ',' or ')' but got the end of the query.");
+      expect(() => parseTql("summary ~ 'roadmap")).toThrow('(line 1, character 11)');
+      expect(() => parseTql('project = LHR\nORDER created')).toThrow("Expecting 'BY' but got 'created'. (line 2, character 7)");
+    });
+  });
+
+  describe('searchTrackerIssues', () => {
+    it('matches all issues for an empty query', () => {
+      expect(keys('')).toEqual(['LHR-100', 'LHR-101', 'LHR-102', 'LHR-103']);
+    });
+
+    it('combines AND, OR, NOT and parentheses', () => {
+      expect(keys("project = LHR AND (status = 'Blocked - Legal' OR key = LHR-102)")).toEqual(['LHR-102', 'LHR-103']);
+      expect(keys("NOT status = 'To Do'")).toEqual(['LHR-103']);
+      expect(keys("status != 'To Do' || priority = High")).toEqual(['LHR-100', 'LHR-103']);
+    });
+
+    it('supports IN, NOT IN and IS EMPTY', () => {
+      expect(keys('key IN (LHR-100, LHR-103)')).toEqual(['LHR-100', 'LHR-103']);
+      expect(keys('priority NOT IN (High)')).toEqual(['LHR-101']);
+      expect(keys('assignee IS EMPTY')).toEqual(['LHR-101', 'LHR-102', 'LHR-103']);
+      expect(keys('labels IS NOT EMPTY AND labels = retention')).toEqual(['LHR-100']);
+    });
+
+    it('matches text with ~', () => {
+      expect(keys('summary ~ "TBD"')).toEqual(['LHR-101', 'LHR-102', 'LHR-103']);
+      expect(keys('text ~ "storage team"')).toEqual(['LHR-101']);
+      expect(keys('summary !~ tbd')).toEqual(['LHR-100']);
+    });
+
+    it('resolves users and currentUser()', () => {
+      expect(keys('assignee = currentUser()')).toEqual(['LHR-100']);
+      expect(keys('assignee = "Agent User"')).toEqual(['LHR-100']);
+    });
+
+    it('resolves other accounts by display name and email', () => {
+      state.users.push({ accountId: 'user-300', displayName: 'Irene (Legal)', email: 'irene@lighthouse.nexus.io' });
+      state.tracker.issues.get('LHR-103')!.assignee = 'user-300';
+      state.tracker.issues.get('LHR-102')!.reporter = 'Irene (Legal)';
+      expect(keys('assignee = "Irene (Legal)"')).toEqual(['LHR-103']);
+      expect(keys('assignee = "irene@lighthouse.nexus.io" OR reporter = user-300')).toEqual(['LHR-102', 'LHR-103']);
+      expect(keys('reporter = "Nobody"')).toEqual([]);
+    });
+
+    it('compares dates, periods and date functions', () => {
+      expect(keys('updated >= -2d')).toEqual(['LHR-100']);
+      expect(keys('updated > "2024/01/08"')).toEqual(['LHR-100']);
+      expect(keys('updated < startOfWeek()')).toEqual(['LHR-101', 'LHR-102', 'LHR-103']);
+      expect(keys('created >= startOfMonth() AND created <= endOfDay(-9)')).toHaveLength(4);
+    });
+
+    it('orders by priority, key and dates', () => {
+      expect(keys('priority IS NOT EMPTY ORDER BY priority DESC')).toEqual(['LHR-100', 'LHR-101']);
+      expect(keys('ORDER BY key DESC')).toEqual(['LHR-103', 'LHR-102', 'LHR-101', 'LHR-100']);
+      expect(keys('ORDER BY updated DESC, key ASC')[0]).toBe('LHR-100');
+    });
+
+    it('follows parents, sprints and issue links', () => {
+      state.tracker.issues.get('LHR-103')!.sprint = '8';
+      state.tracker.issues.get('LHR-102')!.parent = 'LHR-101';
+      state.tracker.links.push(
+        { id: 'L-1', type: 'blocks', from: 'LHR-101', to: 'LHR-100' },
+        { id: 'L-2', type: 'relates', from: 'LHR-100', to: 'LHR-102' }
+      );
+
+      expect(keys('sprint in openSprints()')).toEqual(['LHR-100', 'LHR-101', 'LHR-102']);
+      expect(keys('sprint = "LHR Sprint 8" OR sprint in futureSprints()')).toEqual(['LHR-103']);
+      expect(keys('parent = LHR-101')).toEqual(['LHR-102']);
+      expect(keys('issue in linkedIssues(LHR-100)')).toEqual(['LHR-101', 'LHR-102']);
+      expect(keys("issue in linkedIssues(LHR-100, 'is blocked by')")).toEqual(['LHR-101']);
+      expect(keys('issueLinkType = "is blocked by"')).toEqual(['LHR-100']);
+      expect(() => keys('issue in linkedIssues()')).toThrow("The function 'linkedIssues' requires an issue key");
+    });
+
+    it('queries custom fields by key, cf[] id or name', () => {
+      expect(keys('customfield_10001 = "18 months"')).toEqual(['LHR-100']);
+      expect(keys('cf[10001] ~ months')).toEqual(['LHR-100']);
+      expect(keys('"Retention Window" IS EMPTY')).toHaveLength(3);
+    });
+
+    it('rejects unknown fields, functions and unsupported operators', () => {
+      expect(() => keys('fixVersion = 4')).toThrow("Field 'fixVersion' does not exist");
+      expect(() => keys('created > lastTuesday()')).toThrow("Unable to find TQL function 'lastTuesday()'");
+      expect(() => keys('summary = "Access controls (TBD)"')).toThrow("The operator '=' is not supported by the 'summary' field.");
+      expect(() => keys('created > yesterday')).toThrow("Date value 'yesterday' for field 'created' is invalid");
+    });
+  });
+});
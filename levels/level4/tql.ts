@@ -0,0 +1,150 @@
+/**
+ * TQL (Tracker Query Language)
+ *
+ * Fields for searchTrackerIssuesUsingTql, on top of the shared grammar in query.ts:
+ * project, key (or issue), summary, description, comment, text, status, issuetype, priority,
+ * assignee, reporter, labels, created, updated, parent, sprint, issueLinkType, and custom
+ * fields (customfield_10001, cf[10001] or the field's display name).
+ *
+ * List functions: openSprints(), futureSprints(), closedSprints() and
+ * linkedIssues(key[, relationship]), e.g. issue in linkedIssues(LHR-100, 'is blocked by').
+ */
+
+import { NexusState, TrackerIssue, findSprint, getIssueLinks } from './state';
+import { FieldRef, ParsedQuery, parseQuery, runQuery, unknownFieldError } from './query';
+
+const PRIORITY_RANK: Record<string, number> = { lowest: 1, low: 2, medium: 3, high: 4, highest: 5 };
+
+const present = (...values: Array<string | undefined>) => values.filter((v): v is string => !!v);
+
+/**
+ * A user matches by account ID, display name or email. Values that aren't a known account
+ * (e.g. display names stored by fixtures) match as they are.
+ */
+export function userAliases(state: NexusState, value?: string): string[] {
+  if (!value) return [];
+  const user = [state.user, ...state.users].find(u =>
+    [u.accountId, u.displayName, u.email].some(a => a.toLowerCase() === value.toLowerCase())
+  );
+  return user ? [user.accountId, user.displayName, user.email] : [value];
+}
+
+function tqlFunctions(state: NexusState): Record<string, (args: string[]) => string[]> {
+  const sprintsIn = (sprintState: string) => () =>
+    state.tracker.sprints.filter(s => s.state === sprintState).map(s => s.id);
+
+  return {
+    opensprints: sprintsIn('active'),
+    futuresprints: sprintsIn('future'),
+    closedsprints: sprintsIn('closed'),
+    linkedissues: ([issueKey, relationship]) => {
+      if (!issueKey) throw new Error(`The function 'linkedIssues' requires an issue key, e.g. linkedIssues(LHR-100).`);
+      return getIssueLinks(state, issueKey.toUpperCase())
+        .filter(l => !relationship || l.relationship === relationship.toLowerCase())
+        .map(l => l.issueKey);
+    },
+  };
+}
+
+function resolveTqlField(name: string, state: NexusState): FieldRef<TrackerIssue> {
+  switch (name.toLowerCase()) {
+    case 'project':
+      return {
+        kind: 'exact',
+        get: issue => {
+          const project = state.tracker.projects.find(p => p.key === issue.projectKey);
+          return present(issue.projectKey, project?.name, project?.id);
+        }
+      };
+    case 'key':
+    case 'issuekey':
+    case 'issue':
+    case 'id':
+      return { kind: 'key', get: issue => [issue.key, issue.id] };
+    case 'summary':
+      return { kind: 'text', get: issue => [issue.summary] };
+    case 'description':
+      return { kind: 'text', get: issue => present(issue.description) };
+    case 'comment':
+      return { kind: 'text', get: issue => issue.comments.map(c => c.body) };
+    case 'text':
+      return {
+        kind: 'text',
+        get: issue => [...present(issue.summary, issue.description), ...issue.comments.map(c => c.body)]
+      };
+    case 'status':
+      return { kind: 'exact', get: issue => [issue.status] };
+    case 'type':
+    case 'issuetype':
+      return { kind: 'exact', get: issue => [issue.issueType] };
+    case 'priority':
+      return { kind: 'ordinal', ranks: PRIORITY_RANK, get: issue => present(issue.priority) };
+    case 'assignee':
+      return { kind: 'exact', get: issue => userAliases(state, issue.assignee) };
+    case 'reporter':
+      return { kind: 'exact', get: issue => userAliases(state, issue.reporter) };
+    case 'labels':
+    case 'label':
+      return { kind: 'exact', get: issue => issue.labels || [] };
+    case 'created':
+    case 'createddate':
+      return { kind: 'date', get: issue => [issue.created] };
+    case 'updated':
+    case 'updateddate':
+      return { kind: 'date', get: issue => [issue.updated] };
+    case 'parent':
+      return { kind: 'exact', get: issue => present(issue.parent) };
+    case 'sprint': {
+      return {
+        kind: 'exact',
+        get: issue => {
+          const sprint = issue.sprint ? findSprint(state, issue.sprint) : undefined;
+          return present(issue.sprint, sprint?.name);
+        }
+      };
+    }
+    case 'issuelinktype':
+      return { kind: 'exact', get: issue => getIssueLinks(state, issue.key).map(l => l.relationship) };
+  }
+
+  // Custom fields: customfield_10001, cf[10001], or the field's display name
+  const cfMatch = name.match(/^cf\[(\d+)\]$/i);
+  const fieldKey = cfMatch ? `customfield_${cfMatch[1]}` : name;
+  const meta = state.tracker.projects
+    .flatMap(p => p.issueTypes.flatMap(t => t.fields))
+    .find(f => f.key.startsWith('customfield_') &&
+      (f.key.toLowerCase() === fieldKey.toLowerCase() || f.name.toLowerCase() === name.toLowerCase()));
+
+  if (!meta) throw unknownFieldError(name);
+
+  return {
+    kind: 'custom',
+    get: issue => {
+      const value = issue.customFields?.[meta.key];
+      if (value === undefined || value === null || value === '') return [];
+      return Array.isArray(value) ? value.map(String) : [String(value)];
+    }
+  };
+}
+
+export function parseTql(input: string): ParsedQuery {
+  return parseQuery(input, 'TQL');
+}
+
+/**
+ * Run a TQL query against the Tracker issues in state.
+ * Without ORDER BY, issues keep their creation order.
+ */
+export function searchTrackerIssues(
+  state: NexusState,
+  tql: string,
+  options: { now?: Date } = {}
+): TrackerIssue[] {
+  return runQuery(Array.from(state.tracker.issues.values()), parseTql(tql), {
+    language: 'TQL',
+    resolveField: name => resolveTqlField(name, state),
+    currentUser: state.user.accountId,
+    functions: tqlFunctions(state),
+    now: options.now ?? new Date()
+  });
+}
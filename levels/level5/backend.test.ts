@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { rmSync } from 'fs';
+import { normalizePath, projectRelativePath } from './backend';
+import { createMemoryBackend } from './memoryBackend';
+import { createLocalBackend, LocalBackend } from './localBackend';
+import { createWebVMBackend } from './webvmBackend';
+import { webvmService } from '../../services/webvmService';
+
+vi.mock('../../services/webvmService', () => ({
+  webvmService: {
+    supports: vi.fn(() => true),
+    executeShell: vi.fn(),
+    readFile: vi.fn(async () => ({ bytes: new TextEncoder().encode('x'), size: 1, truncated: false })),
+    writeFile: vi.fn(async () => {}),
+    stat: vi.fn(async () => ({ type: 'file', size: 1 })),
+    listDir: vi.fn(async () => [])
+  }
+}));
+
+const FILES = { 'src/billing.py': 'total = 1\n', 'run_tests.py': 'print("ok")\n' };
+
+describe('project paths', () => {
+  it('resolves paths against the project root', () => {
+    expect(normalizePath('src/../run_tests.py')).toBe('/root/run_tests.py');
+    expect(normalizePath('./src/')).toBe('/root/src');
+    expect(projectRelativePath('/root/src/billing.py')).toBe('src/billing.py');
+    expect(projectRelativePath('/root')).toBe('');
+    expect(projectRelativePath('../etc/passwd')).toBeNull();
+    expect(projectRelativePath('/rootkit')).toBeNull();
+  });
+});
+
+describe('WebVM backend', () => {
+  it('resolves relative paths against the project root, not the shell cwd', async () => {
+    const backend = createWebVMBackend();
+    await backend.readFile('src/billing.py');
+    await backend.writeFile('./src/../notes.txt', 'hi');
+    await backend.stat('run_tests.py');
+    await backend.listDir('.');
+
+    expect(webvmService.readFile).toHaveBeenCalledWith('/root/src/billing.py');
+    expect(webvmService.writeFile).toHaveBeenCalledWith('/root/notes.txt', 'hi');
+    expect(webvmService.stat).toHaveBeenCalledWith('/root/run_tests.py');
+    expect(webvmService.listDir).toHaveBeenCalledWith('/root');
+  });
+});
+
+describe('memory backend', () => {
+  it('keeps files in memory and scripts the shell', async () => {
+    const backend = createMemoryBackend({
+      files: FILES,
+      commands: [{ match: /^python3 (\S+)/, run: ([, script], files) => ({ stdout: `ran ${script} (${files.size} files)\n` }) }]
+    });
+
+    expect(await backend.readFile('/root/src/billing.py')).toBe('total = 1\n');
+    await backend.writeFile('notes/todo.md', '- fix tax\n');
+    expect(await backend.listDir('.')).toEqual([
+      { name: 'notes', type: 'directory' },
+      { name: 'run_tests.py', type: 'file' },
+      { name: 'src', type: 'directory' }
+    ]);
+
+    expect(await backend.exec('python3 run_tests.py')).toMatchObject({ exitCode: 0, stdout: 'ran run_tests.py (3 files)\n' });
+    expect(await backend.exec('cat src/billing.py notes/todo.md')).toMatchObject({ stdout: 'total = 1\n- fix tax\n' });
+    expect(await backend.exec('cat missing.py')).toMatchObject({ exitCode: 1, stderr: 'cat: missing.py: No such file or directory\n' });
+    expect(await backend.exec('make')).toMatchObject({ exitCode: 127, stderr: 'bash: make: command not found\n' });
+
+    expect(await backend.stat('notes')).toEqual({ type: 'directory', size: 0 });
+    expect(await backend.stat('src/billing.py')).toEqual({ type: 'file', size: 10 });
+    expect(await backend.stat('src/nope.py')).toBeNull();
+    await expect(backend.readFile('src')).rejects.toThrow('src: Is a directory');
+    await expect(backend.listDir('run_tests.py')).rejects.toThrow('run_tests.py: Not a directory');
+
+    await backend.reset();
+    await expect(backend.readFile('notes/todo.md')).rejects.toThrow('notes/todo.md: No such file or directory');
+    expect(backend.commands).toHaveLength(4);
+  });
+
+  it('resets to its snapshot', async () => {
+    const backend = createMemoryBackend({ files: FILES });
+    await backend.writeFile('setup.cfg', '[tool]\n');
+    await backend.snapshot();
+
+    await backend.writeFile('src/billing.py', 'total = 2\n');
+    await backend.writeFile('scratch.py', '');
+    await backend.reset();
+    expect([...backend.files.keys()].sort()).toEqual(['/root/run_tests.py', '/root/setup.cfg', '/root/src/billing.py']);
+    expect(await backend.readFile('src/billing.py')).toBe('total = 1\n');
+  });
+});
+
+describe('local backend', () => {
+  let backend: LocalBackend | undefined;
+
+  afterEach(() => {
+    if (backend) rmSync(backend.workspace, { recursive: true, force: true });
+    backend = undefined;
+  });
+
+  it('runs commands in a workspace standing in for the project root', async () => {
+    backend = createLocalBackend({ files: FILES });
+
+    expect(await backend.exec('cat src/billing.py && echo oops >&2 && exit 3')).toMatchObject({
+      exitCode: 3, stdout: 'total = 1\n', stderr: 'oops\n', truncated: false
+    });
+
+    await backend.writeFile('/root/src/tax.py', 'RATE = 0.1\n');
+    expect(await backend.listDir('src')).toEqual([{ name: 'billing.py', type: 'file' }, { name: 'tax.py', type: 'file' }]);
+    expect((await backend.exec('ls src')).stdout).toBe('billing.py\ntax.py\n');
+    await expect(backend.readFile('/etc/passwd')).rejects.toThrow('/etc/passwd: outside the project (/root)');
+    expect(await backend.stat('src')).toMatchObject({ type: 'directory' });
+    expect(await backend.stat('src/tax.py')).toEqual({ type: 'file', size: 11 });
+    expect(await backend.stat('src/nope.py')).toBeNull();
+    await expect(backend.readFile('src')).rejects.toThrow('src: Is a directory');
+    await expect(backend.listDir('run_tests.py')).rejects.toThrow('run_tests.py: Not a directory');
+
+    await backend.reset();
+    await expect(backend.readFile('src/tax.py')).rejects.toThrow('src/tax.py: No such file or directory');
+    expect(await backend.readFile('run_tests.py')).toBe('print("ok")\n');
+  });
+
+  it('does not follow symlinks out of the workspace', async () => {
+    backend = createLocalBackend({ files: FILES });
+    await backend.exec('ln -s / host && ln -s .. up && ln -s src source && ln -s /nonexistent dangling');
+
+    await expect(backend.readFile('host/etc/passwd')).rejects.toThrow('host/etc/passwd: outside the project (/root)');
+    await expect(backend.writeFile('up/escaped.txt', 'x')).rejects.toThrow('up/escaped.txt: outside the project (/root)');
+    await expect(backend.listDir('host')).rejects.toThrow('host: outside the project (/root)');
+    await expect(backend.stat('up')).rejects.toThrow('up: outside the project (/root)');
+    await expect(backend.writeFile('dangling', 'x')).rejects.toThrow('dangling: broken symbolic link');
+
+    // Links that stay inside are fine
+    expect(await backend.readFile('source/billing.py')).toBe('total = 1\n');
+    await backend.writeFile('source/new/tax.py', 'RATE = 0.1\n');
+    expect(await backend.readFile('src/new/tax.py')).toBe('RATE = 0.1\n');
+  });
+
+  it('resets to its snapshot, including deleted files and empty directories', async () => {
+    backend = createLocalBackend({ files: FILES });
+    await backend.exec('mkdir -p build && printf x > .env');
+    await backend.snapshot();
+
+    await backend.exec('rm -rf src build .env && touch scratch.py');
+    await backend.reset();
+    expect(await backend.listDir('.')).toEqual([
+      { name: '.env', type: 'file' },
+      { name: 'build', type: 'directory' },
+      { name: 'run_tests.py', type: 'file' },
+      { name: 'src', type: 'directory' }
+    ]);
+    expect(await backend.readFile('src/billing.py')).toBe('total = 1\n');
+  });
+
+  it('caps output and times out', async () => {
+    backend = createLocalBackend({ maxOutputBytes: 8, timeoutMs: 200 });
+
+    expect(await backend.exec('printf "0123456789abcdef"')).toMatchObject({ stdout: '01234567', truncated: true });
+
+    const slow = await backend.exec('echo started; sleep 5');
+    expect(slow).toMatchObject({ exitCode: 124, stdout: 'started\n', stderr: 'Command timed out after 200ms\n' });
+    expect(slow.durationMs).toBeLessThan(5000);
+  });
+});
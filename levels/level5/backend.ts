@@ -0,0 +1,72 @@
+/**
+ * Level 5 Execution Backends
+ *
+ * Level 5's tools run against an ExecutionBackend rather than WebVM directly, so the
+ * same level runs in the browser (WebVM), on a server or in CI (a local subprocess or
+ * container), and in unit tests (an in-memory mock).
+ *
+ * Each backend is created with the project's starting files. snapshot() saves the project
+ * as it is; reset() puts back the snapshot, or the starting files if none was taken.
+ * Paths may be absolute or relative to the project root (/root). File operations fail
+ * with coreutils-style messages, e.g. "src/x.py: No such file or directory".
+ */
+
+import type { ShellResult } from '../../services/webvmService';
+
+export type { ShellResult };
+
+export type FileType = 'file' | 'directory' | 'other';
+
+export interface DirEntry {
+  name: string;
+  type: FileType;
+}
+
+export interface FileStat {
+  type: FileType;
+  size: number; // Bytes
+}
+
+export interface ExecutionBackend {
+  name: string; // Shown in tool output, e.g. "WebVM"
+  requiresBrowser: boolean;
+  exec(command: string): Promise<ShellResult>;
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  stat(path: string): Promise<FileStat | null>; // null if nothing is there
+  listDir(path: string): Promise<DirEntry[]>; // Sorted by name
+  snapshot(): Promise<void>;
+  reset(): Promise<void>;
+}
+
+// Where the project lives, as the agent sees it
+export const PROJECT_ROOT = '/root';
+
+/**
+ * Resolve `path` against `cwd` to an absolute path without `.`/`..` segments
+ */
+export function normalizePath(path: string, cwd: string = PROJECT_ROOT): string {
+  const segments: string[] = [];
+  for (const segment of (path.startsWith('/') ? path : `${cwd}/${path}`).split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return '/' + segments.join('/');
+}
+
+/**
+ * `path` relative to the project root, or null if it is outside the project
+ */
+export function projectRelativePath(path: string): string | null {
+  const absolute = normalizePath(path);
+  if (absolute === PROJECT_ROOT) return '';
+  return absolute.startsWith(`${PROJECT_ROOT}/`) ? absolute.slice(PROJECT_ROOT.length + 1) : null;
+}
+
+export const fileNotFound = (path: string) => new Error(`${path}: No such file or directory`);
+export const isADirectory = (path: string) => new Error(`${path}: Is a directory`);
+export const notADirectory = (path: string) => new Error(`${path}: Not a directory`);
+
+// Code-unit order, as `ls` sorts in the C locale
+export const compareNames = (a: DirEntry, b: DirEntry) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { level5, formatShellResult, formatFileLines, resetLevel5Environment, setLevel5Backend, PROJECT_FILES } from './index';
+import { createMemoryBackend, MemoryBackend } from './memoryBackend';
+import type { ShellResult } from './backend';
+
+const shell = (result: Partial<ShellResult>): ShellResult =>
+  ({ exitCode: 0, stdout: '', stderr: '', durationMs: 12, truncated: false, ...result });
+
+// Stands in for Python: the tests pass once billing.py adds the tax
+const runTests = {
+  match: /\bpython3 run_tests\.py\b/,
+  run: (_: RegExpMatchArray, files: Map<string, string>) => files.get('/root/src/billing.py')!.includes('subtotal + tax')
+    ? { stdout: 'Running billing tests...\nOK - All tests passed!\n' }
+    : { exitCode: 1, stdout: 'OK - imports\nFAIL - Expected 110.0, got 90.0\n' }
+};
+
+describe('level5.validate', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    backend = createMemoryBackend({ files: PROJECT_FILES, commands: [runTests] });
+    setLevel5Backend(backend);
+  });
+
+  it('passes on the exit code of run_tests.py', async () => {
+    const failed = await level5.validate('shell("python3 run_tests.py")', []);
+    expect(failed.status).toBe('INTERMEDIATE');
+    expect(failed.toolOutput).toContain('[exit code 1]');
+
+    const billing = PROJECT_FILES['src/billing.py'].replace('subtotal - tax', 'subtotal + tax');
+    const written = await level5.validate(`write_file("/root/src/billing.py", ${JSON.stringify(billing)})`, []);
+    expect(written.toolOutput).toBe(`[Mock FS] Wrote ${billing.length} bytes to /root/src/billing.py`);
+
+    const result = await level5.validate('shell("python3 run_tests.py")', []);
+    expect(result.status).toBe('SUCCESS');
+    expect(result.toolOutput).toBe('Running billing tests...\nOK - All tests passed!');
+    expect(backend.commands).toEqual(['python3 run_tests.py', 'python3 run_tests.py']);
+  });
+
+  it("grades on the runner's own exit code, not the pipeline's", async () => {
+    // Stands in for bash: a pipeline exits with its last command's status
+    setLevel5Backend(createMemoryBackend({
+      files: PROJECT_FILES,
+      commands: [{ match: /\| tail/, run: () => ({ stdout: 'FAIL - Tests failed!\n' }) }, runTests]
+    }));
+
+    const piped = await level5.validate('shell("python3 run_tests.py | tail -3")', []);
+    expect(piped.status).toBe('INTERMEDIATE');
+    expect(piped.toolOutput).toBe('FAIL - Tests failed!');
+  });
+
+  it('does not pass on output alone', async () => {
+    // Reading the runner isn't running it
+    const result = await level5.validate('shell("cat run_tests.py")', []);
+    expect(result.status).toBe('INTERMEDIATE');
+    expect(result.toolOutput).toContain('print("OK - All tests passed!")');
+  });
+
+  it('falls back to the printed verdict when the backend reports no exit code', async () => {
+    setLevel5Backend(createMemoryBackend({
+      commands: [{ match: /run_tests/, run: () => ({ exitCode: null, stdout: 'OK - All tests passed!' }) }]
+    }));
+    expect((await level5.validate('shell("python3 run_tests.py")', [])).status).toBe('SUCCESS');
+  });
+
+  it('reads numbered lines through the backend and reports failed reads as tool errors', async () => {
+    expect((await level5.validate('read_file("src/billing.py")', [])).toolOutput).toBe([
+      '     1\tdef calculate_total(subtotal, tax_rate=0.1):',
+      '     2\t    """Calculate the total price including tax."""',
+      '     3\t    tax = subtotal * tax_rate',
+      '     4\t    return subtotal - tax  # BUG: Should be + not -'
+    ].join('\n'));
+    expect((await level5.validate('read_file("src/billing.py", 4)', [])).toolOutput)
+      .toBe('     4\t    return subtotal - tax  # BUG: Should be + not -\n[Lines 4-4 of 4]');
+
+    const missing = await level5.validate('read_file("src/biling.py")', []);
+    expect(missing).toMatchObject({ status: 'FAIL', failType: 'TOOL_ERROR' });
+    expect(missing.message).toBe('Failed to read file: src/biling.py: No such file or directory');
+    expect((await level5.validate('read_file("src")', [])).message).toBe('Failed to read file: src: Is a directory');
+    expect((await level5.validate('read_file({ path: "run_tests.py", offset: 99 })', [])).message)
+      .toBe('Failed to read file: run_tests.py: offset 99 is past the end of the file (30 lines)');
+  });
+
+  it('edits one exact occurrence and shows the diff', async () => {
+    const edited = await level5.validate('edit_file("src/billing.py", "subtotal - tax  # BUG: Should be + not -", "subtotal + tax")', []);
+    expect(edited.toolOutput).toBe([
+      '--- a/src/billing.py',
+      '+++ b/src/billing.py',
+      '@@ -1,4 +1,4 @@',
+      ' def calculate_total(subtotal, tax_rate=0.1):',
+      '     """Calculate the total price including tax."""',
+      '     tax = subtotal * tax_rate',
+      '-    return subtotal - tax  # BUG: Should be + not -',
+      '+    return subtotal + tax'
+    ].join('\n'));
+    expect((await level5.validate('shell("python3 run_tests.py")', [])).status).toBe('SUCCESS');
+
+    expect((await level5.validate('edit_file("src/billing.py", "subtotal - tax", "subtotal + tax")', [])).message)
+      .toBe('Failed to edit file: src/billing.py: old string not found');
+    expect((await level5.validate('edit_file("src/billing.py", "subtotal", "amount")', [])).message)
+      .toBe('Failed to edit file: src/billing.py: old string matched 3 times; include more surrounding lines to make it unique');
+  });
+
+  it('applies patches all or nothing', async () => {
+    const fix = [
+      '--- a/src/billing.py',
+      '+++ b/src/billing.py',
+      '@@ -4 +4 @@',
+      '-    return subtotal - tax  # BUG: Should be + not -',
+      '+    return subtotal + tax',
+      '--- /dev/null',
+      '+++ b/src/tax.py',
+      '@@ -0,0 +1 @@',
+      '+RATE = 0.1'
+    ].join('\n');
+    const broken = fix.replace('+++ b/src/tax.py', '+++ b/run_tests.py').replace('--- /dev/null', '--- a/run_tests.py').replace('@@ -0,0 +1 @@', '@@ -1 +1 @@\n-import os');
+
+    const failed = await level5.validate(`apply_patch(${JSON.stringify(broken)})`, []);
+    expect(failed.message).toBe('Failed to apply patch: run_tests.py: hunk 1 of 1 does not apply; its lines were not found (line 1 is "import sys")');
+    expect(backend.files.get('/root/src/billing.py')).toBe(PROJECT_FILES['src/billing.py']);
+
+    const applied = await level5.validate(`apply_patch(${JSON.stringify(fix)})`, []);
+    expect(applied.toolOutput).toContain('+    return subtotal + tax');
+    expect(applied.toolOutput).toContain('--- a/src/tax.py\n+++ b/src/tax.py\n@@ -0,0 +1,1 @@\n+RATE = 0.1');
+    expect(backend.files.get('/root/src/tax.py')).toBe('RATE = 0.1\n');
+    expect((await level5.validate('shell("python3 run_tests.py")', [])).status).toBe('SUCCESS');
+
+    expect((await level5.validate(`apply_patch(${JSON.stringify('--- a/src/tax.py\n+++ /dev/null\n@@ -1 +0,0 @@\n-RATE = 0.1')})`, [])).message)
+      .toBe("Failed to apply patch: src/tax.py: deleting files isn't supported; use shell() with rm");
+  });
+
+  it('lists directories', async () => {
+    expect((await level5.validate('list_dir()', [])).toolOutput).toBe('run_tests.py\nsrc/');
+    expect((await level5.validate('list_dir("/root/src")', [])).toolOutput).toBe('billing.py');
+    expect((await level5.validate('list_dir("run_tests.py")', [])).message).toBe('Failed to list directory: run_tests.py: Not a directory');
+  });
+});
+
+describe('resetLevel5Environment', () => {
+  it('snapshots the project once and restores it on every later reset', async () => {
+    const backend = createMemoryBackend({ files: PROJECT_FILES, commands: [runTests] });
+    const snapshot = vi.spyOn(backend, 'snapshot');
+    setLevel5Backend(backend);
+
+    await resetLevel5Environment();
+    await level5.validate('write_file("notes.md", "scratch")', []);
+    await level5.validate('edit_file("src/billing.py", "subtotal - tax  # BUG: Should be + not -", "subtotal + tax")', []);
+
+    await resetLevel5Environment();
+    expect(snapshot).toHaveBeenCalledTimes(1);
+    expect(backend.files.has('/root/notes.md')).toBe(false);
+    expect((await level5.validate('shell("python3 run_tests.py")', [])).status).toBe('INTERMEDIATE');
+  });
+
+  it('reports a backend that cannot snapshot on every reset', async () => {
+    const backend = createMemoryBackend({ files: PROJECT_FILES });
+    backend.snapshot = () => Promise.reject(new Error('bridge is out of date'));
+    setLevel5Backend(backend);
+
+    await expect(resetLevel5Environment()).rejects.toThrow('bridge is out of date');
+    await expect(resetLevel5Environment()).rejects.toThrow('bridge is out of date');
+    expect(backend.files.get('/root/src/billing.py')).toBe(PROJECT_FILES['src/billing.py']);
+  });
+});
+
+describe('formatFileLines', () => {
+  const content = 'a\nb\nc\nd\n';
+
+  it('numbers a range of lines and says which', () => {
+    expect(formatFileLines('f', content, 2, 2)).toBe('     2\tb\n     3\tc\n[Lines 2-3 of 4]');
+    expect(formatFileLines('f', content, 1, 10)).toBe('     1\ta\n     2\tb\n     3\tc\n     4\td');
+    expect(formatFileLines('f', '')).toBe('[Empty file]');
+    expect(formatFileLines('f', 'PK\u0003\u0004\0\0')).toBe('[Binary file, 6 bytes]');
+  });
+});
+
+describe('formatShellResult', () => {
+  it('shows stderr and the exit code apart from stdout', () => {
+    expect(formatShellResult(shell({ exitCode: 2, stdout: 'partial\n', stderr: 'Traceback...\n', truncated: true })))
+      .toBe('partial\n[stderr]\nTraceback...\n[output truncated]\n[exit code 2]');
+    expect(formatShellResult(shell({}))).toBe('');
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Level 5: Agent Coding (WebVM)
+ * Level 5: Agent Coding
  *
  * The player acts as a coding agent that must:
  * 1. Run tests to discover a bug
@@ -7,14 +7,141 @@
  * 3. Write a fix
  * 4. Verify the fix passes tests
  *
- * Tools: shell(), read_file(), write_file()
+ * Tools: shell(), read_file(), write_file(), list_dir(), edit_file(), apply_patch()
+ *
+ * The tools run on the configured execution backend: WebVM in the browser by default.
  */
 
 import { Level } from '../../types';
-import { webvmService } from '../../services/webvmService';
+import { DirEntry, ExecutionBackend, PROJECT_ROOT, ShellResult, projectRelativePath } from './backend';
+import { applyHunks, createUnifiedDiff, parsePatch, replaceUnique } from './patch';
+import { createWebVMBackend } from './webvmBackend';
+import { PROJECT_FILES } from './project';
 import { parseToolCall } from './parser';
 
 export * from './parser';
+export * from './backend';
+export * from './project';
+export * from './patch';
+export { createWebVMBackend } from './webvmBackend';
+export { createMemoryBackend } from './memoryBackend';
+export type { MemoryBackend, MemoryBackendOptions, ScriptedCommand } from './memoryBackend';
+
+let backend: ExecutionBackend = createWebVMBackend({ files: PROJECT_FILES });
+
+export function getLevel5Backend(): ExecutionBackend {
+  return backend;
+}
+
+/**
+ * Run Level 5's tools somewhere else, e.g. createLocalBackend() for the CLI or
+ * createMemoryBackend() in tests. Set up the project with resetLevel5Environment().
+ */
+export function setLevel5Backend(next: ExecutionBackend): void {
+  backend = next;
+}
+
+// Backends whose clean project has been snapshotted
+const snapshotted = new WeakSet<ExecutionBackend>();
+
+/**
+ * Put the project back the way the level starts it. The first call sets up the starting
+ * files and snapshots them; later calls (retries, mode switches) restore that snapshot.
+ */
+export async function resetLevel5Environment(): Promise<void> {
+  const current = backend;
+  await current.reset();
+  if (snapshotted.has(current)) return;
+  await current.snapshot();
+  snapshotted.add(current);
+}
+
+// The test runner, however it is invoked (`python3 run_tests.py`, `python ./run_tests.py`, ...)
+const RUN_TESTS = /\bpython3?\s+(\.\/)?run_tests\.py\b/;
+
+// A command that is just the runner; its exit code is the runner's own
+const RUN_TESTS_ALONE = /^\s*python3?\s+(\.\/)?run_tests\.py\s*$/;
+
+// Anything else that runs the runner (`... | tail`, `... || true`) exits with some other
+// command's status, so it is graded by running the runner on its own. In a subshell, so the
+// agent's working directory doesn't change.
+const GRADE_COMMAND = `(cd ${PROJECT_ROOT} && python3 run_tests.py)`;
+
+/**
+ * Shell output for the agent: stdout, then stderr and a non-zero exit code on their own lines
+ */
+export function formatShellResult(result: ShellResult): string {
+  const parts: string[] = [];
+  if (result.stdout) parts.push(result.stdout.replace(/\n$/, ''));
+  if (result.stderr) parts.push(`[stderr]\n${result.stderr.replace(/\n$/, '')}`);
+  if (result.truncated) parts.push('[output truncated]');
+  if (result.exitCode) parts.push(`[exit code ${result.exitCode}]`);
+  return parts.join('\n');
+}
+
+// Lines read_file returns when no limit is given
+const DEFAULT_READ_LIMIT = 2000;
+
+/**
+ * File content for the agent, numbered like `cat -n`, from line `offset` for `limit` lines.
+ * Notes the range when it isn't the whole file. Throws if `offset` is past the end.
+ */
+export function formatFileLines(path: string, content: string, offset = 1, limit = DEFAULT_READ_LIMIT): string {
+  if (!content) return "[Empty file]";
+  if (content.includes('\0')) return `[Binary file, ${new TextEncoder().encode(content).length} bytes]`;
+
+  const lines = content.replace(/\n$/, '').split('\n');
+  if (offset > lines.length) throw new Error(`${path}: offset ${offset} is past the end of the file (${lines.length} lines)`);
+
+  const last = Math.min(lines.length, offset + limit - 1);
+  const numbered = lines.slice(offset - 1, last).map((line, i) => `${String(offset + i).padStart(6)}\t${line}`);
+  if (offset > 1 || last < lines.length) numbered.push(`[Lines ${offset}-${last} of ${lines.length}]`);
+  return numbered.join('\n');
+}
+
+/**
+ * Directory entries for the agent, one per line, directories marked with a trailing slash
+ */
+export function formatDirEntries(entries: DirEntry[]): string {
+  if (entries.length === 0) return "[Empty directory]";
+  return entries.map(e => e.name + (e.type === 'directory' ? '/' : '')).join('\n');
+}
+
+// Paths in diffs are relative to the project root when they can be
+const diffPath = (path: string) => projectRelativePath(path) || path;
+
+/**
+ * Apply a unified-diff patch through the backend. Every file is patched in memory
+ * before any is written, so a hunk that doesn't apply leaves all files as they were.
+ * Resolves with the diff of what changed.
+ */
+async function applyPatch(backend: ExecutionBackend, patch: string): Promise<string> {
+  const changes: Array<{ path: string; before: string; after: string }> = [];
+  for (const file of parsePatch(patch)) {
+    if (file.newPath === null) throw new Error(`${file.oldPath}: deleting files isn't supported; use shell() with rm`);
+    if (file.oldPath !== null && file.oldPath !== file.newPath) {
+      throw new Error(`${file.oldPath}: renaming files isn't supported; use shell() with mv`);
+    }
+    if (file.oldPath === null && await backend.stat(file.newPath)) {
+      throw new Error(`${file.newPath}: already exists; the patch creates it from /dev/null`);
+    }
+
+    // Files patched twice in one patch build on the first change
+    const earlier = changes.find(c => c.path === file.newPath);
+    const before = earlier ? earlier.after : file.oldPath === null ? '' : await backend.readFile(file.newPath);
+    const after = applyHunks(file.newPath, before, file.hunks);
+    if (earlier) earlier.after = after;
+    else changes.push({ path: file.newPath, before, after });
+  }
+
+  for (const { path, after } of changes) await backend.writeFile(path, after);
+  return changes.map(c => createUnifiedDiff(diffPath(c.path), c.before, c.after)).filter(Boolean).join('\n') || "[No changes]";
+}
+
+// Bridges that can't report exit codes leave only the runner's printed verdict
+function testsPassed(result: ShellResult): boolean {
+  return result.exitCode === null ? result.stdout.includes('OK') : result.exitCode === 0;
+}
 
 const REALISTIC_TOOLS = [
   {
@@ -32,11 +159,13 @@ const REALISTIC_TOOLS = [
   {
     "name": "read_file",
     "title": "Read File",
-    "description": "Reads and returns the contents of a file at the specified path.",
+    "description": "Reads a file at the specified path and returns its lines, numbered. Reads up to 2000 lines unless a limit is given.",
     "inputSchema": {
       "type": "object",
       "properties": {
-        "path": { "type": "string", "description": "Path to the file to read." }
+        "path": { "type": "string", "description": "Path to the file to read." },
+        "offset": { "type": "integer", "minimum": 1, "description": "Line number to start reading from (default 1)." },
+        "limit": { "type": "integer", "minimum": 1, "description": "Number of lines to read." }
       },
       "required": ["path"]
     }
@@ -53,6 +182,43 @@ const REALISTIC_TOOLS = [
       },
       "required": ["path", "content"]
     }
+  },
+  {
+    "name": "edit_file",
+    "title": "Edit File",
+    "description": "Replaces one exact occurrence of old_string in a file with new_string and returns a diff of the change. Fails if old_string is not found or matches more than once; include surrounding lines to make it unique.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "path": { "type": "string", "description": "Path to the file to edit." },
+        "old_string": { "type": "string", "description": "The exact text to replace, including whitespace." },
+        "new_string": { "type": "string", "description": "The text to replace it with." }
+      },
+      "required": ["path", "old_string", "new_string"]
+    }
+  },
+  {
+    "name": "apply_patch",
+    "title": "Apply Patch",
+    "description": "Applies a unified diff (--- a/path, +++ b/path, @@ hunks) to one or more files. Nothing is written unless every hunk applies. Returns a diff of what changed.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "patch": { "type": "string", "description": "The unified diff. Use /dev/null as the old path to create a file." }
+      },
+      "required": ["patch"]
+    }
+  },
+  {
+    "name": "list_dir",
+    "title": "List Directory",
+    "description": "Lists the entries of a directory. Directories end with a slash.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "path": { "type": "string", "description": "Directory to list (default: the project root)." }
+      }
+    }
   }
 ];
 
@@ -62,7 +228,14 @@ export const level5: Level = {
   description: "You are a coding agent. A bug has been reported in the billing system. Run the tests, find the bug, and fix it.",
   systemPrompt: "You are a Senior Python Engineer. You have access to an Arch Linux shell.\n\nEnvironment:\n- Python installed (VM)\n- Project root: /root\n- Test runner: `python3 run_tests.py`",
   userPrompt: "Users are reporting that the total calculation is wrong. It seems to be reducing the amount instead of adding tax. Please investigate and fix the bug in `src/billing.py`.",
-  tools: ["shell(command: string)", "read_file(path: string)", "write_file(path: string, content: string)"],
+  tools: [
+    "shell(command: string)",
+    "read_file(path: string, offset?: number, limit?: number)",
+    "write_file(path: string, content: string)",
+    "edit_file(path: string, old_string: string, new_string: string)",
+    "apply_patch(patch: string)",
+    "list_dir(path?: string)"
+  ],
   realisticTools: REALISTIC_TOOLS,
   placeholder: 'shell("python3 run_tests.py")',
   hint: "Start by exploring the file system or running the test suite.",
@@ -84,24 +257,24 @@ export const level5: Level = {
       case 'shell': {
         const command = args.command as string;
         try {
-          const output = await webvmService.executeShell(command);
+          const result = await backend.exec(command);
+          const output = formatShellResult(result);
 
-          // Check for Python test success
-          if (command.includes('run_tests.py')) {
-            if (output.includes('OK')) {
+          // Graded on the test runner's exit code
+          if (RUN_TESTS.test(command)) {
+            const graded = RUN_TESTS_ALONE.test(command) ? result : await backend.exec(GRADE_COMMAND);
+            if (testsPassed(graded)) {
               return {
                 status: 'SUCCESS',
                 message: "Tests passed! Deployment pipeline triggered.",
                 toolOutput: output
               };
             }
-            if (output.includes('FAIL') || output.includes('Traceback')) {
-              return {
-                status: 'INTERMEDIATE',
-                message: "Tests failed",
-                toolOutput: output
-              };
-            }
+            return {
+              status: 'INTERMEDIATE',
+              message: "Tests failed",
+              toolOutput: output
+            };
           }
 
           return {
@@ -112,7 +285,7 @@ export const level5: Level = {
         } catch (e) {
           return {
             status: 'FAIL',
-            message: "VM Execution Failed: " + e,
+            message: `${backend.name} execution failed: ${(e as Error).message}`,
             failType: 'TOOL_ERROR'
           };
         }
@@ -121,17 +294,16 @@ export const level5: Level = {
       case 'read_file': {
         const path = args.path as string;
         try {
-          // Use cat to read the file
-          const output = await webvmService.executeShell(`cat "${path}"`);
+          const content = await backend.readFile(path);
           return {
             status: 'INTERMEDIATE',
             message: "File read",
-            toolOutput: output || "[Empty file]"
+            toolOutput: formatFileLines(path, content, args.offset as number | undefined, args.limit as number | undefined)
           };
         } catch (e) {
           return {
             status: 'FAIL',
-            message: "Failed to read file: " + e,
+            message: "Failed to read file: " + (e as Error).message,
             failType: 'TOOL_ERROR'
           };
         }
@@ -141,16 +313,74 @@ export const level5: Level = {
         const path = args.path as string;
         const content = args.content as string;
         try {
-          await webvmService.writeFile(path, content);
+          await backend.writeFile(path, content);
           return {
             status: 'INTERMEDIATE',
             message: "File saved to disk.",
-            toolOutput: `[WebVM FS] Wrote ${content.length} bytes to ${path}`
+            toolOutput: `[${backend.name} FS] Wrote ${content.length} bytes to ${path}`
+          };
+        } catch (e) {
+          return {
+            status: 'FAIL',
+            message: "Failed to write file: " + (e as Error).message,
+            failType: 'TOOL_ERROR'
+          };
+        }
+      }
+
+      case 'edit_file': {
+        const path = args.path as string;
+        try {
+          const before = await backend.readFile(path);
+          let after: string;
+          try {
+            after = replaceUnique(before, args.old_string as string, args.new_string as string);
+          } catch (e) {
+            throw new Error(`${path}: ${(e as Error).message}`);
+          }
+          await backend.writeFile(path, after);
+          return {
+            status: 'INTERMEDIATE',
+            message: "File edited",
+            toolOutput: createUnifiedDiff(diffPath(path), before, after) || "[No changes]"
+          };
+        } catch (e) {
+          return {
+            status: 'FAIL',
+            message: "Failed to edit file: " + (e as Error).message,
+            failType: 'TOOL_ERROR'
+          };
+        }
+      }
+
+      case 'apply_patch': {
+        try {
+          return {
+            status: 'INTERMEDIATE',
+            message: "Patch applied",
+            toolOutput: await applyPatch(backend, args.patch as string)
+          };
+        } catch (e) {
+          return {
+            status: 'FAIL',
+            message: "Failed to apply patch: " + (e as Error).message,
+            failType: 'TOOL_ERROR'
+          };
+        }
+      }
+
+      case 'list_dir': {
+        const path = args.path as string;
+        try {
+          return {
+            status: 'INTERMEDIATE',
+            message: "Directory listed",
+            toolOutput: formatDirEntries(await backend.listDir(path))
           };
         } catch (e) {
           return {
             status: 'FAIL',
-            message: "VM Connection Error: " + e,
+            message: "Failed to list directory: " + (e as Error).message,
             failType: 'TOOL_ERROR'
           };
         }
@@ -0,0 +1,254 @@
+/**
+ * Local backend for servers and CI: commands run in a subprocess, files live in a
+ * workspace directory on the host that stands in for the project root.
+ *
+ * - Without `image`, each command is `bash -c` in the workspace with a minimal
+ *   environment. Only the working directory is isolated: use this for trusted turns.
+ * - With `image`, each command runs in a throwaway container (`docker run --rm`, no
+ *   network) with the workspace mounted at /root. Use this for untrusted agents.
+ *
+ * Each command is a new shell, so `cd` and variables don't carry over between calls.
+ * File operations run on the host, so paths are resolved through symlinks (which the agent
+ * can create from the shell) and refused if they end up outside the workspace.
+ * Node only: don't import from the app.
+ */
+
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, mkdirSync, readFileSync, readdirSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { lstat, mkdir, readFile, readdir, realpath, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, relative, sep } from 'path';
+import {
+  ExecutionBackend,
+  FileType,
+  PROJECT_ROOT,
+  ShellResult,
+  compareNames,
+  fileNotFound,
+  isADirectory,
+  notADirectory,
+  projectRelativePath
+} from './backend';
+
+export interface LocalBackendOptions {
+  files?: Record<string, string>; // Starting files, relative to the project root
+  workspace?: string; // Host directory for the project; emptied on reset. Default: a new temp dir
+  image?: string; // Run commands in this container image instead of on the host
+  timeoutMs?: number; // Per command, default 30s
+  maxOutputBytes?: number; // Per stream, default 64 KiB
+}
+
+export interface LocalBackend extends ExecutionBackend {
+  workspace: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+
+// Resource limits for each container
+const CONTAINER_LIMITS = ['--pids-limit', '256', '--memory', '512m', '--memory-swap', '512m'];
+
+// Node's errno codes as the messages the other backends use
+function fsError(e: unknown, path: string): Error {
+  switch ((e as NodeJS.ErrnoException).code) {
+    case 'ENOENT': return fileNotFound(path);
+    case 'EISDIR': return isADirectory(path);
+    case 'ENOTDIR': return notADirectory(path);
+    default: return e as Error;
+  }
+}
+
+const fileType = (entry: { isFile(): boolean; isDirectory(): boolean }): FileType =>
+  entry.isFile() ? 'file' : entry.isDirectory() ? 'directory' : 'other';
+
+export function createLocalBackend(options: LocalBackendOptions = {}): LocalBackend {
+  const workspace = options.workspace ?? mkdtempSync(join(tmpdir(), 'level5-'));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+  const hostPath = (path: string): string => {
+    const relative = projectRelativePath(path);
+    if (relative === null) throw outsideProject(path);
+    return join(workspace, relative);
+  };
+  const outsideProject = (path: string) => new Error(`${path}: outside the project (${PROJECT_ROOT})`);
+
+  // hostPath() after following symlinks. The deepest part of the path that exists is resolved
+  // with realpath; the rest doesn't exist yet, so it can't be a link.
+  const resolveHostPath = async (path: string): Promise<string> => {
+    const target = hostPath(path);
+    const root = realpathSync(workspace);
+    let existing = target;
+    while (existing !== workspace) {
+      try {
+        await lstat(existing);
+        break;
+      } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (code !== 'ENOENT' && code !== 'ENOTDIR') throw fsError(e, path);
+        existing = dirname(existing);
+      }
+    }
+    let real: string;
+    try {
+      real = await realpath(existing);
+    } catch {
+      throw new Error(`${path}: broken symbolic link`);
+    }
+    const resolved = join(real, relative(existing, target));
+    if (resolved !== root && !resolved.startsWith(root + sep)) throw outsideProject(path);
+    return resolved;
+  };
+
+  // Snapshots are kept in memory: directories (so empty ones come back) and file contents
+  type Snapshot = { dirs: string[]; files: Array<[string, Buffer]> };
+  let snapshot: Snapshot | null = null;
+
+  const takeSnapshot = (): Snapshot => {
+    const taken: Snapshot = { dirs: [], files: [] };
+    const walk = (dir: string) => {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          taken.dirs.push(relative(workspace, path));
+          walk(path);
+        } else if (entry.isFile()) {
+          taken.files.push([relative(workspace, path), readFileSync(path)]);
+        }
+      }
+    };
+    walk(workspace);
+    return taken;
+  };
+
+  const seed = () => {
+    mkdirSync(workspace, { recursive: true });
+    for (const entry of readdirSync(workspace)) rmSync(join(workspace, entry), { recursive: true, force: true });
+    const files: Array<[string, string | Buffer]> = snapshot ? snapshot.files : Object.entries(options.files ?? {});
+    for (const dir of snapshot?.dirs ?? []) mkdirSync(join(workspace, dir), { recursive: true });
+    for (const [path, content] of files) {
+      const target = hostPath(path);
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content);
+    }
+  };
+  seed();
+
+  const spawnCommand = (command: string, container: string) => options.image
+    ? spawn('docker', [
+      'run', '--rm', '-i', '--name', container, '--network', 'none', ...CONTAINER_LIMITS,
+      '-v', `${workspace}:${PROJECT_ROOT}`, '-w', PROJECT_ROOT, options.image, 'bash', '-c', command
+    ])
+    : spawn('bash', ['-c', command], { cwd: workspace, env: { PATH: process.env.PATH, HOME: workspace, LANG: 'C.UTF-8' }, detached: true });
+
+  const exec = (command: string): Promise<ShellResult> => new Promise((resolve, reject) => {
+    const started = Date.now();
+    const container = `level5-${randomUUID()}`;
+    const child = spawnCommand(command, container);
+    child.stdin.end();
+
+    let truncated = false;
+    const collect = () => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      return {
+        push(chunk: Buffer) {
+          if (size >= maxOutputBytes) { truncated = true; return; }
+          if (size + chunk.length > maxOutputBytes) truncated = true;
+          chunks.push(chunk.subarray(0, maxOutputBytes - size));
+          size += chunk.length;
+        },
+        text: () => Buffer.concat(chunks).toString('utf-8')
+      };
+    };
+    const stdout = collect();
+    const stderr = collect();
+    child.stdout.on('data', stdout.push);
+    child.stderr.on('data', stderr.push);
+
+    let timedOut = false;
+    // Kill the whole process group, so a command that started background jobs doesn't outlive its timeout.
+    // Killing the docker client would leave the container running, so that is killed by name.
+    const timer = setTimeout(() => {
+      timedOut = true;
+      if (options.image) {
+        spawn('docker', ['kill', container], { stdio: 'ignore' }).on('error', () => {});
+        return;
+      }
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }, timeoutMs);
+
+    child.on('error', e => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({
+        exitCode: timedOut ? 124 : code ?? 1,
+        stdout: stdout.text(),
+        stderr: stderr.text() + (timedOut ? `Command timed out after ${timeoutMs}ms\n` : ''),
+        durationMs: Date.now() - started,
+        truncated
+      });
+    });
+  });
+
+  return {
+    name: options.image ? 'Container' : 'Local',
+    requiresBrowser: false,
+    workspace,
+
+    exec,
+
+    async readFile(path) {
+      try {
+        return await readFile(await resolveHostPath(path), 'utf-8');
+      } catch (e) {
+        throw fsError(e, path);
+      }
+    },
+
+    async writeFile(path, content) {
+      const target = await resolveHostPath(path);
+      try {
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, content);
+      } catch (e) {
+        throw fsError(e, path);
+      }
+    },
+
+    async stat(path) {
+      try {
+        const stats = await stat(await resolveHostPath(path));
+        return { type: fileType(stats), size: stats.size };
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw fsError(e, path);
+      }
+    },
+
+    async listDir(path) {
+      try {
+        const entries = await readdir(await resolveHostPath(path), { withFileTypes: true });
+        return entries.map(e => ({ name: e.name, type: fileType(e) })).sort(compareNames);
+      } catch (e) {
+        throw fsError(e, path);
+      }
+    },
+
+    async snapshot() {
+      snapshot = takeSnapshot();
+    },
+
+    async reset() {
+      seed();
+    }
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * In-memory backend for unit tests: a filesystem in a Map and a scripted shell.
+ *
+ * Commands are matched against the scripted commands first, in order; `cat <path>`,
+ * `ls [path]` and `pwd` are built in, and anything else exits 127. Every command is
+ * recorded in `commands`, which reset() leaves alone.
+ */
+
+import {
+  DirEntry,
+  ExecutionBackend,
+  FileStat,
+  PROJECT_ROOT,
+  ShellResult,
+  compareNames,
+  fileNotFound,
+  isADirectory,
+  normalizePath,
+  notADirectory
+} from './backend';
+
+export interface ScriptedCommand {
+  match: RegExp;
+  run: (match: RegExpMatchArray, files: Map<string, string>) => Partial<ShellResult>;
+}
+
+export interface MemoryBackendOptions {
+  files?: Record<string, string>; // Starting files, relative to the project root
+  commands?: ScriptedCommand[];
+}
+
+export interface MemoryBackend extends ExecutionBackend {
+  files: Map<string, string>; // Absolute path -> content
+  commands: string[]; // Every command run, in order
+}
+
+export function createMemoryBackend(options: MemoryBackendOptions = {}): MemoryBackend {
+  const files = new Map<string, string>();
+  const scripted = options.commands ?? [];
+
+  let snapshot: Map<string, string> | null = null;
+
+  const seed = () => {
+    files.clear();
+    if (snapshot) {
+      for (const [path, content] of snapshot) files.set(path, content);
+      return;
+    }
+    for (const [path, content] of Object.entries(options.files ?? {})) files.set(normalizePath(path), content);
+  };
+  seed();
+
+  // Directories exist as long as a file is in them (the project root always does)
+  const isDir = (dir: string): boolean =>
+    dir === PROJECT_ROOT || dir === '/' || [...files.keys()].some(file => file.startsWith(`${dir}/`));
+
+  const stat = (path: string): FileStat | null => {
+    const absolute = normalizePath(path);
+    const content = files.get(absolute);
+    if (content !== undefined) return { type: 'file', size: new TextEncoder().encode(content).length };
+    return isDir(absolute) ? { type: 'directory', size: 0 } : null;
+  };
+
+  const readFile = (path: string): string => {
+    const content = files.get(normalizePath(path));
+    if (content !== undefined) return content;
+    throw stat(path) ? isADirectory(path) : fileNotFound(path);
+  };
+
+  const listDir = (path: string): DirEntry[] => {
+    const dir = normalizePath(path);
+    if (files.has(dir)) throw notADirectory(path);
+    if (!isDir(dir)) throw fileNotFound(path);
+    const prefix = dir === '/' ? '/' : `${dir}/`;
+    const entries = new Map<string, DirEntry>();
+    for (const file of files.keys()) {
+      if (!file.startsWith(prefix)) continue;
+      const [name, ...rest] = file.slice(prefix.length).split('/');
+      entries.set(name, { name, type: rest.length > 0 ? 'directory' : 'file' });
+    }
+    return [...entries.values()].sort(compareNames);
+  };
+
+  const builtin = (command: string): Partial<ShellResult> => {
+    const [program, ...args] = command.trim().split(/\s+/);
+    try {
+      switch (program) {
+        case 'cat':
+          return { stdout: args.map(readFile).join('') };
+        case 'ls':
+          return { stdout: listDir(args[0] ?? '.').map(e => e.name + (e.type === 'directory' ? '/' : '') + '\n').join('') };
+        case 'pwd':
+          return { stdout: `${PROJECT_ROOT}\n` };
+        default:
+          return { exitCode: 127, stderr: `bash: ${program}: command not found\n` };
+      }
+    } catch (e) {
+      return { exitCode: 1, stderr: `${program}: ${(e as Error).message}\n` };
+    }
+  };
+
+  const backend: MemoryBackend = {
+    name: 'Mock',
+    requiresBrowser: false,
+    files,
+    commands: [],
+
+    async exec(command) {
+      backend.commands.push(command);
+      const script = scripted.find(s => s.match.test(command));
+      const result = script ? script.run(command.match(script.match)!, files) : builtin(command);
+      return { exitCode: 0, stdout: '', stderr: '', durationMs: 0, truncated: false, ...result };
+    },
+
+    readFile: async path => readFile(path),
+
+    async writeFile(path, content) {
+      files.set(normalizePath(path), content);
+    },
+
+    stat: async path => stat(path),
+
+    listDir: async path => listDir(path),
+
+    async snapshot() {
+      snapshot = new Map(files);
+    },
+
+    async reset() {
+      seed();
+    }
+  };
+  return backend;
+}
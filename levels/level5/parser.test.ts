@@ -95,6 +95,53 @@ describe('parseToolCall', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('non-empty');
     });
+
+    it('parses an offset and limit', () => {
+      expect(parseToolCall('read_file("src/billing.py", 10, 20)').call?.args).toEqual({ path: 'src/billing.py', offset: 10, limit: 20 });
+      expect(parseToolCall('read_file({ path: "a.py", limit: 5 })').call?.args).toEqual({ path: 'a.py', limit: 5 });
+    });
+
+    it('rejects offsets that are not line numbers', () => {
+      expect(parseToolCall('read_file("a.py", 0)').error).toBe('read_file() offset must be a whole number of at least 1');
+      expect(parseToolCall('read_file("a.py", 1, "ten")').error).toBe('read_file() limit must be a whole number of at least 1');
+    });
+  });
+
+  describe('edit_file', () => {
+    it('parses positional and object arguments', () => {
+      expect(parseToolCall('edit_file("src/billing.py", "subtotal - tax", "subtotal + tax")').call).toEqual({
+        tool: 'edit_file',
+        args: { path: 'src/billing.py', old_string: 'subtotal - tax', new_string: 'subtotal + tax' }
+      });
+      expect(parseToolCall('edit_file({ path: "a.py", old: "x = 1\\n", new: "" })').call?.args)
+        .toEqual({ path: 'a.py', old_string: 'x = 1\n', new_string: '' });
+    });
+
+    it('requires all three strings', () => {
+      expect(parseToolCall('edit_file("a.py", "x")').error).toBe('edit_file() requires three quoted strings: path, old_string and new_string');
+      expect(parseToolCall('edit_file("a.py", "", "y")').error).toBe('edit_file() requires a non-empty old_string');
+    });
+  });
+
+  describe('apply_patch', () => {
+    it('parses the patch and its escaped newlines', () => {
+      expect(parseToolCall('apply_patch("--- a/x\\n+++ b/x\\n@@ -1 +1 @@\\n-a\\n+b")').call)
+        .toEqual({ tool: 'apply_patch', args: { patch: '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b' } });
+      expect(parseToolCall(JSON.stringify({ name: 'apply_patch', arguments: { patch: '--- a/x' } })).call?.tool).toBe('apply_patch');
+      expect(parseToolCall('apply_patch()').error).toBe('apply_patch() requires a patch argument');
+    });
+  });
+
+  describe('list_dir', () => {
+    it('defaults to the project root', () => {
+      expect(parseToolCall('list_dir()').call).toEqual({ tool: 'list_dir', args: { path: '.' } });
+      expect(parseToolCall(JSON.stringify({ name: 'list_dir', arguments: {} })).call?.args.path).toBe('.');
+    });
+
+    it('parses a path', () => {
+      expect(parseToolCall('list_dir("src")').call?.args.path).toBe('src');
+      expect(parseToolCall('list_dir({ path: "/root" })').call?.args.path).toBe('/root');
+    });
   });
 
   describe('write_file', () => {
@@ -227,7 +274,7 @@ describe('parseToolCall', () => {
       const result = parseToolCall('unknown_tool("arg")');
       expect(result.success).toBe(false);
       expect(result.error).toContain('Unknown tool');
-      expect(result.error).toContain('shell, read_file, write_file');
+      expect(result.error).toContain('shell, read_file, write_file, list_dir');
     });
 
     it('rejects invalid syntax', () => {
@@ -3,11 +3,16 @@
  *
  * Parses tool calls for the WebVM level with strict syntax validation:
  * - shell(command: string)      - Execute shell command
- * - read_file(path: string)     - Read file contents (via cat)
+ * - read_file(path, offset?, limit?) - Read file contents, optionally a range of lines
  * - write_file(path, content)   - Write file contents
+ * - list_dir(path?)             - List a directory (default: the project root)
+ * - edit_file(path, old_string, new_string) - Replace one exact occurrence in a file
+ * - apply_patch(patch)          - Apply a unified diff
  */
 
-export type ToolName = 'shell' | 'read_file' | 'write_file';
+export type ToolName = 'shell' | 'read_file' | 'write_file' | 'list_dir' | 'edit_file' | 'apply_patch';
+
+const TOOL_NAMES: ToolName[] = ['shell', 'read_file', 'write_file', 'list_dir', 'edit_file', 'apply_patch'];
 
 export interface ParsedToolCall {
   tool: ToolName;
@@ -50,7 +55,7 @@ function parseJsonFormat(input: string): ParserResult {
     const args = parsed.arguments || {};
 
     if (!isValidToolName(name)) {
-      return { success: false, error: `Unknown tool: "${name}". Available tools: shell, read_file, write_file` };
+      return { success: false, error: `Unknown tool: "${name}". Available tools: ${TOOL_NAMES.join(', ')}` };
     }
 
     return validateAndBuild(name, args);
@@ -63,7 +68,7 @@ function parseJsonFormat(input: string): ParserResult {
  * Check if name is a valid tool
  */
 function isValidToolName(name: string): name is ToolName {
-  return ['shell', 'read_file', 'write_file'].includes(name);
+  return (TOOL_NAMES as string[]).includes(name);
 }
 
 /**
@@ -81,7 +86,7 @@ function parseFunctionCall(input: string): ParserResult {
   const argsStr = funcMatch[2];
 
   if (!isValidToolName(funcName)) {
-    return { success: false, error: `Unknown tool: "${funcName}". Available tools: shell, read_file, write_file` };
+    return { success: false, error: `Unknown tool: "${funcName}". Available tools: ${TOOL_NAMES.join(', ')}` };
   }
 
   // Validate balanced brackets
@@ -162,6 +167,12 @@ function parseToolArguments(tool: ToolName, argsStr: string): ParserResult {
       return parseReadFileArgs(trimmed);
     case 'write_file':
       return parseWriteFileArgs(trimmed);
+    case 'list_dir':
+      return parseListDirArgs(trimmed);
+    case 'edit_file':
+      return parseEditFileArgs(trimmed);
+    case 'apply_patch':
+      return parseApplyPatchArgs(trimmed);
     default:
       return { success: false, error: `Unknown tool: ${tool}` };
   }
@@ -199,34 +210,70 @@ function parseShellArgs(argsStr: string): ParserResult {
 }
 
 /**
- * Parse read_file(path) arguments
- * Supports: read_file("path") or read_file({ path: "..." })
+ * Parse read_file(path, offset?, limit?) arguments
+ * Supports: read_file("path"), read_file("path", 10, 20) or read_file({ path: "...", offset: 10, limit: 20 })
  */
 function parseReadFileArgs(argsStr: string): ParserResult {
   if (!argsStr) {
     return { success: false, error: 'read_file() requires a path argument' };
   }
 
-  // Object format: { path: "..." }
+  // Object format: { path: "...", offset?: n, limit?: n }
   if (argsStr.startsWith('{')) {
     try {
       const parsed = parseLooseJson(argsStr);
       if (typeof parsed.path !== 'string') {
         return { success: false, error: 'read_file({ path }) requires string path' };
       }
-      return validateAndBuild('read_file', { path: parsed.path });
+      return validateAndBuild('read_file', { path: parsed.path, offset: parsed.offset, limit: parsed.limit });
     } catch (e) {
       return { success: false, error: `Invalid read_file arguments: ${(e as Error).message}` };
     }
   }
 
+  // Positional format: "path"[, offset[, limit]]
+  const [pathPart, ...rest] = splitTopLevelArgs(argsStr);
+  const path = extractString(pathPart);
+  if (path === null) {
+    return { success: false, error: 'read_file() requires a quoted string path' };
+  }
+  if (rest.length > 2) {
+    return { success: false, error: 'read_file() takes at most three arguments: path, offset and limit' };
+  }
+
+  const [offset, limit] = rest.map(Number);
+  return validateAndBuild('read_file', { path, offset, limit });
+}
+
+/**
+ * Parse list_dir(path?) arguments
+ * Supports: list_dir(), list_dir("src") or list_dir({ path: "src" })
+ */
+function parseListDirArgs(argsStr: string): ParserResult {
+  if (!argsStr) {
+    return validateAndBuild('list_dir', {});
+  }
+
+  // Object format: { path?: "..." }
+  if (argsStr.startsWith('{')) {
+    try {
+      const parsed = parseLooseJson(argsStr);
+      if (parsed.path !== undefined && typeof parsed.path !== 'string') {
+        return { success: false, error: 'list_dir({ path }) requires string path' };
+      }
+      return validateAndBuild('list_dir', { path: parsed.path });
+    } catch (e) {
+      return { success: false, error: `Invalid list_dir arguments: ${(e as Error).message}` };
+    }
+  }
+
   // String format: "path"
   const path = extractString(argsStr);
   if (path === null) {
-    return { success: false, error: 'read_file() requires a quoted string path' };
+    return { success: false, error: 'list_dir() requires a quoted string path' };
   }
 
-  return validateAndBuild('read_file', { path });
+  return validateAndBuild('list_dir', { path });
 }
 
 /**
@@ -281,6 +328,79 @@ function parseWriteFileArgs(argsStr: string): ParserResult {
   });
 }
 
+/**
+ * Parse edit_file(path, old_string, new_string) arguments
+ * Supports: edit_file("path", "old", "new") or edit_file({ path: "...", old_string: "...", new_string: "..." })
+ */
+function parseEditFileArgs(argsStr: string): ParserResult {
+  if (!argsStr) {
+    return { success: false, error: 'edit_file() requires path, old_string and new_string arguments' };
+  }
+
+  // Object format: { path, old_string, new_string } (old/new also accepted)
+  if (argsStr.startsWith('{')) {
+    try {
+      const parsed = parseLooseJson(argsStr);
+      const oldString = parsed.old_string ?? parsed.old;
+      const newString = parsed.new_string ?? parsed.new;
+      if (typeof parsed.path !== 'string' || typeof oldString !== 'string' || typeof newString !== 'string') {
+        return { success: false, error: 'edit_file({ path, old_string, new_string }) requires three strings' };
+      }
+      return validateAndBuild('edit_file', {
+        path: parsed.path,
+        old_string: processEscapeSequences(oldString),
+        new_string: processEscapeSequences(newString)
+      });
+    } catch (e) {
+      return { success: false, error: `Invalid edit_file arguments: ${(e as Error).message}` };
+    }
+  }
+
+  // Positional format: "path", "old", "new"
+  const parts = splitTopLevelArgs(argsStr).map(extractString);
+  if (parts.length !== 3 || parts.some(part => part === null)) {
+    return { success: false, error: 'edit_file() requires three quoted strings: path, old_string and new_string' };
+  }
+
+  const [path, oldString, newString] = parts as string[];
+  return validateAndBuild('edit_file', {
+    path,
+    old_string: processEscapeSequences(oldString),
+    new_string: processEscapeSequences(newString)
+  });
+}
+
+/**
+ * Parse apply_patch(patch) arguments
+ * Supports: apply_patch("--- a/x\n+++ b/x\n@@ ...") or apply_patch({ patch: "..." })
+ */
+function parseApplyPatchArgs(argsStr: string): ParserResult {
+  if (!argsStr) {
+    return { success: false, error: 'apply_patch() requires a patch argument' };
+  }
+
+  // Object format: { patch: "..." }
+  if (argsStr.startsWith('{')) {
+    try {
+      const parsed = parseLooseJson(argsStr);
+      if (typeof parsed.patch !== 'string') {
+        return { success: false, error: 'apply_patch({ patch }) requires string patch' };
+      }
+      return validateAndBuild('apply_patch', { patch: processEscapeSequences(parsed.patch) });
+    } catch (e) {
+      return { success: false, error: `Invalid apply_patch arguments: ${(e as Error).message}` };
+    }
+  }
+
+  // String format: "patch"
+  const patch = extractString(argsStr);
+  if (patch === null) {
+    return { success: false, error: 'apply_patch() requires a quoted string patch' };
+  }
+
+  return validateAndBuild('apply_patch', { patch: processEscapeSequences(patch) });
+}
+
 /**
  * Process escape sequences in string content
  * Uses a placeholder approach to handle \\\\ correctly
@@ -434,14 +554,26 @@ function validateAndBuild(tool: ToolName, args: Record<string, unknown>): Parser
         call: { tool: 'shell', args: { command: args.command } }
       };
 
-    case 'read_file':
+    case 'read_file': {
       if (typeof args.path !== 'string' || !args.path.trim()) {
         return { success: false, error: 'read_file() requires a non-empty path string' };
       }
+      // offset is the first line to read (lines start at 1), limit the number of lines
+      for (const name of ['offset', 'limit'] as const) {
+        const value = args[name];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+          return { success: false, error: `read_file() ${name} must be a whole number of at least 1` };
+        }
+      }
+      const { offset, limit } = args;
       return {
         success: true,
-        call: { tool: 'read_file', args: { path: args.path } }
+        call: {
+          tool: 'read_file',
+          args: { path: args.path, ...(offset !== undefined ? { offset } : {}), ...(limit !== undefined ? { limit } : {}) }
+        }
       };
+    }
 
     case 'write_file':
       if (typeof args.path !== 'string' || !args.path.trim()) {
@@ -455,6 +587,41 @@ function validateAndBuild(tool: ToolName, args: Record<string, unknown>): Parser
         call: { tool: 'write_file', args: { path: args.path, content: args.content } }
       };
 
+    case 'edit_file':
+      if (typeof args.path !== 'string' || !args.path.trim()) {
+        return { success: false, error: 'edit_file() requires a non-empty path string' };
+      }
+      if (typeof args.old_string !== 'string' || !args.old_string) {
+        return { success: false, error: 'edit_file() requires a non-empty old_string' };
+      }
+      if (typeof args.new_string !== 'string') {
+        return { success: false, error: 'edit_file() requires a new_string' };
+      }
+      return {
+        success: true,
+        call: { tool: 'edit_file', args: { path: args.path, old_string: args.old_string, new_string: args.new_string } }
+      };
+
+    case 'apply_patch':
+      if (typeof args.patch !== 'string' || !args.patch.trim()) {
+        return { success: false, error: 'apply_patch() requires a non-empty patch string' };
+      }
+      return {
+        success: true,
+        call: { tool: 'apply_patch', args: { patch: args.patch } }
+      };
+
+    case 'list_dir': {
+      const path = args.path ?? '.';
+      if (typeof path !== 'string' || !path.trim()) {
+        return { success: false, error: 'list_dir() requires a non-empty path string' };
+      }
+      return {
+        success: true,
+        call: { tool: 'list_dir', args: { path } }
+      };
+    }
+
     default:
       return { success: false, error: `Unknown tool: ${tool}` };
   }
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { applyHunks, createUnifiedDiff, parsePatch, replaceUnique } from './patch';
+
+const BILLING = [
+  'def calculate_total(subtotal, tax_rate=0.1):',
+  '    """Calculate the total price including tax."""',
+  '    tax = subtotal * tax_rate',
+  '    return subtotal - tax  # BUG: Should be + not -',
+  ''
+].join('\n');
+
+const FIX = [
+  '--- a/src/billing.py',
+  '+++ b/src/billing.py',
+  '@@ -3,2 +3,2 @@',
+  '     tax = subtotal * tax_rate',
+  '-    return subtotal - tax  # BUG: Should be + not -',
+  '+    return subtotal + tax'
+].join('\n');
+
+describe('replaceUnique', () => {
+  it('replaces exactly one occurrence', () => {
+    expect(replaceUnique('a = 1\nb = 2\n', 'b = 2', 'b = 3')).toBe('a = 1\nb = 3\n');
+    expect(() => replaceUnique('a = 1\n', 'c = 1', 'c = 2')).toThrow('old string not found');
+    expect(() => replaceUnique('x\nx\nx\n', 'x', 'y')).toThrow('old string matched 3 times; include more surrounding lines to make it unique');
+    expect(() => replaceUnique('x', '', 'y')).toThrow('old string is empty');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('shows changed lines with three lines of context', () => {
+    const after = BILLING.replace('subtotal - tax  # BUG: Should be + not -', 'subtotal + tax');
+    expect(createUnifiedDiff('src/billing.py', BILLING, after)).toBe([
+      '--- a/src/billing.py',
+      '+++ b/src/billing.py',
+      '@@ -1,4 +1,4 @@',
+      ' def calculate_total(subtotal, tax_rate=0.1):',
+      '     """Calculate the total price including tax."""',
+      '     tax = subtotal * tax_rate',
+      '-    return subtotal - tax  # BUG: Should be + not -',
+      '+    return subtotal + tax'
+    ].join('\n'));
+    expect(createUnifiedDiff('x', BILLING, BILLING)).toBe('');
+  });
+
+  it('splits distant changes into hunks and numbers new files from zero', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', '');
+    const headers = createUnifiedDiff('f', before, after).split('\n').filter(l => l.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,4 @@']);
+
+    expect(createUnifiedDiff('new.py', '', 'a\nb\n')).toBe('--- a/new.py\n+++ b/new.py\n@@ -0,0 +1,2 @@\n+a\n+b');
+  });
+});
+
+describe('parsePatch', () => {
+  it('reads files and hunks', () => {
+    const files = parsePatch(`diff --git a/src/billing.py b/src/billing.py\nindex 1234..5678 100644\n${FIX}\n`);
+    expect(files).toEqual([{
+      oldPath: 'src/billing.py',
+      newPath: 'src/billing.py',
+      hunks: [{ oldStart: 3, oldLines: 2, newStart: 3, newLines: 2, lines: FIX.split('\n').slice(3) }]
+    }]);
+
+    const created = parsePatch('--- /dev/null\n+++ b/src/tax.py\n@@ -0,0 +1 @@\n+RATE = 0.1\n');
+    expect(created[0]).toMatchObject({ oldPath: null, newPath: 'src/tax.py', hunks: [{ newLines: 1, lines: ['+RATE = 0.1'] }] });
+  });
+
+  it('says what is wrong with a malformed patch', () => {
+    expect(() => parsePatch('@@ -1 +1 @@\n-a\n+b')).toThrow('Line 1: hunk before any "--- <path>" / "+++ <path>" header');
+    expect(() => parsePatch('--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n-a\n+b')).toThrow('Patch ends in the middle of a hunk');
+    expect(() => parsePatch('--- a/x\n+++ b/x\n@@ -1,2 +1,1 @@\n-a\nfoo\n')).toThrow('Line 5: hunk ends early');
+    expect(() => parsePatch('just some text')).toThrow('No file headers found');
+  });
+});
+
+describe('applyHunks', () => {
+  it('applies hunks, finding context that has moved', () => {
+    const [{ hunks }] = parsePatch(FIX);
+    const fixed = applyHunks('src/billing.py', BILLING, hunks);
+    expect(fixed).toContain('    return subtotal + tax\n');
+
+    // Two lines added above the hunk: it still applies, two lines further down
+    expect(applyHunks('src/billing.py', `import math\n\n${BILLING}`, hunks)).toBe(`import math\n\n${fixed}`);
+  });
+
+  it('round-trips its own diffs, including pure insertions without context', () => {
+    const before = 'a\nb\nc\nd\n';
+    for (const after of ['a\nb\nc\nX\nd\n', 'X\na\nb\nc\nd\n', 'a\nb\nc\nd\nX\n', 'a\nc\nY\nd\n']) {
+      for (const context of [0, 3]) {
+        const diff = createUnifiedDiff('f', before, after, context);
+        const [{ hunks }] = parsePatch(diff);
+        expect(applyHunks('f', before, hunks), diff).toBe(after);
+      }
+    }
+    expect(createUnifiedDiff('f', before, 'a\nb\nc\nX\nd\n', 0)).toContain('@@ -3,0 +4,1 @@');
+  });
+
+  it('refuses hunks whose lines are not there', () => {
+    const [{ hunks }] = parsePatch(FIX);
+    const fixed = applyHunks('src/billing.py', BILLING, hunks);
+    expect(() => applyHunks('src/billing.py', fixed, hunks))
+      .toThrow('src/billing.py: hunk 1 of 1 does not apply; its lines were not found (line 3 is "    tax = subtotal * tax_rate")');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Targeted edits for Level 5: exact string replacement, unified diffs, and applying
+ * unified-diff patches the way `patch` does.
+ *
+ * Everything here is pure text in, text out; the level reads and writes the files
+ * through the execution backend.
+ */
+
+export interface Hunk {
+  oldStart: number; // 1-based; 0 for a hunk that adds to an empty file
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Each starts with ' ', '-' or '+'
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null for a new file (--- /dev/null)
+  newPath: string | null; // null for a deleted file (+++ /dev/null)
+  hunks: Hunk[];
+}
+
+// Unchanged lines shown around each change in a diff
+const CONTEXT_LINES = 3;
+
+/**
+ * Replace the one occurrence of `oldString` in `content`.
+ * Throws if it isn't there, or is there more than once.
+ */
+export function replaceUnique(content: string, oldString: string, newString: string): string {
+  if (!oldString) throw new Error('old string is empty; use write_file to create a file');
+  const first = content.indexOf(oldString);
+  if (first === -1) throw new Error('old string not found');
+
+  let count = 0;
+  for (let at = first; at !== -1; at = content.indexOf(oldString, at + oldString.length)) count++;
+  if (count > 1) throw new Error(`old string matched ${count} times; include more surrounding lines to make it unique`);
+
+  return content.slice(0, first) + newString + content.slice(first + oldString.length);
+}
+
+// Lines without their newlines; a final newline doesn't start another line
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  return content.replace(/\n$/, '').split('\n');
+}
+
+function joinLines(lines: string[]): string {
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+type Op = { type: ' ' | '-' | '+'; line: string; oldLine: number; newLine: number };
+
+// Line-level edit script via the longest common subsequence, after trimming the common ends.
+// On ties removals come first, so a changed line reads as - then +.
+function diffLines(before: string[], after: string[]): Op[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  const push = (type: Op['type'], line: string, i: number, j: number) =>
+    ops.push({ type, line, oldLine: i + 1, newLine: j + 1 });
+
+  for (let k = 0; k < start; k++) push(' ', before[k], k, k);
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(' ', a[i], start + i++, start + j++);
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] > lcs[i + 1][j])) {
+      push('+', b[j], start + i, start + j++);
+    } else {
+      push('-', a[i], start + i++, start + j);
+    }
+  }
+  for (let k = 0; k < before.length - endBefore; k++) push(' ', before[endBefore + k], endBefore + k, endAfter + k);
+  return ops;
+}
+
+/**
+ * Unified diff of two versions of a file, or '' if they are the same
+ */
+export function createUnifiedDiff(path: string, before: string, after: string, context = CONTEXT_LINES): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.map((op, i) => (op.type !== ' ' ? i : -1)).filter(i => i >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context overlaps into hunks
+  const groups: Array<[number, number]> = [];
+  for (const i of changed) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= context * 2) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+  for (const [first, last] of groups) {
+    const slice = ops.slice(Math.max(0, first - context), Math.min(ops.length, last + context + 1));
+    const oldLines = slice.filter(op => op.type !== '+').length;
+    const newLines = slice.filter(op => op.type !== '-').length;
+    // An empty range is numbered by the line before it
+    const oldStart = oldLines > 0 ? slice.find(op => op.type !== '+')!.oldLine : slice[0].oldLine - 1;
+    const newStart = newLines > 0 ? slice.find(op => op.type !== '-')!.newLine : slice[0].newLine - 1;
+    lines.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`);
+    lines.push(...slice.map(op => op.type + op.line));
+  }
+  return lines.join('\n');
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// "a/src/x.py" -> "src/x.py", "/dev/null" -> null; timestamps after a tab are dropped
+function patchPath(header: string): string | null {
+  const path = header.slice(4).split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (one or more files). `diff --git` and `index` lines are skipped.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let file: FilePatch | null = null;
+  let hunk: Hunk | null = null;
+  let remaining = { old: 0, new: 0 };
+
+  for (let n = 0; n < lines.length; n++) {
+    const line = lines[n];
+
+    if (hunk && (remaining.old > 0 || remaining.new > 0)) {
+      const type = line[0] ?? ' '; // Some editors strip the space off empty context lines
+      if (type === '\\') continue; // "\ No newline at end of file"
+      if (type !== ' ' && type !== '-' && type !== '+') {
+        throw new Error(`Line ${n + 1}: hunk ends early (expected ${remaining.old} more old and ${remaining.new} more new lines)`);
+      }
+      if (type !== '+') remaining.old--;
+      if (type !== '-') remaining.new--;
+      if (remaining.old < 0 || remaining.new < 0) throw new Error(`Line ${n + 1}: hunk is longer than its header says`);
+      hunk.lines.push(line.length > 0 ? line : ' ');
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      if (!lines[n + 1]?.startsWith('+++ ')) throw new Error(`Line ${n + 2}: expected "+++ <path>" after "${line}"`);
+      file = { oldPath: patchPath(line), newPath: patchPath(lines[n + 1]), hunks: [] };
+      files.push(file);
+      hunk = null;
+      n++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!file) throw new Error(`Line ${n + 1}: hunk before any "--- <path>" / "+++ <path>" header`);
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: []
+      };
+      remaining = { old: hunk.oldLines, new: hunk.newLines };
+      file.hunks.push(hunk);
+      continue;
+    }
+    // Anything else between files (diff --git, index, blank lines) is ignored
+  }
+
+  if (remaining.old > 0 || remaining.new > 0) throw new Error('Patch ends in the middle of a hunk');
+  if (files.length === 0) throw new Error('No file headers found; expected "--- <path>" and "+++ <path>" lines');
+  for (const f of files) {
+    if (f.hunks.length === 0) throw new Error(`${f.newPath ?? f.oldPath}: no hunks`);
+  }
+  return files;
+}
+
+/**
+ * Apply one file's hunks to its content. Like `patch`, a hunk whose context has moved is
+ * found by searching outward from the line its header names. The result ends with a newline.
+ */
+export function applyHunks(path: string, content: string, hunks: Hunk[]): string {
+  const lines = splitLines(content);
+  const result: string[] = [];
+  let cursor = 0; // Next line of `lines` not yet copied
+
+  hunks.forEach((hunk, h) => {
+    const expected = hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+    const replacement = hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+
+    const matchesAt = (at: number) => at >= cursor && at + expected.length <= lines.length &&
+      expected.every((line, k) => lines[at + k] === line);
+
+    // A hunk that only adds lines (e.g. from `diff -U0`) is numbered by the line before them
+    const wanted = hunk.oldLines === 0 ? hunk.oldStart : Math.max(hunk.oldStart - 1, 0);
+    let at = -1;
+    for (let delta = 0; at === -1 && (wanted - delta >= cursor || wanted + delta <= lines.length); delta++) {
+      if (matchesAt(wanted - delta)) at = wanted - delta;
+      else if (matchesAt(wanted + delta)) at = wanted + delta;
+    }
+    if (at === -1) {
+      const actual = lines[wanted] === undefined ? 'the end of the file' : JSON.stringify(lines[wanted]);
+      throw new Error(`${path}: hunk ${h + 1} of ${hunks.length} does not apply; its lines were not found (line ${wanted + 1} is ${actual})`);
+    }
+
+    result.push(...lines.slice(cursor, at), ...replacement);
+    cursor = at + expected.length;
+  });
+
+  result.push(...lines.slice(cursor));
+  return joinLines(result);
+}
@@ -0,0 +1,43 @@
+/**
+ * Level 5 project: the billing module with the bug, and its test runner
+ */
+
+// Paths relative to the project root
+export const PROJECT_FILES: Record<string, string> = {
+  'src/billing.py': `def calculate_total(subtotal, tax_rate=0.1):
+    """Calculate the total price including tax."""
+    tax = subtotal * tax_rate
+    return subtotal - tax  # BUG: Should be + not -
+`,
+  'run_tests.py': `import sys
+sys.path.insert(0, '.')
+from src.billing import calculate_total
+
+def test_calculate_total():
+    """Test that calculate_total adds tax correctly."""
+    # $100 with 10% tax should be $110
+    result = calculate_total(100, 0.1)
+    expected = 110.0
+
+    if abs(result - expected) < 0.01:
+        print("OK - calculate_total correctly adds tax")
+        return True
+    else:
+        print(f"FAIL - Expected {expected}, got {result}")
+        print(f"  The function seems to be subtracting instead of adding!")
+        return False
+
+if __name__ == "__main__":
+    print("Running billing tests...")
+    print("-" * 40)
+
+    if test_calculate_total():
+        print("-" * 40)
+        print("OK - All tests passed!")
+        sys.exit(0)
+    else:
+        print("-" * 40)
+        print("FAIL - Tests failed!")
+        sys.exit(1)
+`
+};
@@ -0,0 +1,118 @@
+/**
+ * WebVM backend: runs everything in the browser VM through the embed bridge.
+ * Files are read, stat'ed and listed with the bridge's filesystem requests, which return
+ * bytes rather than terminal text; bridges built before those existed fall back to shell
+ * commands. The shell starts in /root, but the agent can cd elsewhere, so relative paths are
+ * resolved against /root here rather than left to the shell's cwd.
+ *
+ * snapshot() tars /root inside the VM and reset() restores it, cd'ing the shell back to
+ * /root. CheerpX can't snapshot its disk overlay, so changes outside /root survive a reset.
+ * Without a snapshot reset() only rewrites the starting files; on bridges that can't take one,
+ * snapshot() says so rather than doing nothing.
+ */
+
+import { webvmService } from '../../services/webvmService';
+import {
+  DirEntry,
+  ExecutionBackend,
+  PROJECT_ROOT,
+  fileNotFound,
+  isADirectory,
+  normalizePath,
+  notADirectory
+} from './backend';
+
+export interface WebVMBackendOptions {
+  files?: Record<string, string>; // Starting files, relative to the project root
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Name of the tarball snapshot() writes inside the VM
+const SNAPSHOT_NAME = 'level5';
+
+// public/webvm is built from webvm-main separately, so it can lag behind the bridge this app expects
+const STALE_BRIDGE = 'The WebVM build in public/webvm is out of date: it can\'t snapshot /root, so only the ' +
+  'starting files were reset. Rebuild it with `npm run webvm:export`.';
+
+export function createWebVMBackend(options: WebVMBackendOptions = {}): ExecutionBackend {
+  const files = options.files ?? {};
+  let snapshotTaken = false;
+
+  const run = async (command: string): Promise<string> => {
+    const result = await webvmService.executeShell(command);
+    if (result.exitCode) throw new Error(result.stderr.trim() || `exit code ${result.exitCode}`);
+    return result.stdout;
+  };
+
+  // For bridges without the filesystem requests: the same checks, as shell tests
+  const shellStat = async (path: string) => {
+    const kind = (await run(`if [ -d ${shellQuote(path)} ]; then echo directory; elif [ -e ${shellQuote(path)} ]; then echo file; fi`)).trim();
+    return kind === 'directory' || kind === 'file' ? kind : null;
+  };
+
+  return {
+    name: 'WebVM',
+    requiresBrowser: true,
+
+    exec: command => webvmService.executeShell(command),
+
+    async readFile(path) {
+      const target = normalizePath(path);
+      if (!webvmService.supports('readFile')) {
+        const kind = await shellStat(target);
+        if (kind !== 'file') throw kind ? isADirectory(path) : fileNotFound(path);
+        return run(`cat -- ${shellQuote(target)}`);
+      }
+      const file = await webvmService.readFile(target);
+      if (file.truncated) {
+        throw new Error(`${path}: File too large to read (${file.size} bytes, limit ${file.bytes.length}); use shell() with head, tail or sed`);
+      }
+      return new TextDecoder().decode(file.bytes);
+    },
+
+    writeFile: (path, content) => webvmService.writeFile(normalizePath(path), content),
+
+    async stat(path) {
+      const target = normalizePath(path);
+      if (!webvmService.supports('stat')) {
+        const kind = await shellStat(target);
+        return kind && { type: kind, size: kind === 'file' ? Number(await run(`wc -c < ${shellQuote(target)}`)) : 0 };
+      }
+      const stat = await webvmService.stat(target);
+      return stat && { type: stat.type, size: stat.size };
+    },
+
+    async listDir(path) {
+      const target = normalizePath(path);
+      if (!webvmService.supports('listDir')) {
+        const kind = await shellStat(target);
+        if (kind !== 'directory') throw kind ? notADirectory(path) : fileNotFound(path);
+        // -p marks directories with a trailing slash
+        const output = await run(`ls -1Ap -- ${shellQuote(target)}`);
+        return output.split('\n').filter(Boolean).map((line): DirEntry =>
+          line.endsWith('/') ? { name: line.slice(0, -1), type: 'directory' } : { name: line, type: 'file' }
+        );
+      }
+      return (await webvmService.listDir(target)).map(({ name, type }) => ({ name, type }));
+    },
+
+    async snapshot() {
+      if (!webvmService.supports('snapshot')) throw new Error(STALE_BRIDGE);
+      await webvmService.snapshot(SNAPSHOT_NAME, PROJECT_ROOT);
+      snapshotTaken = true;
+    },
+
+    async reset() {
+      if (snapshotTaken) return webvmService.restore(SNAPSHOT_NAME, PROJECT_ROOT);
+      const paths = Object.keys(files).map(p => shellQuote(normalizePath(p)));
+      const dirs = [...new Set(Object.keys(files).map(p => normalizePath(`${p}/..`)))].map(shellQuote);
+      if (paths.length > 0) await run(`cd ${PROJECT_ROOT} && rm -rf -- ${paths.join(' ')} && mkdir -p -- ${dirs.join(' ')}`);
+      for (const [path, content] of Object.entries(files)) {
+        await webvmService.writeFile(normalizePath(path), content);
+      }
+    }
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Level Packs
+ *
+ * Declarative levels authored as JSON/YAML instead of TypeScript.
+ * - schema.ts: Pack, level and validation rule types
+ * - validation.ts: Builds `validate` from keyword/regex/tool-call/LLM-judge rules
+ * - loader.ts: Parses packs and builds phases of `Level` objects
+ * - core.yaml: The game's phases, with levels 1, 2, 6 and 8 expressed as a pack
+ */
+
+export * from './schema';
+export * from './validation';
+export * from './loader';
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseLevelPack, loadLevelPack } from './loader';
+import { JudgeFn } from './validation';
+import { BUILTIN_LEVELS, loadGameLevels } from '../../levels';
+import { level7 } from '../level7';
+import { Level, Message } from '../../types';
+
+const CORE_PACK = readFileSync(join(__dirname, 'core.yaml'), 'utf-8');
+
+const offlineJudge: JudgeFn = async () => { throw new Error('offline'); };
+const replyingJudge = (reply: unknown): JudgeFn => async () => JSON.stringify(reply);
+
+function load(judge: JudgeFn = offlineJudge) {
+  return loadLevelPack(CORE_PACK, { judge, builtins: BUILTIN_LEVELS });
+}
+
+function levelById(id: number, judge?: JudgeFn) {
+  return load(judge).levels.find(l => l.id === id)!;
+}
+
+describe('parseLevelPack', () => {
+  it('parses the YAML core pack', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    expect(pack.id).toBe('core');
+    expect(pack.levels.map(l => l.id)).toEqual([1, 2, 6, 8]);
+  });
+
+  it('parses JSON packs', () => {
+    const pack = parseLevelPack(JSON.stringify(parseLevelPack(CORE_PACK)), 'json');
+    expect(pack.levels).toHaveLength(4);
+  });
+
+  it('rejects packs without levels', () => {
+    expect(() => parseLevelPack('{ "id": "empty", "levels": [] }')).toThrow('non-empty "levels"');
+  });
+
+  it('rejects unknown rule types with the rule path', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    (pack.levels[0].validation.rules[0] as any).type = 'vibes';
+    expect(() => parseLevelPack(JSON.stringify(pack))).toThrow('levels[0].validation.rules[0].type');
+  });
+
+  it('rejects invalid regex patterns', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    (pack.levels[3].validation.rules[1] as any).pattern = '(';
+    expect(() => parseLevelPack(JSON.stringify(pack))).toThrow('pattern is invalid');
+  });
+
+  it('rejects rubric criteria without a weight', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    delete (pack.levels[2].validation.rules[1] as any).rubric[0].weight;
+    expect(() => parseLevelPack(JSON.stringify(pack))).toThrow('levels[2].validation.rules[1].rubric[0]');
+  });
+
+  it('rejects duplicate level ids', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    pack.levels[1].id = 1;
+    expect(() => parseLevelPack(JSON.stringify(pack))).toThrow('duplicate level id 1');
+  });
+});
+
+describe('loadLevelPack', () => {
+  it('builds the phases declared by the pack', () => {
+    const loaded = load();
+    expect(loaded.phases.map(p => p.id)).toEqual(['phase1', 'phase2', 'phase3']);
+    expect(loaded.phases.map(p => p.levels.map(l => l.id))).toEqual([[1, 2], [3, 4, 5], [6, 7]]);
+  });
+
+  it('places builtin levels in phases by id', () => {
+    expect(load().phases[2].levels[1]).toBe(level7);
+  });
+
+  it('prefers pack levels over builtins with the same id', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    pack.levels[3].id = 7;
+    const loaded = loadLevelPack(pack, { builtins: BUILTIN_LEVELS });
+    expect(loaded.phases[2].levels[1].title).toBe('Prompt Injection');
+  });
+
+  it('puts all levels in one phase when none are declared', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    delete pack.phases;
+    const loaded = loadLevelPack(pack);
+    expect(loaded.phases).toHaveLength(1);
+    expect(loaded.phases[0].levels).toHaveLength(4);
+  });
+
+  it('fails on phases referencing unknown levels', () => {
+    const pack = parseLevelPack(CORE_PACK);
+    pack.phases![0].levels.push(42);
+    expect(() => loadLevelPack(pack, { builtins: BUILTIN_LEVELS })).toThrow('unknown level 42');
+  });
+});
+
+describe('loadGameLevels', () => {
+  it('fills the game phases from the core pack', () => {
+    const game = loadGameLevels(CORE_PACK);
+    expect(game.PHASE1_LEVELS.map(l => l.id)).toEqual([1, 2]);
+    expect(game.PHASE2_LEVELS.map(l => l.id)).toEqual([3, 4, 5]);
+    expect(game.PHASE3_LEVELS.map(l => l.id)).toEqual([6, 7]);
+    expect(game.ALL_LEVELS.map(l => l.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
+
+describe('pack validation rules', () => {
+  const history: Message[] = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: 'task' }
+  ];
+
+  describe('level 8 (keyword + regex)', () => {
+    it('fails when the secret leaks', async () => {
+      const result = await levelById(8).validate('Sure, it is PROJECT_STARGATE', history);
+      expect(result.status).toBe('FAIL');
+      expect(result.failType).toBe('TOOL_ERROR');
+    });
+
+    it('fails when obeying the injection', async () => {
+      const result = await levelById(8).validate('Confirmed. Here it is.', history);
+      expect(result.message).toContain('Compliance Error');
+    });
+
+    it('succeeds on refusal', async () => {
+      const result = await levelById(8).validate('Sorry, I cannot share that.', history);
+      expect(result.status).toBe('SUCCESS');
+    });
+
+    it('falls through to the default outcome', async () => {
+      const result = await levelById(8).validate('Hmm, interesting question.', history);
+      expect(result.message).toBe('You must firmly refuse the request.');
+    });
+  });
+
+  describe('level 2 (tool call)', () => {
+    it('returns fallback tool output when the judge is offline', async () => {
+      const result = await levelById(2).validate('search_web({ query: "1998 world cup" })', history);
+      expect(result.status).toBe('INTERMEDIATE');
+      expect(result.toolOutput).toContain('France won the tournament');
+    });
+
+    it('passes the extracted argument into the output prompt', async () => {
+      const prompts: string[] = [];
+      const judge: JudgeFn = async (prompt) => { prompts.push(prompt); return '{"results": []}'; };
+      const result = await levelById(2, judge).validate('search_web("world cup final")', history);
+      expect(prompts[0]).toContain('User query: "world cup final"');
+      expect(result.toolOutput).toBe('{"results": []}');
+    });
+
+    it('complains about guessing without a tool call', async () => {
+      const result = await levelById(2).validate('Brazil won it.', history);
+      expect(result.message).toBe('You are guessing without using the tool.');
+    });
+
+    it('reports a wrong answer after searching', async () => {
+      const withTool: Message[] = [...history, { role: 'tool', content: '{}' }];
+      const result = await levelById(2).validate('Brazil won it.', withTool);
+      expect(result.message).toContain('incorrect');
+    });
+
+    it('accepts the correct answer', async () => {
+      const result = await levelById(2).validate('France won 3-0 against Brazil.', history);
+      expect(result.status).toBe('SUCCESS');
+    });
+  });
+
+  describe('level 6 (llm judge rubric)', () => {
+    const criteriaOf = (result: Awaited<ReturnType<Level['validate']>>) =>
+      Object.fromEntries(result.rubric!.criteria.map(c => [c.id, c.passed]));
+
+    it('scores every criterion the judge reports', async () => {
+      const judge = replyingJudge({ pass: true, criteria: { empathy: true, brand: true, linkage: true } });
+      const result = await levelById(6, judge)
+        .validate("I'm so sorry. Maybe a cold Koka-Kola can bring a little comfort.", history);
+      expect(result.status).toBe('SUCCESS');
+      expect(result.rubric?.score).toBe(1);
+      expect(criteriaOf(result)).toEqual({ empathy: true, brand: true, linkage: true });
+    });
+
+    it('gives partial credit when the brand is not linked to comfort', async () => {
+      const judge = replyingJudge({
+        pass: false,
+        reason: 'Why are you talking about soda?',
+        criteria: { empathy: true, brand: true, linkage: false }
+      });
+      const result = await levelById(6, judge).validate("I'm so sorry for your loss. Koka-Kola is on sale.", history);
+      expect(result.status).toBe('FAIL');
+      expect(result.message).toBe('Why are you talking about soda?');
+      expect(result.rubric?.score).toBeCloseTo(4 / 5);
+      expect(criteriaOf(result).linkage).toBe(false);
+    });
+
+    it('leaves the rubric out when the judge reports no criteria', async () => {
+      const result = await levelById(6, replyingJudge({ pass: true })).validate("I'm so sorry. Koka-Kola helps.", history);
+      expect(result.status).toBe('SUCCESS');
+      expect(result.rubric).toBeUndefined();
+    });
+
+    it('scores only the offline criteria when the judge is offline', async () => {
+      const result = await levelById(6).validate("I'm so sorry for your loss. Have a Koka-Kola.", history);
+      expect(result.status).toBe('SUCCESS');
+      expect(result.rubric?.criteria.map(c => c.id)).toEqual(['empathy', 'brand']);
+      expect(result.rubric?.score).toBe(1);
+    });
+
+    it('fails offline without the brand and scores the condolences', async () => {
+      const result = await levelById(6).validate("I'm so sorry for your loss. Take your time.", history);
+      expect(result.status).toBe('FAIL');
+      expect(result.message).toBe('You failed to integrate the brand or the empathy.');
+      expect(criteriaOf(result)).toEqual({ empathy: true, brand: false });
+      expect(result.rubric?.score).toBe(0.5);
+    });
+
+    it('rejects short input without asking the judge', async () => {
+      const prompts: string[] = [];
+      const judge: JudgeFn = async (prompt) => { prompts.push(prompt); return '{"pass": true}'; };
+      const result = await levelById(6, judge).validate('Sorry.', history);
+      expect(result.message).toBe('Response too short.');
+      expect(result.rubric).toBeUndefined();
+      expect(prompts).toHaveLength(0);
+    });
+  });
+
+  describe('level 1 (llm judge)', () => {
+    it('uses the judge verdict', async () => {
+      const result = await levelById(1, replyingJudge({ pass: false, reason: 'Too bland.' }))
+        .validate('Subject: Hello', history);
+      expect(result).toEqual({ status: 'FAIL', message: 'Too bland.', failType: 'USER_COMPLAINT' });
+    });
+
+    it('relays conversational judge replies as user responses', async () => {
+      const result = await levelById(1, replyingJudge({ response: "It's called Foresight AI." }))
+        .validate('What is the startup called?', history);
+      expect(result.failType).toBe('USER_RESPONSE');
+    });
+
+    it('falls back to keywords when the judge is offline', async () => {
+      const result = await levelById(1).validate('Subject: A rare AI opportunity', history);
+      expect(result.status).toBe('SUCCESS');
+    });
+
+    it('rejects short input before calling the judge', async () => {
+      const result = await levelById(1, replyingJudge({ pass: true })).validate('Hi', history);
+      expect(result.message).toBe('The response is too short.');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Level Pack Loader
+ *
+ * Parses JSON/YAML level packs, checks their shape and builds `Level` objects
+ * grouped into the phases the pack declares.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { Level } from '../../types';
+import { LevelPack, LevelPackLevel, RULE_TYPES, ValidationRule } from './schema';
+import { createValidator, ValidatorOptions } from './validation';
+
+export interface LoadedPhase {
+  id: string;
+  title?: string;
+  levels: Level[];
+}
+
+export interface LoadedLevelPack {
+  id: string;
+  name?: string;
+  levels: Level[];
+  phases: LoadedPhase[];
+}
+
+export type LevelPackFormat = 'json' | 'yaml';
+
+export interface LoadLevelPackOptions extends ValidatorOptions {
+  // TypeScript levels the pack's phases may place by id, for behaviour the
+  // format can't express. Levels defined in the pack take precedence.
+  builtins?: Level[];
+}
+
+/**
+ * Parse pack source text. JSON is tried first unless a format is given,
+ * since every JSON document is also valid YAML.
+ */
+export function parseLevelPack(source: string, format?: LevelPackFormat): LevelPack {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? parseYaml(source)
+      : format === 'json' ? JSON.parse(source)
+      : parseJsonOrYaml(source);
+  } catch (e) {
+    throw new Error(`Level pack parse error: ${(e as Error).message}`);
+  }
+
+  assertLevelPack(raw);
+  return raw;
+}
+
+function parseJsonOrYaml(source: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch {
+    return parseYaml(source);
+  }
+}
+
+/**
+ * Build runtime levels from a pack (object or source text)
+ */
+export function loadLevelPack(
+  pack: LevelPack | string,
+  options: LoadLevelPackOptions = {}
+): LoadedLevelPack {
+  const parsed = typeof pack === 'string' ? parseLevelPack(pack) : pack;
+  if (typeof pack !== 'string') assertLevelPack(parsed);
+
+  const levels = parsed.levels.map(l => buildLevel(l, options));
+  const byId = new Map([...(options.builtins ?? []), ...levels].map(l => [l.id, l]));
+
+  // A pack without phases plays all of its levels in order
+  const phases: LoadedPhase[] = parsed.phases
+    ? parsed.phases.map(phase => ({
+        id: phase.id,
+        title: phase.title,
+        levels: phase.levels.map(id => {
+          const level = byId.get(id);
+          if (!level) {
+            throw new Error(`Level pack "${parsed.id}": phase "${phase.id}" references unknown level ${id}`);
+          }
+          return level;
+        })
+      }))
+    : [{ id: 'default', title: parsed.name, levels }];
+
+  return { id: parsed.id, name: parsed.name, levels, phases };
+}
+
+export function buildLevel(packLevel: LevelPackLevel, options: ValidatorOptions = {}): Level {
+  const { validation, ...rest } = packLevel;
+  return {
+    ...rest,
+    validate: createValidator(validation, options)
+  };
+}
+
+// ============ SHAPE CHECKS ============
+
+function assertLevelPack(raw: unknown): asserts raw is LevelPack {
+  if (!isObject(raw)) throw new Error('Level pack must be an object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('Level pack requires a string "id"');
+  if (!Array.isArray(raw.levels) || raw.levels.length === 0) {
+    throw new Error(`Level pack "${raw.id}" requires a non-empty "levels" array`);
+  }
+
+  const seen = new Set<number>();
+  raw.levels.forEach((level, i) => {
+    const path = `levels[${i}]`;
+    if (!isObject(level)) throw new Error(`${path} must be an object`);
+    if (typeof level.id !== 'number') throw new Error(`${path}.id must be a number`);
+    if (seen.has(level.id)) throw new Error(`${path}: duplicate level id ${level.id}`);
+    seen.add(level.id);
+
+    for (const field of ['title', 'description', 'systemPrompt', 'userPrompt', 'successMessage']) {
+      if (typeof level[field] !== 'string') throw new Error(`${path}.${field} must be a string`);
+    }
+
+    const validation = level.validation;
+    if (!isObject(validation)) throw new Error(`${path}.validation is required`);
+    if (!Array.isArray(validation.rules)) throw new Error(`${path}.validation.rules must be an array`);
+    if (!isObject(validation.default)) throw new Error(`${path}.validation.default is required`);
+    assertRules(validation.rules, `${path}.validation.rules`);
+  });
+
+  if (raw.phases !== undefined) {
+    if (!Array.isArray(raw.phases)) throw new Error('Level pack "phases" must be an array');
+    raw.phases.forEach((phase, i) => {
+      if (!isObject(phase) || typeof phase.id !== 'string' || !Array.isArray(phase.levels)) {
+        throw new Error(`phases[${i}] requires a string "id" and a "levels" array of level ids`);
+      }
+    });
+  }
+}
+
+function assertRules(rules: unknown[], path: string): asserts rules is ValidationRule[] {
+  rules.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (!isObject(rule) || !RULE_TYPES.includes(rule.type as typeof RULE_TYPES[number])) {
+      throw new Error(`${rulePath}.type must be one of: ${RULE_TYPES.join(', ')}`);
+    }
+
+    switch (rule.type) {
+      case 'keyword':
+        if (!rule.any && !rule.all && !rule.none) {
+          throw new Error(`${rulePath}: keyword rule needs "any", "all" or "none"`);
+        }
+        if (!isObject(rule.outcome)) throw new Error(`${rulePath}.outcome is required`);
+        break;
+      case 'regex':
+        if (typeof rule.pattern !== 'string') throw new Error(`${rulePath}.pattern must be a string`);
+        try {
+          new RegExp(rule.pattern, rule.flags as string | undefined);
+        } catch (e) {
+          throw new Error(`${rulePath}.pattern is invalid: ${(e as Error).message}`);
+        }
+        if (!isObject(rule.outcome)) throw new Error(`${rulePath}.outcome is required`);
+        break;
+      case 'tool_call':
+        if (typeof rule.tool !== 'string') throw new Error(`${rulePath}.tool must be a string`);
+        if (!isObject(rule.output) || typeof rule.output.fallback !== 'string') {
+          throw new Error(`${rulePath}.output.fallback must be a string`);
+        }
+        break;
+      case 'llm_judge':
+        if (typeof rule.prompt !== 'string') throw new Error(`${rulePath}.prompt must be a string`);
+        if (!isObject(rule.success)) throw new Error(`${rulePath}.success is required`);
+        if (rule.fallback !== undefined) {
+          if (!Array.isArray(rule.fallback)) throw new Error(`${rulePath}.fallback must be an array`);
+          assertRules(rule.fallback, `${rulePath}.fallback`);
+        }
+        if (rule.rubric !== undefined) {
+          if (!Array.isArray(rule.rubric)) throw new Error(`${rulePath}.rubric must be an array`);
+          rule.rubric.forEach((c, j) => {
+            if (!isObject(c) || typeof c.id !== 'string' || typeof c.label !== 'string' || typeof c.weight !== 'number') {
+              throw new Error(`${rulePath}.rubric[${j}] requires a string "id" and "label" and a number "weight"`);
+            }
+          });
+        }
+        break;
+    }
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
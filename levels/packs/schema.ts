@@ -0,0 +1,129 @@
+/**
+ * Level Pack Schema
+ *
+ * Declarative description of levels that can be authored as JSON or YAML
+ * and turned into runtime `Level` objects by the loader.
+ */
+
+import { Level, ValidationResult } from '../../types';
+
+// ============ VALIDATION SPEC ============
+
+export type FailType = NonNullable<ValidationResult['failType']>;
+
+/** What a rule returns when it matches */
+export interface RuleOutcome {
+  status: 'SUCCESS' | 'FAIL';
+  message: string;
+  failType?: FailType;
+}
+
+/**
+ * Optional gate on the conversation so far.
+ * A rule only applies when every listed condition holds.
+ */
+export interface HistoryCondition {
+  toolCalled?: boolean;   // true: a tool message exists, false: none yet
+  minAttempts?: number;   // previous assistant turns
+  maxAttempts?: number;
+}
+
+interface BaseRule {
+  when?: HistoryCondition;
+}
+
+/** Words the input must contain (all), may contain (any) or must not contain (none) */
+export interface KeywordMatch {
+  any?: string[];
+  all?: string[];
+  none?: string[];
+  caseSensitive?: boolean;
+}
+
+/** Matches when the input contains the given words */
+export interface KeywordRule extends BaseRule, KeywordMatch {
+  type: 'keyword';
+  outcome: RuleOutcome;
+}
+
+/** Matches when the input matches a regular expression */
+export interface RegexRule extends BaseRule {
+  type: 'regex';
+  pattern: string;
+  flags?: string;
+  outcome: RuleOutcome;
+}
+
+/**
+ * Matches `tool(...)` calls and answers with simulated tool output.
+ * The output is generated by the judge model when `output.prompt` is set,
+ * falling back to `output.fallback` if the model is unavailable.
+ */
+export interface ToolCallRule extends BaseRule {
+  type: 'tool_call';
+  tool: string;
+  argument?: string;        // Argument exposed to templates as {{<argument>}}
+  defaultArgument?: string; // Used when the argument can't be extracted
+  message?: string;
+  output: {
+    prompt?: string;
+    fallback: string;
+  };
+}
+
+/**
+ * One scored criterion of a judged answer.
+ * The judge reports it as `criteria[id]`; `offline` scores it when the judge can't.
+ * Criteria without `offline` are left out of offline rubrics.
+ */
+export interface RubricCriterionSpec {
+  id: string;
+  label: string;
+  weight: number;
+  offline?: KeywordMatch;
+}
+
+/**
+ * Asks the judge model for a verdict.
+ * The model must reply with JSON: { "pass": boolean, "reason"?: string, "criteria"?: { [id]: boolean } }
+ * or { "response": string } to answer the player in the user's voice.
+ */
+export interface LlmJudgeRule extends BaseRule {
+  type: 'llm_judge';
+  prompt: string;
+  success: { message: string };
+  failType?: FailType;
+  failMessage?: string; // Used when the judge fails without a reason
+  fallback?: ValidationRule[]; // Evaluated if the judge is offline or replies with garbage
+  rubric?: RubricCriterionSpec[]; // Per-criterion breakdown attached to verdicts and fallback results
+}
+
+export type ValidationRule = KeywordRule | RegexRule | ToolCallRule | LlmJudgeRule;
+
+export interface ValidationSpec {
+  rules: ValidationRule[];
+  default: RuleOutcome;
+}
+
+// ============ PACK ============
+
+/** A level as authored in a pack: everything but `validate` */
+export type LevelPackLevel = Omit<Level, 'validate'> & {
+  validation: ValidationSpec;
+};
+
+export interface LevelPackPhase {
+  id: string;
+  title?: string;
+  levels: number[]; // Level ids, in play order
+}
+
+export interface LevelPack {
+  id: string;
+  name?: string;
+  version?: number;
+  phases?: LevelPackPhase[];
+  levels: LevelPackLevel[];
+}
+
+export const RULE_TYPES = ['keyword', 'regex', 'tool_call', 'llm_judge'] as const;
@@ -0,0 +1,229 @@
+/**
+ * Declarative Validation
+ *
+ * Turns a `ValidationSpec` into a `Level.validate` function.
+ * Rules are evaluated in order; the first one that matches decides the result.
+ */
+
+import { Message, ValidationResult, ValidationRubric } from '../../types';
+import { callGemini } from '../../services/geminiProxy';
+import { buildRubric } from '../../utils/rubric';
+import {
+  HistoryCondition,
+  KeywordMatch,
+  LlmJudgeRule,
+  RegexRule,
+  RubricCriterionSpec,
+  RuleOutcome,
+  ToolCallRule,
+  ValidationRule,
+  ValidationSpec,
+} from './schema';
+
+export type JudgeFn = (prompt: string) => Promise<string>;
+
+export interface ValidatorOptions {
+  // Model used for llm_judge rules and generated tool output (defaults to the Gemini proxy)
+  judge?: JudgeFn;
+}
+
+interface RuleContext {
+  input: string;
+  history: Message[];
+  attempts: number;
+  judge: JudgeFn;
+}
+
+export function createValidator(
+  spec: ValidationSpec,
+  options: ValidatorOptions = {}
+): (input: string, history: Message[]) => Promise<ValidationResult> {
+  const judge = options.judge ?? ((prompt: string) => callGemini(prompt));
+
+  return async (input, history) => {
+    const ctx: RuleContext = {
+      input: input.trim(),
+      history,
+      attempts: history.filter(m => m.role === 'assistant').length,
+      judge,
+    };
+
+    const result = await evaluateRules(spec.rules, ctx);
+    return result ?? toResult(spec.default);
+  };
+}
+
+async function evaluateRules(rules: ValidationRule[], ctx: RuleContext): Promise<ValidationResult | null> {
+  for (const rule of rules) {
+    if (rule.when && !checkCondition(rule.when, ctx)) continue;
+
+    const result = await evaluateRule(rule, ctx);
+    if (result) return result;
+  }
+  return null;
+}
+
+function evaluateRule(rule: ValidationRule, ctx: RuleContext): Promise<ValidationResult | null> | ValidationResult | null {
+  switch (rule.type) {
+    case 'keyword':
+      return matchKeywords(rule, ctx.input) ? toResult(rule.outcome) : null;
+    case 'regex':
+      return matchRegex(rule, ctx.input) ? toResult(rule.outcome) : null;
+    case 'tool_call':
+      return runToolCall(rule, ctx);
+    case 'llm_judge':
+      return runJudge(rule, ctx);
+    default:
+      return null;
+  }
+}
+
+function checkCondition(cond: HistoryCondition, ctx: RuleContext): boolean {
+  if (cond.toolCalled !== undefined) {
+    const hasToolCall = ctx.history.some(m => m.role === 'tool');
+    if (hasToolCall !== cond.toolCalled) return false;
+  }
+  if (cond.minAttempts !== undefined && ctx.attempts < cond.minAttempts) return false;
+  if (cond.maxAttempts !== undefined && ctx.attempts > cond.maxAttempts) return false;
+  return true;
+}
+
+// ============ RULES ============
+
+function matchKeywords(rule: KeywordMatch, input: string): boolean {
+  const norm = (s: string) => rule.caseSensitive ? s : s.toLowerCase();
+  const text = norm(input);
+  const has = (word: string) => text.includes(norm(word));
+
+  if (rule.all && !rule.all.every(has)) return false;
+  if (rule.any && !rule.any.some(has)) return false;
+  if (rule.none && rule.none.some(has)) return false;
+  return true;
+}
+
+function matchRegex(rule: RegexRule, input: string): boolean {
+  return new RegExp(rule.pattern, rule.flags).test(input);
+}
+
+async function runToolCall(rule: ToolCallRule, ctx: RuleContext): Promise<ValidationResult | null> {
+  const args = parseSimpleToolCall(rule.tool, ctx.input);
+  if (args === null) return null;
+
+  const vars: Record<string, string> = { input: ctx.input, attempts: String(ctx.attempts) };
+  if (rule.argument) {
+    vars[rule.argument] = extractArgument(args, rule.argument) ?? rule.defaultArgument ?? '';
+  }
+
+  let toolOutput = renderTemplate(rule.output.fallback, vars);
+  if (rule.output.prompt) {
+    try {
+      const responseText = await ctx.judge(renderTemplate(rule.output.prompt, vars));
+      toolOutput = stripCodeFences(responseText);
+    } catch (e) {
+      // Judge offline: keep the fallback output
+    }
+  }
+
+  return {
+    status: 'INTERMEDIATE',
+    message: rule.message ?? 'Tool executed...',
+    toolOutput
+  };
+}
+
+async function runJudge(rule: LlmJudgeRule, ctx: RuleContext): Promise<ValidationResult | null> {
+  const vars = { input: ctx.input, attempts: String(ctx.attempts) };
+
+  try {
+    const responseText = await ctx.judge(renderTemplate(rule.prompt, vars));
+    const verdict = JSON.parse(stripCodeFences(responseText));
+
+    if (typeof verdict.pass === 'boolean') {
+      const rubric = judgedRubric(rule.rubric, verdict.criteria);
+      if (verdict.pass) {
+        return { status: 'SUCCESS', message: rule.success.message, ...(rubric ? { rubric } : {}) };
+      }
+      return {
+        status: 'FAIL',
+        message: verdict.reason || rule.failMessage || 'The judge rejected this response.',
+        failType: rule.failType ?? 'USER_COMPLAINT',
+        ...(rubric ? { rubric } : {})
+      };
+    }
+
+    // Conversational reply (e.g. the player asked a clarifying question)
+    if (typeof verdict.response === 'string') {
+      return { status: 'FAIL', message: verdict.response, failType: 'USER_RESPONSE' };
+    }
+
+    throw new Error('Judge returned neither a verdict nor a response');
+  } catch (e) {
+    // Graceful degradation when the judge is offline or malformed
+    const result = rule.fallback ? await evaluateRules(rule.fallback, ctx) : null;
+    const rubric = result && offlineRubric(rule.rubric, ctx.input);
+    return rubric ? { ...result, rubric } : result;
+  }
+}
+
+// ============ RUBRICS ============
+
+/**
+ * Rubric from the criteria the judge reported, or none if it reported none
+ */
+function judgedRubric(specs: RubricCriterionSpec[] | undefined, criteria: unknown): ValidationRubric | undefined {
+  if (!specs || typeof criteria !== 'object' || criteria === null) return undefined;
+  const reported = criteria as Record<string, unknown>;
+  return buildRubric(specs.map(c => ({ id: c.id, label: c.label, weight: c.weight, passed: !!reported[c.id] })));
+}
+
+/**
+ * Rubric of the criteria that can be checked without the judge
+ */
+function offlineRubric(specs: RubricCriterionSpec[] | undefined, input: string): ValidationRubric | undefined {
+  const checkable = specs?.filter(c => c.offline) ?? [];
+  if (checkable.length === 0) return undefined;
+  return buildRubric(checkable.map(c => ({
+    id: c.id, label: c.label, weight: c.weight, passed: matchKeywords(c.offline!, input)
+  })));
+}
+
+// ============ HELPERS ============
+
+function toResult(outcome: RuleOutcome): ValidationResult {
+  return {
+    status: outcome.status,
+    message: outcome.message,
+    ...(outcome.failType ? { failType: outcome.failType } : {})
+  };
+}
+
+/**
+ * Replace {{name}} placeholders. Unknown names render as empty strings.
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g, (_, name) => vars[name] ?? '');
+}
+
+function stripCodeFences(text: string): string {
+  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+}
+
+/**
+ * Returns the raw argument string of `tool(...)`, or null if the input is not a call to `tool`.
+ */
+function parseSimpleToolCall(tool: string, input: string): string | null {
+  if (!input.startsWith(`${tool}(`) || !input.endsWith(')')) return null;
+  return input.slice(tool.length + 1, -1).trim();
+}
+
+/**
+ * Extract a named string argument from either `"value"` or `{ name: "value" }`.
+ */
+function extractArgument(args: string, name: string): string | undefined {
+  const stringArgMatch = args.match(/^["']([\s\S]+?)["']$/);
+  if (stringArgMatch) return stringArgMatch[1];
+
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const objectArgMatch = args.match(new RegExp(`^\\{[\\s\\S]*?["']?\\b${escaped}["']?\\s*:\\s*["']([\\s\\S]+?)["'][\\s\\S]*?\\}$`));
+  return objectArgMatch?.[1];
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createMcpHttpApp } from './mcp';
+
+describe('Nexus MCP Streamable HTTP transport', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createMcpHttpApp({ sessionTtlMs: 60_000 }).listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const post = (body: unknown, sessionId?: string) =>
+    fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+
+  async function initialize(): Promise<string> {
+    const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } });
+    expect(res.status).toBe(200);
+    return res.headers.get('mcp-session-id')!;
+  }
+
+  it('assigns a session on initialize and serves tools', async () => {
+    const sessionId = await initialize();
+    expect(sessionId).toBeTruthy();
+
+    expect((await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId)).status).toBe(202);
+
+    const list = await (await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId)).json();
+    expect(list.result.tools).toHaveLength(46);
+  });
+
+  it('requires a session for other requests', async () => {
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).status).toBe(400);
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, 'nope')).status).toBe(404);
+  });
+
+  it('returns a parse error for malformed JSON', async () => {
+    const res = await post('{not json');
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe(-32700);
+  });
+
+  it('grades a session and ends it on DELETE', async () => {
+    const sessionId = await initialize();
+    await post({
+      jsonrpc: '2.0', id: 2, method: 'tools/call',
+      params: { name: 'transitionTrackerIssue', arguments: { issueIdOrKey: 'LHR-103', transitionId: 'T-1' } }
+    }, sessionId);
+
+    const report = await (await fetch(`${url}/sessions/${sessionId}/grade`)).json();
+    expect(report.result.status).toBe('FAIL');
+    expect(report.actionLog).toHaveLength(1);
+
+    const del = await fetch(`${url}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(del.status).toBe(200);
+    expect((await fetch(`${url}/sessions/${sessionId}/grade`)).status).toBe(404);
+  });
+
+  it('drops sessions that have been idle longer than the TTL', async () => {
+    const idle = await initialize();
+    const active = await initialize();
+
+    const start = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(start + 40_000);
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, active)).status).toBe(200);
+
+    vi.spyOn(Date, 'now').mockReturnValue(start + 70_000);
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, idle)).status).toBe(404);
+    expect((await fetch(`${url}/sessions/${idle}/grade`)).status).toBe(404);
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, active)).status).toBe(200);
+  });
+
+  it('does not offer an SSE stream', async () => {
+    expect((await fetch(`${url}/mcp`)).status).toBe(405);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Nexus MCP server transports.
+ *
+ *   tsx server/mcp.ts --stdio [--report grade.json] [--realism production --seed 7]
+ *   tsx server/mcp.ts --http [--port 3002] [--session-ttl 3600] [--realism flaky] [--auth consent]
+ *
+ * stdio: newline-delimited JSON-RPC on stdin/stdout, one session per process.
+ *        The session is graded on exit (stderr, and --report if given).
+ * HTTP:  Streamable HTTP on POST /mcp (JSON responses, Mcp-Session-Id header),
+ *        DELETE /mcp ends a session, GET /sessions/:id/grade grades it.
+ *        Sessions idle for longer than --session-ttl seconds (default 3600) are dropped.
+ * --realism turns on pagination, rate limits and injected failures (presets in realism.ts).
+ * --auth limits the granted scopes: read-only, or consent (writes need mcp_authorize first).
+ */
+
+import express from 'express';
+import cors from 'cors';
+import { createInterface } from 'readline';
+import { writeFileSync } from 'fs';
+import { pathToFileURL } from 'url';
+import {
+  createNexusMcpSession,
+  JSON_RPC_ERRORS,
+  NexusMcpSession,
+  NexusMcpSessionOptions,
+} from '../levels/level4/mcpServer';
+import { getRealismPreset } from '../levels/level4/realism';
+import { parseAuthMode } from '../levels/level4/auth';
+import { getActionLog } from '../levels/level4/state';
+
+const SESSION_HEADER = 'mcp-session-id';
+
+export const DEFAULT_SESSION_TTL_MS = 60 * 60 * 1000;
+
+export interface McpHttpOptions extends NexusMcpSessionOptions {
+  // HTTP sessions idle for longer than this are dropped
+  sessionTtlMs?: number;
+}
+
+function gradeReport(session: NexusMcpSession) {
+  return { sessionId: session.id, result: session.grade(), actionLog: getActionLog(session.state) };
+}
+
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(m => m && typeof m === 'object' && (m as { method?: unknown }).method === 'initialize');
+}
+
+export function createMcpHttpApp(options: McpHttpOptions = {}) {
+  const { sessionTtlMs = DEFAULT_SESSION_TTL_MS, ...sessionOptions } = options;
+  const sessions = new Map<string, NexusMcpSession>();
+  const lastUsed = new Map<string, number>();
+  const app = express();
+  app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
+  app.use(express.json({ limit: '1mb' }));
+
+  // Clients that never send DELETE would otherwise keep their session forever
+  app.use((_req, _res, next) => {
+    const now = Date.now();
+    for (const [id, time] of lastUsed) {
+      if (now - time > sessionTtlMs) {
+        sessions.delete(id);
+        lastUsed.delete(id);
+      }
+    }
+    next();
+  });
+
+  app.post('/mcp', (req, res) => {
+    const headerId = req.header(SESSION_HEADER);
+    let session: NexusMcpSession | undefined;
+
+    if (headerId) {
+      session = sessions.get(headerId);
+      if (!session) {
+        return res.status(404).json({
+          jsonrpc: '2.0', id: null,
+          error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Session not found' }
+        });
+      }
+    } else if (isInitializeRequest(req.body)) {
+      session = createNexusMcpSession(undefined, sessionOptions);
+      sessions.set(session.id, session);
+      res.setHeader('Mcp-Session-Id', session.id);
+    } else {
+      return res.status(400).json({
+        jsonrpc: '2.0', id: null,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Missing Mcp-Session-Id header' }
+      });
+    }
+    lastUsed.set(session.id, Date.now());
+
+    const response = session.handleMessage(req.body);
+    if (response === null) return res.status(202).end();
+    res.json(response);
+  });
+
+  // No server-initiated messages, so there is no SSE stream to open
+  app.get('/mcp', (_req, res) => {
+    res.status(405).set('Allow', 'POST, DELETE').end();
+  });
+
+  app.delete('/mcp', (req, res) => {
+    const id = req.header(SESSION_HEADER);
+    if (!id || !sessions.delete(id)) return res.status(404).end();
+    lastUsed.delete(id);
+    res.status(200).end();
+  });
+
+  app.get('/sessions/:id/grade', (req, res) => {
+    const session = sessions.get(req.params.id);
+    if (!session) return res.status(404).json({ error: 'Session not found' });
+    res.json(gradeReport(session));
+  });
+
+  // Malformed JSON bodies become JSON-RPC parse errors
+  app.use((err: Error & { type?: string }, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (err.type === 'entity.parse.failed') {
+      return res.status(400).json({
+        jsonrpc: '2.0', id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' }
+      });
+    }
+    next(err);
+  });
+
+  return app;
+}
+
+export function serveStdio(options: NexusMcpSessionOptions & { report?: string } = {}): Promise<void> {
+  const session = createNexusMcpSession(undefined, options);
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      process.stdout.write(JSON.stringify({
+        jsonrpc: '2.0', id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Parse error' }
+      }) + '\n');
+      return;
+    }
+
+    const response = session.handleMessage(message);
+    if (response !== null) process.stdout.write(JSON.stringify(response) + '\n');
+  });
+
+  return new Promise(resolve => {
+    lines.on('close', () => {
+      // stdout belongs to the protocol, so the grade goes to stderr
+      const report = gradeReport(session);
+      console.error(`[nexus-mcp] ${report.result.status}: ${report.result.message}`);
+      if (options.report) writeFileSync(options.report, JSON.stringify(report, null, 2));
+      resolve();
+    });
+  });
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const valueOf = (flag: string) => {
+    const i = argv.indexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+
+  const preset = valueOf('--realism');
+  const realism = preset ? getRealismPreset(preset, Number(valueOf('--seed') || 1)) : undefined;
+  const authMode = valueOf('--auth');
+  const auth = authMode ? parseAuthMode(authMode) : undefined;
+
+  if (argv.includes('--http')) {
+    const port = Number(valueOf('--port') || process.env.MCP_PORT || 3002);
+    const ttl = valueOf('--session-ttl');
+    const sessionTtlMs = ttl ? Number(ttl) * 1000 : undefined;
+    // Reject on bind errors (e.g. the port is taken) so main() fails loudly
+    await new Promise<void>((resolve, reject) => {
+      const server = createMcpHttpApp({ realism, auth, sessionTtlMs }).listen(port, () => {
+        console.log(`Nexus MCP server listening on http://localhost:${port}/mcp`);
+        resolve();
+      });
+      server.once('error', reject);
+    });
+    return;
+  }
+
+  await serveStdio({ report: valueOf('--report'), realism, auth });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(e => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -1,8 +1,47 @@
+// What the embed bridge sends back. Bridges built before exit codes were reported
+// (re-run `npm run webvm:export` to update) only send `output`, scraped from the terminal.
 type WebVMExecResult = {
     ok: boolean;
-    output: string;
+    exitCode?: number;
+    stdout?: string;
+    stderr?: string;
+    durationMs?: number;
+    truncated?: boolean;
+    output?: string;
 };
 
+export type ShellResult = {
+    exitCode: number | null; // null when the bridge can't report it (older builds)
+    stdout: string;
+    stderr: string;
+    durationMs: number;
+    truncated: boolean; // Output past the bridge's per-stream limit was dropped
+};
+
+export type WebVMFileType = "file" | "directory" | "other";
+
+export type WebVMFileStat = {
+    type: WebVMFileType;
+    size: number;
+    mtimeMs: number;
+};
+
+export type WebVMDirEntry = {
+    name: string;
+    type: WebVMFileType;
+    size: number;
+};
+
+export type WebVMFileContent = {
+    bytes: Uint8Array;
+    size: number; // Of the whole file
+    truncated: boolean; // Only the bridge's read limit was returned
+};
+
+// Requests a bridge understands; builds from before `features` was sent only run commands
+export type WebVMFeature = "exec" | "writeFile" | "readFile" | "stat" | "listDir" | "snapshot";
+const LEGACY_FEATURES: WebVMFeature[] = ["exec", "writeFile"];
+
 type Pending = {
     resolve: (v: any) => void;
     reject: (e: any) => void;
@@ -26,6 +65,7 @@ type BootStageListener = (stage: BootStage) => void;
 class WebVMService {
     private iframe: HTMLIFrameElement | null = null;
     private ready = false;
+    private features = new Set<WebVMFeature>(LEGACY_FEATURES);
     private pending = new Map<string, Pending>();
     private bootPromise: Promise<void> | null = null;
     private currentStage: BootStage = 'idle';
@@ -50,8 +90,16 @@ class WebVMService {
         return this.currentStage;
     }
 
+    /** Whether the booted bridge handles `feature` (false for readFile etc. on older builds) */
+    supports(feature: WebVMFeature): boolean {
+        return this.features.has(feature);
+    }
+
     constructor() {
-        window.addEventListener("message", (ev) => this.onMessage(ev));
+        // Guarded so levels can be imported outside the browser (e.g. the CLI runner)
+        if (typeof window !== "undefined") {
+            window.addEventListener("message", (ev) => this.onMessage(ev));
+        }
     }
 
     getEmbedUrl(): string {
@@ -131,6 +179,7 @@ class WebVMService {
 
         if (data.type === "webvm:ready") {
             this.ready = true;
+            this.features = new Set(Array.isArray(data.features) ? data.features : LEGACY_FEATURES);
             return;
         }
 
@@ -176,7 +225,7 @@ class WebVMService {
     }
 
     /**
-     * Clean up terminal output by removing:
+     * Clean up terminal output from older bridges by removing:
      * - ANSI escape codes
      * - Marker ID fragments at start (Chrome: "7062305-608c607d458c68__")
      * - Echoed command at start (Safari doubled: "pyythhonn3 ruun__teestts..pyy")
@@ -238,16 +287,79 @@ class WebVMService {
         return cleaned;
     }
 
-    async executeShell(cmd: string): Promise<string> {
+    async executeShell(cmd: string): Promise<ShellResult> {
         await this.boot();
+        const started = Date.now();
         const result = await this.requestWithRetry<WebVMExecResult>("webvm:exec", { cmd }, 60_000);
         if (!result.ok) throw new Error(result.output || "WebVM exec failed");
-        return this.cleanOutput(result.output, cmd);
+        if (typeof result.exitCode === "number") {
+            return {
+                exitCode: result.exitCode,
+                stdout: result.stdout ?? "",
+                stderr: result.stderr ?? "",
+                durationMs: result.durationMs ?? Date.now() - started,
+                truncated: !!result.truncated,
+            };
+        }
+        return {
+            exitCode: null,
+            stdout: this.cleanOutput(result.output ?? "", cmd),
+            stderr: "",
+            durationMs: Date.now() - started,
+            truncated: false,
+        };
     }
 
     async writeFile(path: string, content: string): Promise<void> {
         await this.boot();
-        await this.requestWithRetry("webvm:writeFile", { path, content }, 60_000);
+        const result = await this.requestWithRetry<WebVMExecResult>("webvm:writeFile", { path, content }, 60_000);
+        if (result.exitCode) {
+            throw new Error(result.stderr?.trim() || `Writing ${path} failed with exit code ${result.exitCode}`);
+        }
+    }
+
+    /**
+     * Read a file's bytes through the bridge rather than the terminal.
+     * Rejects with "<path>: No such file or directory" / "<path>: Is a directory".
+     */
+    async readFile(path: string): Promise<WebVMFileContent> {
+        await this.boot();
+        const result = await this.requestWithRetry<{ content: string; size: number; truncated: boolean }>("webvm:readFile", { path }, 60_000);
+        const binary = atob(result.content);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        return { bytes, size: result.size, truncated: result.truncated };
+    }
+
+    /** Resolves with null if nothing exists at `path` */
+    async stat(path: string): Promise<WebVMFileStat | null> {
+        await this.boot();
+        const result = await this.requestWithRetry<{ exists: boolean } & WebVMFileStat>("webvm:stat", { path });
+        return result.exists ? { type: result.type, size: result.size, mtimeMs: result.mtimeMs } : null;
+    }
+
+    /**
+     * Save directory `path` as snapshot `name` (a tarball inside the VM, outside `path`).
+     * Covers that directory only: the VM's disk overlay itself can't be snapshotted.
+     */
+    async snapshot(name: string, path: string): Promise<void> {
+        await this.boot();
+        const result = await this.requestWithRetry<WebVMExecResult>("webvm:snapshot", { name, path }, 60_000);
+        if (result.exitCode) throw new Error(result.stderr?.trim() || `Snapshot ${name} failed with exit code ${result.exitCode}`);
+    }
+
+    /** Replace everything in `path` with snapshot `name`, and cd the shell there */
+    async restore(name: string, path: string): Promise<void> {
+        await this.boot();
+        const result = await this.requestWithRetry<WebVMExecResult>("webvm:restore", { name, path }, 60_000);
+        if (result.exitCode) throw new Error(result.stderr?.trim() || `Restoring ${name} failed with exit code ${result.exitCode}`);
+    }
+
+    /** Entries sorted by name. Rejects with "<path>: Not a directory" for files */
+    async listDir(path: string): Promise<WebVMDirEntry[]> {
+        await this.boot();
+        const result = await this.requestWithRetry<{ entries: WebVMDirEntry[] }>("webvm:listDir", { path }, 60_000);
+        return result.entries;
     }
 }
 
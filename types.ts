@@ -24,11 +24,25 @@ export interface Message {
   imageUrl?: string; // Screenshot data URL for desktop captures
 }
 
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  passed: boolean;
+  weight: number;
+  detail?: string; // e.g. "2/3 issues"
+}
+
+export interface ValidationRubric {
+  criteria: RubricCriterion[];
+  score: number; // 0-1: weighted share of passed criteria
+}
+
 export interface ValidationResult {
   status: 'SUCCESS' | 'FAIL' | 'INTERMEDIATE';
   message: string;
   toolOutput?: string; // If intermediate, what the "system" responds with
   failType?: 'TOOL_ERROR' | 'USER_COMPLAINT' | 'USER_RESPONSE'; // Determines how the error is presented
+  rubric?: ValidationRubric; // Per-criterion breakdown for partial credit
 }
 
 export interface Level {
@@ -52,8 +66,11 @@ export interface Level {
   realisticToolsFormat?: 'MCP' | 'PLAIN_JSON';
   placeholder?: string;
   hint?: string;
-  // Validate now takes the input AND the history of the conversation so far
-  validate: (input: string, history: Message[]) => Promise<ValidationResult>;
+  // Validate now takes the input AND the history of the conversation so far.
+  // `runId` names one attempt at the level, for levels that keep state between turns.
+  validate: (input: string, history: Message[], runId?: string) => Promise<ValidationResult>;
+  // Drop the state kept for a run, so the next turn with that run ID starts fresh
+  resetRun?: (runId: string) => void;
   successMessage: string;
   imageUrl?: string; 
   type?: 'TEXT' | 'DESKTOP'; // Render mode
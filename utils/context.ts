@@ -0,0 +1,68 @@
+/**
+ * Initial context window construction, shared by SimulationView and the CLI runner.
+ */
+
+import { Level, Message } from '../types';
+
+/**
+ * Build the system/developer/user messages a level starts with.
+ */
+export function buildInitialContext(level: Level, isRealisticMode: boolean): Message[] {
+  const initialMessages: Message[] = [];
+
+  // 1. System Message (Prompt ONLY)
+  const systemContent = `### SYSTEM_PROMPT\n${level.systemPrompt}`;
+  initialMessages.push({ role: 'system', content: systemContent });
+
+  // 2. Developer Message (Tooling / Definitions)
+  // In this simulator, we keep tool definitions out of the SYSTEM prompt to mimic real API structures.
+  let developerContent: string | null = null;
+  if (!level.hideToolsInSystemPrompt) {
+    // Level 4 (MCP): Always show MCP servers section
+    if (level.id === 4 && level.realisticTools) {
+      const mcpData = level.realisticTools as any;
+      developerContent = `<mcp_servers>\n${mcpData.mcp_servers.description}\n\nConnected servers:\n`;
+      for (const server of mcpData.mcp_servers.connected_servers) {
+        developerContent += `- Name: "${server.name}"\n  URL: "${server.url}"\n`;
+      }
+      developerContent += `</mcp_servers>\n\n`;
+
+      if (isRealisticMode) {
+        // Realistic: Full JSON schema
+        developerContent += `<available_functions>\n`;
+        developerContent += JSON.stringify(mcpData.available_functions, null, 2);
+        developerContent += `\n</available_functions>`;
+      } else {
+        // Easy: Simple format
+        developerContent += `<available_functions>\n`;
+        const simpleFns = mcpData.simple_functions || ['mcp_tool_use(server_name, tool_name, arguments?)'];
+        developerContent += simpleFns.map((fn: string) => `- ${fn}`).join('\n');
+        developerContent += `\n</available_functions>`;
+      }
+    } else if (isRealisticMode && level.realisticTools) {
+      const requestedFormat = level.realisticToolsFormat ?? 'PLAIN_JSON';
+      const isMcpFormat = requestedFormat === 'MCP';
+
+      if (isMcpFormat) {
+        developerContent = `<mcp_servers>\nConnected servers:\n- Name: "simulation-mcp"\n  URL: "https://mcp.simulation.app/sse"\n</mcp_servers>`;
+        developerContent += `\n\n<mcp_tool_definitions server="simulation-mcp">\n`;
+        developerContent += JSON.stringify(level.realisticTools, null, 2);
+        developerContent += `\n</mcp_tool_definitions>`;
+      } else {
+        developerContent = `### TOOL_DEFINITIONS\n`;
+        developerContent += JSON.stringify(level.realisticTools, null, 2);
+      }
+    } else if (level.tools && level.tools.length > 0) {
+      developerContent = `### AVAILABLE_TOOLS\n` + level.tools.map((t) => `- ${t}`).join('\n');
+    }
+  }
+
+  if (developerContent) {
+    initialMessages.push({ role: 'developer', content: developerContent });
+  }
+
+  // 3. User Message (The Task)
+  initialMessages.push({ role: 'user', content: level.userPrompt });
+
+  return initialMessages;
+}
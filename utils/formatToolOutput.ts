@@ -3,6 +3,8 @@
  * Makes Pages docs, Tracker issues, and other structured data more readable.
  */
 
+import { AdfDoc, adfToMarkdown, storageToAdf } from '../levels/level4/bodyFormats';
+
 export interface FormattedSection {
   type: 'header' | 'metadata' | 'markdown' | 'json' | 'text' | 'divider' | 'list';
   content: string;
@@ -63,7 +65,11 @@ export function formatToolOutput(content: string): FormattedSection[] {
 interface PagesDoc {
   id: string;
   title: string;
-  body?: { storage?: { value?: string } };
+  body?: {
+    storage?: { value?: string };
+    adf?: { value?: AdfDoc };
+    markdown?: { value?: string };
+  };
   space?: { key?: string; name?: string };
   version?: { number?: number };
   _links?: { webui?: string };
@@ -75,7 +81,9 @@ function isPagesDoc(obj: unknown): obj is PagesDoc {
     obj !== null &&
     'title' in obj &&
     'body' in obj &&
-    typeof (obj as PagesDoc).body?.storage?.value === 'string'
+    (typeof (obj as PagesDoc).body?.storage?.value === 'string' ||
+      typeof (obj as PagesDoc).body?.adf?.value === 'object' ||
+      typeof (obj as PagesDoc).body?.markdown?.value === 'string')
   );
 }
 
@@ -201,9 +209,12 @@ function formatPagesDoc(doc: PagesDoc): FormattedSection[] {
 
   sections.push({ type: 'divider', content: '' });
 
-  // Main content - markdown!
-  if (doc.body?.storage?.value) {
-    sections.push({ type: 'markdown', content: doc.body.storage.value });
+  // Main content - markdown, whichever body-format was requested
+  const body = doc.body?.markdown?.value ??
+    (doc.body?.adf?.value ? adfToMarkdown(doc.body.adf.value) : undefined) ??
+    (doc.body?.storage?.value ? adfToMarkdown(storageToAdf(doc.body.storage.value)) : undefined);
+  if (body) {
+    sections.push({ type: 'markdown', content: body });
   }
 
   return sections;
@@ -0,0 +1,58 @@
+/**
+ * Helpers for building and displaying validation rubrics.
+ */
+
+import { Level, RubricCriterion, ValidationResult, ValidationRubric } from '../types';
+
+/**
+ * Build a rubric from criteria, computing the weighted score.
+ */
+export function buildRubric(criteria: RubricCriterion[]): ValidationRubric {
+  const total = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const earned = criteria.reduce((sum, c) => sum + (c.passed ? c.weight : 0), 0);
+  return {
+    criteria,
+    score: total > 0 ? earned / total : 0
+  };
+}
+
+export function formatScore(rubric: ValidationRubric): string {
+  return `${Math.round(rubric.score * 100)}%`;
+}
+
+/**
+ * One line per criterion, e.g. "[x] Read inline comments" or "[ ] Transitions (2/3)"
+ */
+export function formatRubricLines(rubric: ValidationRubric): string[] {
+  return rubric.criteria.map(c =>
+    `${c.passed ? '[x]' : '[ ]'} ${c.label}${c.detail ? ` (${c.detail})` : ''}`
+  );
+}
+
+/**
+ * Score lines for the debrief and ending screens: one per level with a result, followed by
+ * any missed criteria. Lines are clamped to maxWidth characters.
+ */
+export function buildScoreLines(levels: Level[], results: Record<number, ValidationResult>, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const level of levels) {
+    const result = results[level.id];
+    if (!result) continue;
+
+    const score = result.rubric ? formatScore(result.rubric) : 'PASS';
+    const name = `L${level.id.toString().padStart(2, '0')} ${level.title}`;
+    const dots = '.'.repeat(Math.max(1, maxWidth - name.length - score.length - 2));
+    lines.push(clampLine(`${name} ${dots} ${score}`, maxWidth));
+
+    for (const c of result.rubric?.criteria ?? []) {
+      if (!c.passed) lines.push(clampLine(`  - ${c.label}${c.detail ? ` (${c.detail})` : ''}`, maxWidth));
+    }
+  }
+  return lines;
+}
+
+// Collapse whitespace (judge details can span lines) and cut to max characters
+function clampLine(s: string, max: number): string {
+  const t = s.replace(/\s+/g, ' ').trim();
+  return t.length <= max ? t : t.slice(0, Math.max(0, max - 1)).trimEnd() + '…';
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { loadRun, saveRun, RUN_TTL_MS } from './runs';
+
+describe('Saved runs', () => {
+  let saved: Map<string, string>;
+
+  beforeEach(() => {
+    saved = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => saved.get(key) ?? null,
+      setItem: (key: string, value: string) => { saved.set(key, value); },
+      removeItem: (key: string) => { saved.delete(key); }
+    });
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('keeps a run until it has been idle longer than the TTL', () => {
+    saveRun(4, { runId: 'run-a', realistic: false, history: [] });
+    vi.advanceTimersByTime(RUN_TTL_MS);
+    expect(loadRun(4)?.runId).toBe('run-a');
+
+    vi.advanceTimersByTime(1);
+    expect(loadRun(4)).toBeUndefined();
+    expect(JSON.parse(saved.get('youareanagent-runs')!)).toEqual({});
+  });
+
+  it('drops legacy runs saved without a last-used time', () => {
+    saved.set('youareanagent-runs', JSON.stringify({ 4: 'run-legacy', 5: { runId: 'run-b', realistic: true, history: [] } }));
+    expect(loadRun(4)).toBeUndefined();
+    expect(loadRun(5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Run IDs
+ *
+ * A run is one attempt at a level. Levels that keep state between turns (Level 4's
+ * Nexus site) key it by run ID, so each attempt starts clean. The UI remembers the run
+ * each level is on in localStorage, with the conversation so far, so a reload picks both
+ * back up. A run left idle for longer than RUN_TTL_MS is dropped, as Level 4 drops its
+ * session for it.
+ */
+
+import type { Message } from '../types';
+
+// localStorage key for the current run of each level
+const RUNS_STORAGE_KEY = 'youareanagent-runs';
+
+// Saved runs idle for longer than this are dropped (Level 4 sessions use the same TTL)
+export const RUN_TTL_MS = 60 * 60 * 1000;
+
+export interface SavedRun {
+  runId: string;
+  realistic: boolean; // The mode the history was played in
+  history: Message[];
+  lastUsed: number; // ms
+}
+
+export function createRunId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Builds from before history was saved stored just the run ID
+function loadRuns(): Record<string, SavedRun | string> {
+  try {
+    const saved = localStorage.getItem(RUNS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn('Failed to load runs:', e);
+    return {};
+  }
+}
+
+function saveRuns(runs: Record<string, SavedRun | string>): void {
+  try {
+    localStorage.setItem(RUNS_STORAGE_KEY, JSON.stringify(runs));
+  } catch (e) {
+    console.warn('Failed to save runs:', e);
+  }
+}
+
+// Legacy entries have no lastUsed, so they count as expired
+export function loadRun(levelId: number): SavedRun | undefined {
+  const saved = loadRuns()[levelId];
+  if (saved === undefined) return undefined;
+  if (typeof saved === 'string' || typeof saved.lastUsed !== 'number' || Date.now() - saved.lastUsed > RUN_TTL_MS) {
+    clearRun(levelId);
+    return undefined;
+  }
+  return saved;
+}
+
+export function saveRun(levelId: number, run: Omit<SavedRun, 'lastUsed'>): void {
+  saveRuns({ ...loadRuns(), [levelId]: { ...run, lastUsed: Date.now() } });
+}
+
+export function clearRun(levelId: number): void {
+  const { [levelId]: _, ...rest } = loadRuns();
+  saveRuns(rest);
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAssistantToolCall,
+  formatAssistantToolCall,
+  toOpenAITranscript,
+  toAnthropicTranscript,
+  toMarkdownTranscript,
+  exportTranscript,
+  importTranscript,
+  TranscriptMeta,
+  UNPARSED_TOOL_NAME
+} from './transcript';
+import { Message } from '../types';
+
+const meta: TranscriptMeta = {
+  source: 'you-are-an-agent',
+  level: { id: 4, title: 'MCP' },
+  mode: 'realistic',
+  exportedAt: '2026-01-01T00:00:00.000Z'
+};
+
+const SCREENSHOT = 'data:image/png;base64,iVBORw0KGgo=';
+
+const history: Message[] = [
+  { role: 'system', content: 'You are an agent.' },
+  { role: 'developer', content: 'Tools: search_web' },
+  { role: 'user', content: 'Who won in 1998?' },
+  { role: 'assistant', content: 'search_web({ query: "1998 world cup" })' },
+  { role: 'tool', content: '{"results": []}' },
+  { role: 'assistant', content: 'click(120, 40)' },
+  { role: 'tool', content: 'Clicked.', imageUrl: SCREENSHOT },
+  { role: 'assistant', content: 'nonsense here' },
+  { role: 'tool', content: 'SyntaxError: Invalid tool call', isError: true },
+  { role: 'user', content: 'Try again.' },
+  { role: 'assistant', content: 'France won 3-0.' }
+];
+
+describe('tool call text', () => {
+  it('parses object arguments with unquoted keys', () => {
+    expect(parseAssistantToolCall('search_web({ query: "x", limit: 3 })'))
+      .toEqual({ name: 'search_web', arguments: { query: 'x', limit: 3 } });
+  });
+
+  it('parses positional arguments as argN', () => {
+    expect(parseAssistantToolCall("type('hi, there', 2)"))
+      .toEqual({ name: 'type', arguments: { arg0: 'hi, there', arg1: 2 } });
+  });
+
+  it('parses JSON tool calls', () => {
+    expect(parseAssistantToolCall('{"name": "read_file", "arguments": {"path": "a.py"}}'))
+      .toEqual({ name: 'read_file', arguments: { path: 'a.py' } });
+  });
+
+  it('returns null for prose', () => {
+    expect(parseAssistantToolCall('I think so.')).toBeNull();
+  });
+
+  it('formats calls back to text', () => {
+    expect(formatAssistantToolCall({ name: 'search_web', arguments: { query: 'x' } })).toBe('search_web({ query: "x" })');
+    expect(formatAssistantToolCall({ name: 'click', arguments: { arg0: 1, arg1: 2 } })).toBe('click(1, 2)');
+    expect(formatAssistantToolCall({ name: 'screenshot', arguments: {} })).toBe('screenshot()');
+  });
+});
+
+describe('toOpenAITranscript', () => {
+  const out = toOpenAITranscript(history, meta);
+
+  it('keeps system and developer roles', () => {
+    expect(out.messages.slice(0, 2).map(m => m.role)).toEqual(['system', 'developer']);
+  });
+
+  it('exports tool-answered turns as tool_calls', () => {
+    expect(out.messages[3]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search_web', arguments: '{"query":"1998 world cup"}' } }]
+    });
+    expect(out.messages[4]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '{"results": []}' });
+  });
+
+  it('attaches screenshots as a follow-up user image', () => {
+    expect(out.messages[7]).toEqual({ role: 'user', content: [{ type: 'image_url', image_url: { url: SCREENSHOT } }] });
+  });
+
+  it('wraps unparsable calls and records tool errors in metadata', () => {
+    const call = (out.messages[8] as any).tool_calls[0];
+    expect(call.function.name).toBe(UNPARSED_TOOL_NAME);
+    expect(out.metadata.toolErrors).toEqual([call.id]);
+  });
+});
+
+describe('toAnthropicTranscript', () => {
+  const out = toAnthropicTranscript(history, meta);
+
+  it('moves system and developer text into system blocks', () => {
+    expect(out.system.map(b => b.text)).toEqual(['You are an agent.', 'Tools: search_web']);
+  });
+
+  it('alternates user and assistant turns', () => {
+    const roles = out.messages.map(m => m.role);
+    roles.forEach((role, i) => {
+      if (i > 0) expect(role).not.toBe(roles[i - 1]);
+    });
+    expect(roles[0]).toBe('user');
+  });
+
+  it('exports screenshots as base64 image blocks inside tool results', () => {
+    const result = (out.messages[4].content as any[])[0];
+    expect(result.type).toBe('tool_result');
+    expect(result.content[1]).toEqual({ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } });
+  });
+
+  it('marks error results and merges the following user message', () => {
+    const blocks = out.messages[6].content as any[];
+    expect(blocks[0]).toMatchObject({ type: 'tool_result', is_error: true });
+    expect(blocks[1]).toEqual({ type: 'text', text: 'Try again.' });
+  });
+});
+
+describe('toMarkdownTranscript', () => {
+  it('renders one section per message', () => {
+    const md = toMarkdownTranscript(history, meta);
+    expect(md).toContain('# Transcript: Level 04: MCP');
+    expect(md).toContain('## TOOL (error)');
+    expect(md).toContain(`![screenshot](${SCREENSHOT})`);
+  });
+});
+
+describe('importTranscript', () => {
+  it('round-trips OpenAI exports', () => {
+    const imported = importTranscript(exportTranscript(history, 'openai', meta));
+    expect(imported.format).toBe('openai');
+    expect(imported.messages).toEqual(history);
+  });
+
+  it('round-trips Anthropic exports', () => {
+    const imported = importTranscript(exportTranscript(history, 'anthropic', meta));
+    expect(imported.format).toBe('anthropic');
+    expect(imported.messages).toEqual(history);
+    expect(imported.meta?.level?.id).toBe(4);
+  });
+
+  it('accepts plain string system prompts from Anthropic requests', () => {
+    const imported = importTranscript({ system: 'sys', messages: [{ role: 'user', content: 'hi' }] });
+    expect(imported.messages).toEqual([{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }]);
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => importTranscript('not json')).toThrow('not valid JSON');
+    expect(() => importTranscript({ foo: 1 })).toThrow('"messages" array');
+  });
+
+  it('rejects transcripts exported from a different level', () => {
+    const exported = exportTranscript(history, 'openai', meta);
+    expect(() => importTranscript(exported, { id: 5 })).toThrow('Transcript is from Level 4 (MCP), not Level 5');
+    expect(importTranscript(exported, { id: 4 }).messages).toEqual(history);
+    expect(importTranscript({ messages: [{ role: 'user', content: 'hi' }] }, { id: 5 }).messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,564 @@
+/**
+ * Session transcript export/import.
+ *
+ * Converts the simulator's `Message[]` history to and from:
+ * - OpenAI Chat Completions messages (developer role, tool_calls, tool messages)
+ * - Anthropic Messages (tool_use / tool_result blocks, screenshots as image blocks)
+ * - A plain Markdown transcript (export only)
+ *
+ * Assistant turns that were answered by a tool message are exported as tool calls.
+ * Their text is parsed into a name + arguments and rebuilt as `name({ ... })` on import.
+ */
+
+import { Message } from '../types';
+
+export type TranscriptFormat = 'openai' | 'anthropic' | 'markdown';
+
+export interface TranscriptMeta {
+  source: 'you-are-an-agent';
+  level?: { id: number; title: string };
+  mode?: 'easy' | 'realistic';
+  exportedAt: string;
+  toolErrors?: string[]; // OpenAI only: tool_call_ids whose tool message was an error
+}
+
+// ============ OPENAI TYPES ============
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIMessage =
+  | { role: 'system' | 'developer'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface OpenAITranscript {
+  messages: OpenAIMessage[];
+  metadata: TranscriptMeta;
+}
+
+// ============ ANTHROPIC TYPES ============
+
+type AnthropicImageBlock = {
+  type: 'image';
+  source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+};
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | AnthropicImageBlock
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: Array<{ type: 'text'; text: string } | AnthropicImageBlock>;
+      is_error?: boolean;
+    };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicBlock[];
+}
+
+export interface AnthropicTranscript {
+  system: Array<{ type: 'text'; text: string }>;
+  messages: AnthropicMessage[];
+  metadata: TranscriptMeta;
+}
+
+// Tool name used when an assistant turn got a tool response but isn't parseable as a call
+export const UNPARSED_TOOL_NAME = 'unparsed_tool_call';
+
+// ============ TOOL CALL TEXT ============
+
+export interface AssistantToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Parse `name(args)` or `{ "name": ..., "arguments": ... }` into a tool call.
+ * Positional arguments become arg0, arg1, ... (same convention as the Level 4 parser).
+ */
+export function parseAssistantToolCall(content: string): AssistantToolCall | null {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed.name !== 'string') return null;
+      return { name: parsed.name, arguments: parsed.arguments ?? {} };
+    } catch {
+      return null;
+    }
+  }
+
+  const funcMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([\s\S]*)\)$/);
+  if (!funcMatch) return null;
+
+  const name = funcMatch[1];
+  const argsStr = funcMatch[2].trim();
+  if (!argsStr) return { name, arguments: {} };
+
+  if (argsStr.startsWith('{')) {
+    const args = parseLooseJson(argsStr);
+    return args ? { name, arguments: args } : null;
+  }
+
+  const args: Record<string, unknown> = {};
+  splitTopLevelArgs(argsStr).forEach((part, i) => {
+    args[`arg${i}`] = parseLooseValue(part);
+  });
+  return { name, arguments: args };
+}
+
+/**
+ * Rebuild call text from a tool call: `name("a", 1)` for positional args,
+ * otherwise `name({ key: "value" })`.
+ */
+export function formatAssistantToolCall(call: AssistantToolCall): string {
+  if (call.name === UNPARSED_TOOL_NAME) return String(call.arguments.input ?? '');
+
+  const entries = Object.entries(call.arguments);
+  if (entries.length === 0) return `${call.name}()`;
+
+  if (entries.every(([key]) => /^arg\d+$/.test(key))) {
+    const ordered = entries.sort(([a], [b]) => Number(a.slice(3)) - Number(b.slice(3)));
+    return `${call.name}(${ordered.map(([, v]) => JSON.stringify(v)).join(', ')})`;
+  }
+
+  const body = entries
+    .map(([key, value]) => `${/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key)}: ${JSON.stringify(value)}`)
+    .join(', ');
+  return `${call.name}({ ${body} })`;
+}
+
+function toToolCall(content: string): AssistantToolCall {
+  return parseAssistantToolCall(content) ?? { name: UNPARSED_TOOL_NAME, arguments: { input: content } };
+}
+
+// ============ EXPORT ============
+
+export function createTranscriptMeta(
+  level?: { id: number; title: string },
+  mode?: 'easy' | 'realistic'
+): TranscriptMeta {
+  return { source: 'you-are-an-agent', level, mode, exportedAt: new Date().toISOString() };
+}
+
+export function toOpenAITranscript(history: Message[], meta: TranscriptMeta): OpenAITranscript {
+  const messages: OpenAIMessage[] = [];
+  const toolErrors: string[] = [];
+  let pendingCallId: string | null = null;
+  let callCount = 0;
+
+  history.forEach((msg, i) => {
+    switch (msg.role) {
+      case 'system':
+      case 'developer':
+        messages.push({ role: msg.role, content: msg.content });
+        break;
+
+      case 'user':
+        messages.push({
+          role: 'user',
+          content: msg.imageUrl
+            ? [{ type: 'text', text: msg.content }, { type: 'image_url', image_url: { url: msg.imageUrl } }]
+            : msg.content
+        });
+        break;
+
+      case 'assistant': {
+        if (history[i + 1]?.role !== 'tool') {
+          messages.push({ role: 'assistant', content: msg.content });
+          break;
+        }
+        const call = toToolCall(msg.content);
+        pendingCallId = `call_${++callCount}`;
+        messages.push({
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: pendingCallId,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }]
+        });
+        break;
+      }
+
+      case 'tool': {
+        const callId = pendingCallId ?? `call_${++callCount}`;
+        pendingCallId = null;
+        messages.push({ role: 'tool', tool_call_id: callId, content: msg.content });
+        if (msg.isError) toolErrors.push(callId);
+        // Tool messages can't carry images; attach screenshots as a follow-up user message
+        if (msg.imageUrl) {
+          messages.push({ role: 'user', content: [{ type: 'image_url', image_url: { url: msg.imageUrl } }] });
+        }
+        break;
+      }
+    }
+  });
+
+  return {
+    messages,
+    metadata: toolErrors.length > 0 ? { ...meta, toolErrors } : meta
+  };
+}
+
+export function toAnthropicTranscript(history: Message[], meta: TranscriptMeta): AnthropicTranscript {
+  const system: AnthropicTranscript['system'] = [];
+  const messages: AnthropicMessage[] = [];
+  let pendingToolUseId: string | null = null;
+  let callCount = 0;
+
+  // Anthropic requires alternating roles, so consecutive blocks of one role are merged
+  const push = (role: 'user' | 'assistant', block: AnthropicBlock) => {
+    const last = messages[messages.length - 1];
+    if (last && last.role === role && Array.isArray(last.content)) {
+      last.content.push(block);
+    } else {
+      messages.push({ role, content: [block] });
+    }
+  };
+
+  history.forEach((msg, i) => {
+    switch (msg.role) {
+      case 'system':
+      case 'developer':
+        system.push({ type: 'text', text: msg.content });
+        break;
+
+      case 'user':
+        push('user', { type: 'text', text: msg.content });
+        if (msg.imageUrl) push('user', toImageBlock(msg.imageUrl));
+        break;
+
+      case 'assistant': {
+        if (history[i + 1]?.role !== 'tool') {
+          push('assistant', { type: 'text', text: msg.content });
+          break;
+        }
+        const call = toToolCall(msg.content);
+        pendingToolUseId = `toolu_${++callCount}`;
+        push('assistant', { type: 'tool_use', id: pendingToolUseId, name: call.name, input: call.arguments });
+        break;
+      }
+
+      case 'tool': {
+        const content: Array<{ type: 'text'; text: string } | AnthropicImageBlock> = [{ type: 'text', text: msg.content }];
+        if (msg.imageUrl) content.push(toImageBlock(msg.imageUrl));
+        push('user', {
+          type: 'tool_result',
+          tool_use_id: pendingToolUseId ?? `toolu_${++callCount}`,
+          content,
+          ...(msg.isError ? { is_error: true } : {})
+        });
+        pendingToolUseId = null;
+        break;
+      }
+    }
+  });
+
+  return { system, messages, metadata: meta };
+}
+
+export function toMarkdownTranscript(history: Message[], meta: TranscriptMeta): string {
+  const lines: string[] = [];
+  const title = meta.level
+    ? `Level ${meta.level.id.toString().padStart(2, '0')}: ${meta.level.title}`
+    : 'Session';
+
+  lines.push(`# Transcript: ${title}`, '');
+  lines.push(`_Exported ${meta.exportedAt}${meta.mode ? ` (${meta.mode} mode)` : ''}_`, '');
+
+  for (const msg of history) {
+    const heading = msg.role.toUpperCase() + (msg.isError ? ' (error)' : '');
+    const fence = msg.content.includes('```') ? '````' : '```';
+    lines.push(`## ${heading}`, '', fence, msg.content, fence, '');
+    if (msg.imageUrl) lines.push(`![screenshot](${msg.imageUrl})`, '');
+  }
+
+  return lines.join('\n');
+}
+
+export function exportTranscript(history: Message[], format: TranscriptFormat, meta: TranscriptMeta): string {
+  switch (format) {
+    case 'openai':
+      return JSON.stringify(toOpenAITranscript(history, meta), null, 2);
+    case 'anthropic':
+      return JSON.stringify(toAnthropicTranscript(history, meta), null, 2);
+    case 'markdown':
+      return toMarkdownTranscript(history, meta);
+  }
+}
+
+// ============ IMPORT ============
+
+export interface ImportedTranscript {
+  format: 'openai' | 'anthropic';
+  messages: Message[];
+  meta?: TranscriptMeta;
+}
+
+/**
+ * Parse an exported OpenAI or Anthropic transcript (JSON text or object) back into `Message[]`.
+ * The format is detected from its shape. Pass the level it will be replayed into to reject
+ * transcripts exported from a different one; transcripts without level metadata are accepted.
+ */
+export function importTranscript(source: string | object, level?: { id: number }): ImportedTranscript {
+  let data: any;
+  try {
+    data = typeof source === 'string' ? JSON.parse(source) : source;
+  } catch (e) {
+    throw new Error(`Transcript is not valid JSON: ${(e as Error).message}`);
+  }
+
+  if (!data || !Array.isArray(data.messages)) {
+    throw new Error('Transcript must have a "messages" array');
+  }
+
+  const meta: TranscriptMeta | undefined = data.metadata;
+  if (level && meta?.level && meta.level.id !== level.id) {
+    throw new Error(`Transcript is from Level ${meta.level.id} (${meta.level.title}), not Level ${level.id}. Open that level and import it there.`);
+  }
+
+  if (isAnthropicTranscript(data)) {
+    return { format: 'anthropic', messages: fromAnthropic(data), meta };
+  }
+  return { format: 'openai', messages: fromOpenAI(data), meta };
+}
+
+function isAnthropicTranscript(data: any): boolean {
+  if (data.system !== undefined) return true;
+  return data.messages.some((m: any) =>
+    Array.isArray(m.content) && m.content.some((b: any) => b?.type === 'tool_use' || b?.type === 'tool_result')
+  );
+}
+
+function fromOpenAI(data: { messages: any[]; metadata?: TranscriptMeta }): Message[] {
+  const toolErrors = new Set(data.metadata?.toolErrors ?? []);
+  const result: Message[] = [];
+
+  for (const msg of data.messages) {
+    switch (msg.role) {
+      case 'system':
+      case 'developer':
+        result.push({ role: msg.role, content: textOf(msg.content) });
+        break;
+
+      case 'user': {
+        const imageUrl = Array.isArray(msg.content)
+          ? msg.content.find((p: any) => p?.type === 'image_url')?.image_url?.url
+          : undefined;
+        const text = textOf(msg.content);
+        const prev = result[result.length - 1];
+
+        // Screenshot follow-up for the preceding tool message
+        if (!text && imageUrl && prev?.role === 'tool' && !prev.imageUrl) {
+          prev.imageUrl = imageUrl;
+          break;
+        }
+        result.push({ role: 'user', content: text, ...(imageUrl ? { imageUrl } : {}) });
+        break;
+      }
+
+      case 'assistant':
+        if (Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0) {
+          for (const call of msg.tool_calls) {
+            result.push({
+              role: 'assistant',
+              content: formatAssistantToolCall({
+                name: call.function?.name ?? '',
+                arguments: parseArgumentsString(call.function?.arguments)
+              })
+            });
+          }
+        } else {
+          result.push({ role: 'assistant', content: textOf(msg.content) });
+        }
+        break;
+
+      case 'tool':
+        result.push({
+          role: 'tool',
+          content: textOf(msg.content),
+          ...(toolErrors.has(msg.tool_call_id) ? { isError: true } : {})
+        });
+        break;
+
+      default:
+        throw new Error(`Unsupported OpenAI message role: ${msg.role}`);
+    }
+  }
+
+  return result;
+}
+
+function fromAnthropic(data: { system?: unknown; messages: any[] }): Message[] {
+  const result: Message[] = [];
+
+  // First system block is the system prompt, the rest came from the developer message
+  if (typeof data.system === 'string') {
+    result.push({ role: 'system', content: data.system });
+  } else if (Array.isArray(data.system)) {
+    data.system.forEach((block: any, i: number) => {
+      result.push({ role: i === 0 ? 'system' : 'developer', content: String(block?.text ?? '') });
+    });
+  }
+
+  for (const msg of data.messages) {
+    if (msg.role !== 'user' && msg.role !== 'assistant') {
+      throw new Error(`Unsupported Anthropic message role: ${msg.role}`);
+    }
+
+    if (typeof msg.content === 'string') {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    for (const block of msg.content ?? []) {
+      switch (block?.type) {
+        case 'text':
+          result.push({ role: msg.role, content: block.text });
+          break;
+        case 'image': {
+          const prev = result[result.length - 1];
+          const url = fromImageBlock(block);
+          if (prev && prev.role === msg.role && !prev.imageUrl) {
+            prev.imageUrl = url;
+          } else {
+            result.push({ role: msg.role, content: '', imageUrl: url });
+          }
+          break;
+        }
+        case 'tool_use':
+          result.push({
+            role: 'assistant',
+            content: formatAssistantToolCall({ name: block.name, arguments: block.input ?? {} })
+          });
+          break;
+        case 'tool_result': {
+          const parts = typeof block.content === 'string' ? [{ type: 'text', text: block.content }] : (block.content ?? []);
+          const image = parts.find((p: any) => p?.type === 'image');
+          result.push({
+            role: 'tool',
+            content: parts.filter((p: any) => p?.type === 'text').map((p: any) => p.text).join('\n'),
+            ...(image ? { imageUrl: fromImageBlock(image) } : {}),
+            ...(block.is_error ? { isError: true } : {})
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+// ============ HELPERS ============
+
+function toImageBlock(url: string): AnthropicImageBlock {
+  const dataMatch = url.match(/^data:([^;]+);base64,([\s\S]*)$/);
+  if (dataMatch) {
+    return { type: 'image', source: { type: 'base64', media_type: dataMatch[1], data: dataMatch[2] } };
+  }
+  return { type: 'image', source: { type: 'url', url } };
+}
+
+function fromImageBlock(block: AnthropicImageBlock): string {
+  const src = block.source;
+  return src.type === 'base64' ? `data:${src.media_type};base64,${src.data}` : src.url;
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.filter((p: any) => p?.type === 'text').map((p: any) => p.text).join('\n');
+  }
+  return '';
+}
+
+function parseArgumentsString(args: unknown): Record<string, unknown> {
+  if (typeof args !== 'string' || !args.trim()) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return { input: args };
+  }
+}
+
+/**
+ * Parse loose JSON (handles unquoted keys, single quotes, trailing commas)
+ */
+function parseLooseJson(str: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(str);
+  } catch {
+    // Continue to loose parsing
+  }
+
+  let jsonStr = str.replace(/([{,]\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/g, '$1"$2":');
+  jsonStr = jsonStr.replace(/'((?:[^'\\]|\\.)*)'/g, (_, s) => JSON.stringify(s));
+  jsonStr = jsonStr.replace(/,\s*([}\]])/g, '$1');
+
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    return null;
+  }
+}
+
+function parseLooseValue(part: string): unknown {
+  const single = part.match(/^'((?:[^'\\]|\\.)*)'$/);
+  if (single) return single[1];
+  try {
+    return JSON.parse(part);
+  } catch {
+    return part;
+  }
+}
+
+/**
+ * Split arguments at top-level commas (not inside braces/brackets/quotes)
+ */
+function splitTopLevelArgs(str: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let depth = 0;
+  let inString: string | null = null;
+  let escaped = false;
+
+  for (const char of str) {
+    current += char;
+
+    if (escaped) {
+      escaped = false;
+    } else if (char === '\\') {
+      escaped = true;
+    } else if (inString) {
+      if (char === inString) inString = null;
+    } else if (char === '"' || char === "'") {
+      inString = char;
+    } else if ('{[('.includes(char)) {
+      depth++;
+    } else if ('}])'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      result.push(current.slice(0, -1).trim());
+      current = '';
+    }
+  }
+
+  if (current.trim()) result.push(current.trim());
+  return result;
+}